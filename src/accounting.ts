@@ -0,0 +1,328 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BackpackFill, BackpackFundingHistory, BackpackFundingPayment, TradingData } from './types';
+import { PositionAnalysis } from './analysis';
+import { normalizeFunding } from './funding';
+import { Decimal } from './decimal';
+import { toCSV, CSVValue } from './csv';
+import { ExportedFile } from './exporter';
+
+export const ACCOUNTING_FORMATS = ['ledger', 'koinly', 'cointracking'] as const;
+export type AccountingFormat = typeof ACCOUNTING_FORMATS[number];
+
+export type AccountingEventType = 'trade' | 'realized_pnl' | 'fee' | 'deposit' | 'withdrawal' | 'funding' | 'interest';
+
+export interface AssetAmount {
+  amount: Decimal; // Always positive; the field it is in gives the direction
+  asset: string;
+}
+
+/**
+ * One balance change, or a set of them that belong together (a spot trade
+ * and its fee). Every import format is built from these.
+ */
+export interface AccountingEvent {
+  account?: string;
+  timestamp: Date;
+  type: AccountingEventType;
+  received?: AssetAmount; // Into the account
+  sent?: AssetAmount; // Out of the account
+  fee?: AssetAmount; // Out of the account, in the fee's own currency
+  value?: AssetAmount; // Fiat value reported by the exchange, if any
+  market?: string; // e.g. SOL_USDC_PERP
+  interestType?: string; // Lend, Borrow or UnrealizedPnl
+  referenceId: string;
+  txHash?: string;
+  description: string;
+}
+
+// Records are tagged with an account when several accounts are analysed
+type Tagged<T> = T & { account?: string };
+
+const EXCHANGE = 'Backpack';
+
+// Deposits and withdrawals in these states never moved funds
+const UNSETTLED_STATUS = /fail|cancel|reject|declin|pending/i;
+
+function isPerpSymbol(symbol: string): boolean {
+  return symbol.includes('PERP');
+}
+
+// Perps settle in their quote currency: SOL_USDC_PERP -> USDC
+function settlementAsset(symbol: string): string {
+  return symbol.split('_')[1] || 'USDC';
+}
+
+function amountOf(value: Decimal, asset: string): AssetAmount | undefined {
+  return value.isZero() ? undefined : { amount: value.abs(), asset };
+}
+
+export class AccountingExporter {
+  /**
+   * Accounting events from the raw records. Perpetual fills are not swaps:
+   * a closing fill realizes the PnL of the lots it closes (from the
+   * reconstructed positions), in the settlement currency, and every perp fill
+   * pays its fee. Spot fills are swaps of base against quote.
+   */
+  static events(data: TradingData, analysis: PositionAnalysis): AccountingEvent[] {
+    const events: AccountingEvent[] = [
+      ...this.fillEvents(data.fills as Tagged<BackpackFill>[], analysis),
+      ...this.transferEvents(data),
+      ...this.fundingEvents(data.fundingPayments as Tagged<BackpackFundingPayment>[], data.fundingHistory as Tagged<BackpackFundingHistory>[]),
+      ...data.interestHistory.map(interest => this.interestEvent(interest))
+    ].filter((event): event is AccountingEvent => event !== undefined);
+
+    // Stable, so a trade's rows keep their order
+    return events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  private static fillEvents(fills: Tagged<BackpackFill>[], analysis: PositionAnalysis): AccountingEvent[] {
+    // Exact realized PnL per closing fill; fills split by a flip keep their id
+    const realized = new Map<string, Decimal>();
+    for (const position of [...analysis.completedPositions, ...analysis.openPositions]) {
+      for (const lot of position.lots) {
+        const key = `${position.account || ''}|${lot.closeFill.id}`;
+        realized.set(key, (realized.get(key) || Decimal.ZERO).add(lot.exact.realizedPnl));
+      }
+    }
+
+    return fills.map((fill): AccountingEvent | undefined => {
+      const timestamp = new Date(fill.timestamp);
+      const fee = amountOf(Decimal.from(fill.fee || '0'), fill.feeSymbol);
+      const base = { account: fill.account, timestamp, market: fill.symbol, referenceId: fill.tradeId };
+      const quantity = Decimal.from(fill.quantity);
+
+      if (!isPerpSymbol(fill.symbol)) {
+        const [baseAsset, quoteAsset] = fill.symbol.split('_');
+        const baseAmount = { amount: quantity, asset: baseAsset };
+        const quoteAmount = { amount: quantity.mul(fill.price), asset: quoteAsset };
+        const buy = fill.side === 'Bid';
+        return {
+          ...base,
+          type: 'trade',
+          received: buy ? baseAmount : quoteAmount,
+          sent: buy ? quoteAmount : baseAmount,
+          fee,
+          description: `${buy ? 'Buy' : 'Sell'} ${fill.quantity} ${fill.symbol} @ ${fill.price}`
+        };
+      }
+
+      const pnl = realized.get(`${fill.account || ''}|${fill.id}`) || Decimal.ZERO;
+      const side = fill.side === 'Bid' ? 'Buy' : 'Sell';
+      if (pnl.isZero()) {
+        if (!fee) return undefined;
+        return { ...base, type: 'fee', fee, description: `Trading fee: ${side} ${fill.quantity} ${fill.symbol} @ ${fill.price}` };
+      }
+
+      const asset = settlementAsset(fill.symbol);
+      return {
+        ...base,
+        type: 'realized_pnl',
+        received: pnl.gt(0) ? amountOf(pnl, asset) : undefined,
+        sent: pnl.lt(0) ? amountOf(pnl, asset) : undefined,
+        fee,
+        description: `Realized PnL: ${side} ${fill.quantity} ${fill.symbol} @ ${fill.price}`
+      };
+    }).filter((event): event is AccountingEvent => event !== undefined);
+  }
+
+  private static transferEvents(data: TradingData): AccountingEvent[] {
+    type Transfer = { account?: string; status: string };
+    const settled = (record: Transfer) => !UNSETTLED_STATUS.test(record.status);
+
+    const deposits = (data.deposits as Array<TradingData['deposits'][number] & Transfer>).filter(settled).map(deposit => ({
+      account: deposit.account,
+      timestamp: new Date(deposit.timestamp),
+      type: 'deposit' as const,
+      received: { amount: Decimal.from(deposit.quantity), asset: deposit.symbol },
+      value: deposit.fiatValue && deposit.fiatCurrency ? { amount: Decimal.from(deposit.fiatValue), asset: deposit.fiatCurrency } : undefined,
+      referenceId: deposit.id || deposit.transactionId || '',
+      txHash: deposit.transactionId,
+      description: `Deposit${deposit.fromAddress ? ` from ${deposit.fromAddress}` : ''}`
+    }));
+
+    // The fee is charged on top of the withdrawn quantity
+    const withdrawals = (data.withdrawals as Array<TradingData['withdrawals'][number] & Transfer>).filter(settled).map(withdrawal => ({
+      account: withdrawal.account,
+      timestamp: new Date(withdrawal.timestamp),
+      type: 'withdrawal' as const,
+      sent: { amount: Decimal.from(withdrawal.quantity), asset: withdrawal.symbol },
+      fee: amountOf(Decimal.from(withdrawal.fee || '0'), withdrawal.symbol),
+      referenceId: withdrawal.id || withdrawal.transactionHash || '',
+      txHash: withdrawal.transactionHash,
+      description: `Withdrawal to ${withdrawal.address} (${withdrawal.blockchain})`
+    }));
+
+    return [...deposits, ...withdrawals];
+  }
+
+  private static fundingEvents(payments: Tagged<BackpackFundingPayment>[], history: Tagged<BackpackFundingHistory>[]): AccountingEvent[] {
+    // Normalized per account, since both sources are deduplicated by symbol and time
+    const accounts = [...new Set([...payments, ...history].map(record => record.account))];
+
+    return accounts.flatMap(account => normalizeFunding(
+      payments.filter(payment => payment.account === account),
+      history.filter(funding => funding.account === account)
+    ).map(({ event, amount }) => {
+      const asset = settlementAsset(event.symbol);
+      return {
+        account,
+        timestamp: event.timestamp,
+        type: 'funding' as const,
+        received: amount.gt(0) ? amountOf(amount, asset) : undefined,
+        sent: amount.lt(0) ? amountOf(amount, asset) : undefined,
+        market: event.symbol,
+        referenceId: event.id,
+        description: `Funding ${amount.gt(0) ? 'received' : 'paid'} on ${event.symbol} (rate ${event.rate})`
+      };
+    }));
+  }
+
+  private static interestEvent(interest: Tagged<TradingData['interestHistory'][number]>): AccountingEvent | undefined {
+    const amount = Decimal.from(interest.quantity);
+    if (amount.isZero()) return undefined;
+
+    return {
+      account: interest.account,
+      timestamp: new Date(interest.timestamp),
+      type: 'interest',
+      received: amount.gt(0) ? amountOf(amount, interest.symbol) : undefined,
+      sent: amount.lt(0) ? amountOf(amount, interest.symbol) : undefined,
+      market: interest.marketSymbol || undefined,
+      interestType: interest.paymentType,
+      referenceId: `${interest.positionId || interest.symbol}@${new Date(interest.timestamp).getTime()}`,
+      description: `${interest.paymentType} interest ${amount.gt(0) ? 'received' : 'paid'}${interest.marketSymbol ? ` on ${interest.marketSymbol}` : ''} (rate ${interest.interestRate})`
+    };
+  }
+
+  /**
+   * Write one import file, or for Koinly (one wallet per file) one file per
+   * account when several accounts are analysed.
+   */
+  static async write(directory: string, format: AccountingFormat, events: AccountingEvent[]): Promise<ExportedFile[]> {
+    const accounts = [...new Set(events.map(event => event.account))];
+    const groups: Array<[string, AccountingEvent[]]> = format === 'koinly' && accounts.length > 1 ?
+      accounts.map(account => [`koinly-${account || 'default'}.csv`, events.filter(event => event.account === account)]) :
+      [[`${format}.csv`, events]];
+
+    await fs.promises.mkdir(directory, { recursive: true });
+    const written: ExportedFile[] = [];
+    for (const [name, groupEvents] of groups) {
+      const file = path.join(directory, name);
+      const rows = accountingRows(format, groupEvents);
+      await fs.promises.writeFile(file, toCSV(ACCOUNTING_COLUMNS[format], rows), 'utf8');
+      written.push({ file, rows: rows.length });
+    }
+    return written;
+  }
+}
+
+// Column sets follow each tool's documented import template
+export const ACCOUNTING_COLUMNS: { [format in AccountingFormat]: string[] } = {
+  ledger: ['timestamp', 'account', 'type', 'asset', 'amount', 'market', 'reference_id', 'tx_hash', 'description'],
+  koinly: [
+    'Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency', 'Fee Amount', 'Fee Currency',
+    'Net Worth Amount', 'Net Worth Currency', 'Label', 'Description', 'TxHash'
+  ],
+  cointracking: [
+    'Type', 'Buy Amount', 'Buy Currency', 'Sell Amount', 'Sell Currency', 'Fee', 'Fee Currency', 'Exchange',
+    'Trade-Group', 'Comment', 'Date', 'Tx-ID'
+  ]
+};
+
+function accountingRows(format: AccountingFormat, events: AccountingEvent[]): CSVValue[][] {
+  switch (format) {
+    case 'ledger': return ledgerRows(events);
+    case 'koinly': return events.map(koinlyRow);
+    case 'cointracking': return events.map(coinTrackingRow);
+  }
+}
+
+export function formatAccountingAsCSV(format: AccountingFormat, events: AccountingEvent[]): string {
+  return toCSV(ACCOUNTING_COLUMNS[format], accountingRows(format, events));
+}
+
+// YYYY-MM-DD HH:mm:ss in UTC
+function utcTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Universal ledger: one row per asset movement, signed (positive into the
+ * account, negative out). Fees get their own `fee` row in the fee currency,
+ * so summing `amount` per asset gives the net flow.
+ */
+function ledgerRows(events: AccountingEvent[]): CSVValue[][] {
+  const rows: CSVValue[][] = [];
+  for (const event of events) {
+    const row = (type: string, asset: string, amount: string) => rows.push([
+      event.timestamp.toISOString(), event.account, type, asset, amount, event.market, event.referenceId, event.txHash,
+      event.description
+    ]);
+
+    if (event.received) row(event.type, event.received.asset, event.received.amount.toString());
+    if (event.sent) row(event.type, event.sent.asset, event.sent.amount.neg().toString());
+    if (event.fee) row('fee', event.fee.asset, event.fee.amount.neg().toString());
+  }
+  return rows;
+}
+
+// Koinly universal template: amounts unsigned, direction by column, type by label
+function koinlyLabel(event: AccountingEvent): string {
+  switch (event.type) {
+    case 'realized_pnl': return 'realized gain';
+    case 'fee': return 'cost';
+    case 'funding': return event.received ? 'income' : 'cost';
+    case 'interest':
+      if (event.sent) return 'interest payment';
+      return event.interestType === 'Lend' ? 'lending interest' : 'income';
+    default: return ''; // Trades, deposits and withdrawals need no label
+  }
+}
+
+function koinlyRow(event: AccountingEvent): CSVValue[] {
+  // A standalone fee is sent as a cost
+  const sent = event.type === 'fee' ? event.fee : event.sent;
+  const fee = event.type === 'fee' ? undefined : event.fee;
+  return [
+    `${utcTime(event.timestamp)} UTC`,
+    sent?.amount.toString(), sent?.asset,
+    event.received?.amount.toString(), event.received?.asset,
+    fee?.amount.toString(), fee?.asset,
+    event.value?.amount.toString(), event.value?.asset,
+    koinlyLabel(event),
+    event.account ? `${event.account}: ${event.description}` : event.description,
+    event.txHash || event.referenceId
+  ];
+}
+
+// CoinTracking import: Buy = into the account, Sell = out of it
+function coinTrackingType(event: AccountingEvent): string {
+  switch (event.type) {
+    case 'trade': return 'Trade';
+    case 'realized_pnl': return event.received ? 'Derivatives / Futures Profit' : 'Derivatives / Futures Loss';
+    case 'fee': return 'Other Fee';
+    case 'deposit': return 'Deposit';
+    case 'withdrawal': return 'Withdrawal';
+    case 'funding': return event.received ? 'Income' : 'Other Expense';
+    case 'interest':
+      if (event.sent) return 'Margin Fee';
+      return event.interestType === 'Lend' ? 'Lending Income' : 'Interest Income';
+  }
+}
+
+function coinTrackingRow(event: AccountingEvent): CSVValue[] {
+  const sent = event.type === 'fee' ? event.fee : event.sent;
+  const fee = event.type === 'fee' ? undefined : event.fee;
+  return [
+    coinTrackingType(event),
+    event.received?.amount.toString(), event.received?.asset,
+    sent?.amount.toString(), sent?.asset,
+    fee?.amount.toString(), fee?.asset,
+    EXCHANGE,
+    event.account || '',
+    event.description,
+    utcTime(event.timestamp),
+    event.txHash || event.referenceId
+  ];
+}
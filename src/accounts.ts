@@ -0,0 +1,296 @@
+import * as fs from 'fs';
+import { BackpackBalance, TradingData } from './types';
+import { PnlBreakdown, PositionAnalysis, PositionReconstructor, ReconstructionOptions, SymbolSummary } from './analysis';
+import { Decimal } from './decimal';
+
+export interface AccountConfig {
+  name: string; // Tag for every record, position and summary line; also the store subdirectory
+  profile?: string; // Keystore profile holding the credentials
+  envPrefix?: string; // Read <prefix>_API_KEY and <prefix>_PRIVATE_KEY instead, defaults to BACKPACK
+  subaccountId?: number; // Passed to position history, defaults to 0
+}
+
+export type AccountTagged<T> = T & { account: string };
+
+export interface AccountAnalysis {
+  account: string;
+  data: TradingData; // Records tagged with the account name
+  analysis: PositionAnalysis;
+}
+
+export interface CombinedAnalysis {
+  data: TradingData; // Every account's records, balances summed per symbol
+  analysis: PositionAnalysis; // Firm-wide; positions keep their account tag
+}
+
+export class AccountConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountConfigError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read an accounts file: `{ "accounts": [{ "name": "main", "profile": "main" }, ...] }`.
+ */
+export async function loadAccountConfig(file: string): Promise<AccountConfig[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(file, 'utf8');
+  } catch (error) {
+    throw new AccountConfigError(`Cannot read accounts file ${file}: ${(error as Error).message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new AccountConfigError(`Accounts file ${file} is not valid JSON`);
+  }
+
+  const entries = isObject(parsed) ? parsed.accounts : undefined;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new AccountConfigError(`Accounts file ${file} must contain a non-empty "accounts" array`);
+  }
+
+  const accounts: AccountConfig[] = [];
+  const names = new Set<string>();
+  entries.forEach((account: unknown, index) => {
+    if (!isObject(account)) {
+      throw new AccountConfigError(`Account ${index + 1} in ${file} must be an object`);
+    }
+    const { name, profile, envPrefix, subaccountId } = account;
+    if (typeof name !== 'string' || !/^[\w.-]+$/.test(name)) {
+      throw new AccountConfigError(`Invalid account name "${name}": use letters, digits, ".", "-" or "_"`);
+    }
+    if (names.has(name)) {
+      throw new AccountConfigError(`Duplicate account name "${name}"`);
+    }
+    if (profile !== undefined && typeof profile !== 'string') {
+      throw new AccountConfigError(`Account "${name}" has a profile that is not a string`);
+    }
+    if (envPrefix !== undefined && typeof envPrefix !== 'string') {
+      throw new AccountConfigError(`Account "${name}" has an envPrefix that is not a string`);
+    }
+    if (profile !== undefined && envPrefix !== undefined) {
+      throw new AccountConfigError(`Account "${name}" sets both profile and envPrefix`);
+    }
+    if (subaccountId !== undefined && (typeof subaccountId !== 'number' || !Number.isInteger(subaccountId) || subaccountId < 0)) {
+      throw new AccountConfigError(`Account "${name}" has an invalid subaccountId`);
+    }
+    names.add(name);
+    accounts.push({ name, profile, envPrefix, subaccountId });
+  });
+
+  return accounts;
+}
+
+export class AccountAggregator {
+  /**
+   * Tag an account's records and reconstruct its positions on their own, so
+   * fills from different accounts are never netted against each other.
+   */
+  static analyze(account: string, data: TradingData, options: ReconstructionOptions = {}): AccountAnalysis {
+    const tagged = this.tag(account, data);
+    const analysis = PositionReconstructor.reconstructPositions(tagged.fills, {
+      settlements: tagged.settlements,
+      fundingPayments: tagged.fundingPayments,
+      fundingHistory: tagged.fundingHistory,
+      interestHistory: tagged.interestHistory,
+      ...options
+    });
+
+    analysis.completedPositions.forEach(position => { position.account = account; });
+    analysis.openPositions.forEach(position => { position.account = account; });
+
+    return { account, data: tagged, analysis };
+  }
+
+  /**
+   * Firm-wide view of several accounts: records and positions concatenated,
+   * summary figures summed exactly.
+   */
+  static combine(accounts: AccountAnalysis[]): CombinedAnalysis {
+    const byEntryTime = (a: { entryTime: Date }, b: { entryTime: Date }) => a.entryTime.getTime() - b.entryTime.getTime();
+    const analyses = accounts.map(account => account.analysis);
+    const summaries = analyses.map(analysis => analysis.summary);
+
+    const symbolBreakdown: { [symbol: string]: SymbolSummary } = {};
+    for (const summary of summaries) {
+      for (const [symbol, data] of Object.entries(summary.symbolBreakdown)) {
+        const existing = symbolBreakdown[symbol];
+        symbolBreakdown[symbol] = existing
+          ? { positions: existing.positions + data.positions, pnl: sum([existing.pnl, data.pnl]), net: sumBreakdowns([existing.net, data.net]) }
+          : { ...data, net: { ...data.net } };
+      }
+    }
+
+    const analysis: PositionAnalysis = {
+      lotMatching: analyses[0]?.lotMatching || 'FIFO',
+      completedPositions: analyses.flatMap(a => a.completedPositions).sort(byEntryTime),
+      openPositions: analyses.flatMap(a => a.openPositions).sort(byEntryTime),
+      unattributedFunding: analyses.flatMap(a => a.unattributedFunding),
+      unattributedInterest: analyses.flatMap(a => a.unattributedInterest),
+      summary: {
+        totalPositions: summaries.reduce((total, s) => total + s.totalPositions, 0),
+        totalPnl: sum(summaries.map(s => s.totalPnl)),
+        totalFees: sum(summaries.map(s => s.totalFees)),
+        openPositions: summaries.reduce((total, s) => total + s.openPositions, 0),
+        unrealizedPnl: sum(summaries.map(s => s.unrealizedPnl)),
+        totalFunding: sum(summaries.map(s => s.totalFunding)),
+        unattributedFunding: sum(summaries.map(s => s.unattributedFunding)),
+        totalInterest: sum(summaries.map(s => s.totalInterest)),
+        unattributedInterest: sum(summaries.map(s => s.unattributedInterest)),
+        net: sumBreakdowns(summaries.map(s => s.net)),
+        symbolBreakdown
+      }
+    };
+
+    const data: TradingData = {
+      fills: accounts.flatMap(a => a.data.fills),
+      orders: accounts.flatMap(a => a.data.orders),
+      fundingPayments: accounts.flatMap(a => a.data.fundingPayments),
+      settlements: accounts.flatMap(a => a.data.settlements),
+      fundingHistory: accounts.flatMap(a => a.data.fundingHistory),
+      balances: sumBalances(accounts.map(a => a.data.balances)),
+      deposits: accounts.flatMap(a => a.data.deposits),
+      withdrawals: accounts.flatMap(a => a.data.withdrawals),
+      positions: accounts.flatMap(a => a.data.positions),
+      account: {}, // Settings are per account; see each AccountAnalysis
+      interestHistory: accounts.flatMap(a => a.data.interestHistory)
+    };
+
+    return { data, analysis };
+  }
+
+  private static tag(account: string, data: TradingData): TradingData {
+    const tag = <T>(records: T[]): AccountTagged<T>[] => records.map(record => ({ ...record, account }));
+
+    return {
+      ...data,
+      fills: tag(data.fills),
+      orders: tag(data.orders),
+      fundingPayments: tag(data.fundingPayments),
+      settlements: tag(data.settlements),
+      fundingHistory: tag(data.fundingHistory),
+      deposits: tag(data.deposits),
+      withdrawals: tag(data.withdrawals),
+      positions: tag(data.positions),
+      interestHistory: tag(data.interestHistory)
+    };
+  }
+}
+
+function sum(values: number[]): number {
+  return Decimal.sum(values).toNumber();
+}
+
+function sumBreakdowns(breakdowns: PnlBreakdown[]): PnlBreakdown {
+  return {
+    grossPnl: sum(breakdowns.map(b => b.grossPnl)),
+    tradingFees: sum(breakdowns.map(b => b.tradingFees)),
+    funding: sum(breakdowns.map(b => b.funding)),
+    interest: sum(breakdowns.map(b => b.interest)),
+    netPnl: sum(breakdowns.map(b => b.netPnl))
+  };
+}
+
+function sumBalances(balances: BackpackBalance[]): BackpackBalance {
+  const combined: BackpackBalance = {};
+  for (const balance of balances) {
+    for (const [symbol, amounts] of Object.entries(balance)) {
+      const existing = combined[symbol] || { available: '0', locked: '0', staked: '0' };
+      combined[symbol] = {
+        available: Decimal.from(existing.available).add(amounts.available || '0').toString(),
+        locked: Decimal.from(existing.locked).add(amounts.locked || '0').toString(),
+        staked: Decimal.from(existing.staked).add(amounts.staked || '0').toString()
+      };
+    }
+  }
+  return combined;
+}
+
+export function formatAccountSummaryForCLI(accounts: AccountAnalysis[], combined: PositionAnalysis): string {
+  const formatAmount = (amount: number, width: number): string => {
+    const color = amount >= 0 ? '32' : '31';
+    const sign = amount >= 0 ? '+' : '';
+    const text = `${sign}$${amount.toFixed(2)}`;
+    return `\x1b[${color}m${text}\x1b[0m${' '.repeat(Math.max(0, width - text.length))}`;
+  };
+
+  const nameWidth = Math.max(9, ...accounts.map(a => a.account.length));
+  const header = `${'Account'.padEnd(nameWidth)} | Closed | Open | Gross PnL    | Fees       | Funding    | Interest   | Net PnL`;
+  const row = (name: string, analysis: PositionAnalysis): string => {
+    const { summary } = analysis;
+    return [
+      name.padEnd(nameWidth),
+      summary.totalPositions.toString().padStart(6),
+      summary.openPositions.toString().padStart(4),
+      formatAmount(summary.net.grossPnl, 12),
+      formatAmount(-summary.net.tradingFees, 10),
+      formatAmount(summary.net.funding, 10),
+      formatAmount(summary.net.interest, 10),
+      formatAmount(summary.net.netPnl, 0)
+    ].join(' | ');
+  };
+
+  const separator = '-'.repeat(header.length);
+  return [
+    header,
+    separator,
+    ...accounts.map(account => row(account.account, account.analysis)),
+    separator,
+    row('Firm-wide', combined)
+  ].join('\n');
+}
+
+interface DetailedAccountSummary {
+  completed_positions: number;
+  open_positions: number;
+  gross_pnl: number;
+  trading_fees: number;
+  funding: number;
+  interest: number;
+  net_pnl: number;
+  unrealized_pnl: number;
+  by_symbol: { [symbol: string]: { positions: number; gross_pnl: number; net_pnl: number } };
+}
+
+function mapAccountSummary(analysis: PositionAnalysis): DetailedAccountSummary {
+  const { summary } = analysis;
+  const by_symbol: DetailedAccountSummary['by_symbol'] = {};
+  for (const [symbol, data] of Object.entries(summary.symbolBreakdown)) {
+    by_symbol[symbol] = { positions: data.positions, gross_pnl: data.net.grossPnl, net_pnl: data.net.netPnl };
+  }
+
+  return {
+    completed_positions: summary.totalPositions,
+    open_positions: summary.openPositions,
+    gross_pnl: summary.net.grossPnl,
+    trading_fees: summary.net.tradingFees,
+    funding: summary.net.funding,
+    interest: summary.net.interest,
+    net_pnl: summary.net.netPnl,
+    unrealized_pnl: summary.unrealizedPnl,
+    by_symbol
+  };
+}
+
+export function formatAccountSummaryAsJSON(accounts: AccountAnalysis[], combined: PositionAnalysis): {
+  accounts: { [account: string]: DetailedAccountSummary };
+  firm_wide: DetailedAccountSummary;
+} {
+  const byAccount: { [account: string]: DetailedAccountSummary } = {};
+  for (const account of accounts) {
+    byAccount[account.account] = mapAccountSummary(account.analysis);
+  }
+
+  return {
+    accounts: byAccount,
+    firm_wide: mapAccountSummary(combined)
+  };
+}
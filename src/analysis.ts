@@ -1,7 +1,13 @@
-import { BackpackFill, BackpackOrder } from './types';
+import { BackpackFill, BackpackOrder, BackpackSettlement, BackpackFundingPayment, BackpackFundingHistory, BackpackInterestHistory } from './types';
+import { LotMatcher, LotMatchingMethod, MatchedLot, OpenLot } from './lots';
+import { Decimal } from './decimal';
+import { FundingEvent, FundingRecord, normalizeFunding } from './funding';
+import { InterestEvent, InterestRecord, normalizeUnrealizedPnlInterest } from './interest';
+import { toCSV } from './csv';
 
 export interface CompletedPosition {
   id: number;
+  account?: string; // Set when several accounts are analysed together
   symbol: string;
   side: 'Long' | 'Short';
   size: number;
@@ -17,34 +23,146 @@ export interface CompletedPosition {
   leverage: string; // "N/A" for historical positions
   collateral: string; // "N/A" for historical positions
   fills: BackpackFill[];
+  lots: MatchedLot[];
+  fundingPaid: number; // Positive amount paid while the position was open
+  fundingReceived: number;
+  netFunding: number; // received - paid
+  funding: FundingEvent[];
+  netInterest: number; // UnrealizedPnl interest, positive = received
+  interest: InterestEvent[];
+  netPnl: number; // realizedPnl - totalFees + netFunding + netInterest
+  exact: ExactAmounts;
+}
+
+export interface OpenPosition {
+  id: number;
+  account?: string;
+  symbol: string;
+  side: 'Long' | 'Short';
+  size: number;
+  notionalValue: number;
+  averageEntryPrice: number;
+  entryTime: Date;
+  duration: string;
+  realizedPnl: number; // From partial closes so far
+  markPrice: number | null; // null when no price source is available
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  totalFees: number;
+  fills: BackpackFill[];
+  lots: MatchedLot[]; // Closed so far
+  openLots: OpenLot[];
+  fundingPaid: number;
+  fundingReceived: number;
+  netFunding: number;
+  funding: FundingEvent[];
+  netInterest: number;
+  interest: InterestEvent[];
+  netPnl: number; // On the realized part only
+  exact: ExactAmounts;
+}
+
+/**
+ * The figures a position's numeric fields are rounded from, for exports that
+ * must match the fills to the last digit.
+ */
+export interface ExactAmounts {
+  size: Decimal;
+  notionalValue: Decimal;
+  entryPrice: Decimal; // Average entry price for open positions
+  exitPrice: Decimal | null; // null while the position is open
+  realizedPnl: Decimal;
+  unrealizedPnl: Decimal | null;
+  totalFees: Decimal;
+  netFunding: Decimal;
+  netInterest: Decimal;
+  netPnl: Decimal;
+}
+
+export interface ReconstructionOptions {
+  lotMatching?: LotMatchingMethod; // Defaults to FIFO
+  settlements?: BackpackSettlement[]; // Latest markPrice per symbol is used as mark
+  markPrices?: { [symbol: string]: number }; // Takes precedence over settlements
+  now?: Date; // Reference time for open position durations
+  fundingPayments?: BackpackFundingPayment[]; // Attributed to the position open at each interval
+  fundingHistory?: BackpackFundingHistory[];
+  interestHistory?: BackpackInterestHistory[]; // UnrealizedPnl interest is attributed like funding
 }
 
 interface SymbolPosition {
   symbol: string;
-  netQuantity: number;
+  netQuantity: Decimal;
   openFills: BackpackFill[];
   completedPositions: CompletedPosition[];
+  realizedPnl: Decimal; // Exact running totals for the summary
+  totalFees: Decimal;
+}
+
+export interface PnlBreakdown {
+  grossPnl: number; // Price PnL before costs (Backpack UI figure)
+  tradingFees: number;
+  funding: number; // Net, positive = received
+  interest: number; // UnrealizedPnl interest, positive = received
+  netPnl: number; // grossPnl - tradingFees + funding + interest
+}
+
+export interface SymbolSummary {
+  positions: number;
+  pnl: number; // Gross realized PnL of completed positions
+  net: PnlBreakdown; // Includes open positions' realized part and unattributed funding/interest
+}
+
+// Exact per-symbol figures behind a PnlBreakdown
+interface NetTotals {
+  grossPnl: Decimal;
+  tradingFees: Decimal;
+  funding: Decimal;
+  interest: Decimal;
+}
+
+interface Attribution<T> {
+  unattributed: T[];
+  attributedTotal: Decimal;
+  unattributedTotal: Decimal;
+}
+
+// A position together with the exact figures its numeric fields were rounded from
+interface ExactResult<T> {
+  position: T;
+  realizedPnl: Decimal;
+  totalFees: Decimal;
 }
 
 export interface PositionAnalysis {
+  lotMatching: LotMatchingMethod;
   completedPositions: CompletedPosition[];
+  openPositions: OpenPosition[];
+  unattributedFunding: FundingEvent[]; // Funding with no reconstructed position open at that time
+  unattributedInterest: InterestEvent[];
   summary: {
     totalPositions: number;
     totalPnl: number;
     totalFees: number;
-    symbolBreakdown: { [symbol: string]: { positions: number; pnl: number } };
+    openPositions: number;
+    unrealizedPnl: number;
+    totalFunding: number; // Net funding attributed to positions
+    unattributedFunding: number;
+    totalInterest: number; // Net UnrealizedPnl interest attributed to positions
+    unattributedInterest: number;
+    net: PnlBreakdown; // Sum of the per-symbol breakdowns
+    symbolBreakdown: { [symbol: string]: SymbolSummary };
   };
 }
 
 export class PositionReconstructor {
-  private static readonly EPSILON = 0.0000001;
-
-  static reconstructPositions(fills: BackpackFill[]): PositionAnalysis {
+  static reconstructPositions(fills: BackpackFill[], options: ReconstructionOptions = {}): PositionAnalysis {
     // Sort fills by timestamp (ascending - chronological order)
     const sortedFills = [...fills].sort((a, b) => 
       new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
     );
 
+    const lotMatching = options.lotMatching || 'FIFO';
+
     // Track position per symbol
     const symbolPositions = new Map<string, SymbolPosition>();
     let positionIdCounter = 1;
@@ -56,76 +174,170 @@ export class PositionReconstructor {
       if (!symbolPositions.has(symbol)) {
         symbolPositions.set(symbol, {
           symbol,
-          netQuantity: 0,
+          netQuantity: Decimal.ZERO,
           openFills: [],
-          completedPositions: []
+          completedPositions: [],
+          realizedPnl: Decimal.ZERO,
+          totalFees: Decimal.ZERO
         });
       }
 
       const position = symbolPositions.get(symbol)!;
 
-      // Add fill to current position
-      position.openFills.push(fill);
+      // Buy increases position, sell decreases it
+      const quantity = Decimal.from(fill.quantity);
+      const signedQuantity = fill.side === 'Bid' ? quantity : quantity.neg();
+      const resultingQuantity = position.netQuantity.add(signedQuantity);
 
-      // Update net quantity for this symbol
-      const quantity = parseFloat(fill.quantity);
-      if (fill.side === 'Bid') {
-        position.netQuantity += quantity; // Buy increases position
-      } else if (fill.side === 'Ask') {
-        position.netQuantity -= quantity; // Sell decreases position
+      // A single fill that takes the position through zero (e.g. +0.5 -> -0.3)
+      // closes the current position and opens a new one in the other direction
+      const isFlip = !position.netQuantity.isZero() &&
+        !resultingQuantity.isZero() &&
+        resultingQuantity.sign() !== position.netQuantity.sign();
+
+      if (isFlip) {
+        const [closingFill, openingFill] = this.splitFill(fill, position.netQuantity.abs());
+
+        position.openFills.push(closingFill);
+        this.closePosition(position, positionIdCounter++, lotMatching);
+
+        // Remainder of the fill opens the position on the other side
+        position.openFills = [openingFill];
+        position.netQuantity = resultingQuantity;
+        continue;
       }
 
-      // Check if position is closed (back to zero with floating point tolerance)
-      if (Math.abs(position.netQuantity) < this.EPSILON) {
-        // Position complete for this symbol!
-        const completedPosition = this.createCompletedPosition(
-          positionIdCounter++,
-          position.openFills
-        );
-        
-        if (completedPosition) {
-          position.completedPositions.push(completedPosition);
-        }
+      // Add fill to current position
+      position.openFills.push(fill);
+      position.netQuantity = resultingQuantity;
+
+      // Position is closed when the net quantity is exactly back to zero
+      if (position.netQuantity.isZero()) {
+        this.closePosition(position, positionIdCounter++, lotMatching);
 
         // Reset for next position
         position.openFills = [];
-        position.netQuantity = 0;
       }
     }
 
     // Collect all completed positions from all symbols
     const allPositions: CompletedPosition[] = [];
-    const symbolBreakdown: { [symbol: string]: { positions: number; pnl: number } } = {};
+    const openPositions: OpenPosition[] = [];
+    const symbolBreakdown: { [symbol: string]: SymbolSummary } = {};
+    const symbolTotals = new Map<string, NetTotals>();
+    const markPrices = this.resolveMarkPrices(options);
+    const now = options.now || new Date();
+    let totalPnl = Decimal.ZERO;
+    let totalFees = Decimal.ZERO;
+    let unrealizedPnl = Decimal.ZERO;
 
     for (const [symbol, pos] of symbolPositions) {
       allPositions.push(...pos.completedPositions);
-      
-      symbolBreakdown[symbol] = {
-        positions: pos.completedPositions.length,
-        pnl: pos.completedPositions.reduce((sum, p) => sum + p.realizedPnl, 0)
-      };
+      totalPnl = totalPnl.add(pos.realizedPnl);
+      totalFees = totalFees.add(pos.totalFees);
+      const totals = this.getNetTotals(symbolTotals, symbol);
+      totals.grossPnl = totals.grossPnl.add(pos.realizedPnl);
+      totals.tradingFees = totals.tradingFees.add(pos.totalFees);
+
+      // Fills left over at the end belong to a position that is still open
+      if (pos.openFills.length > 0 && !pos.netQuantity.isZero()) {
+        const open = this.createOpenPosition(
+          positionIdCounter++,
+          pos.openFills,
+          pos.netQuantity,
+          lotMatching,
+          markPrices[symbol],
+          now
+        );
+        openPositions.push(open.position);
+        unrealizedPnl = unrealizedPnl.add(open.unrealizedPnl || Decimal.ZERO);
+        totals.grossPnl = totals.grossPnl.add(open.realizedPnl);
+        totals.tradingFees = totals.tradingFees.add(open.totalFees);
+      }
     }
 
     // Sort by entry time
     allPositions.sort((a, b) => a.entryTime.getTime() - b.entryTime.getTime());
 
+    openPositions.sort((a, b) => a.entryTime.getTime() - b.entryTime.getTime());
+
+    const positions = [...allPositions, ...openPositions];
+    const funding = this.attributeFunding(
+      normalizeFunding(options.fundingPayments, options.fundingHistory),
+      positions,
+      symbolTotals
+    );
+    const interest = this.attributeInterest(
+      normalizeUnrealizedPnlInterest(options.interestHistory),
+      positions,
+      symbolTotals
+    );
+
+    for (const position of positions) {
+      const { exact } = position;
+      exact.netPnl = exact.realizedPnl.sub(exact.totalFees).add(exact.netFunding).add(exact.netInterest);
+      position.netPnl = exact.netPnl.toNumber();
+    }
+
+    let overall = this.emptyNetTotals();
+    for (const [symbol, totals] of symbolTotals) {
+      const symbolPosition = symbolPositions.get(symbol);
+      symbolBreakdown[symbol] = {
+        positions: symbolPosition ? symbolPosition.completedPositions.length : 0,
+        pnl: symbolPosition ? symbolPosition.realizedPnl.toNumber() : 0,
+        net: this.toPnlBreakdown(totals)
+      };
+      overall = {
+        grossPnl: overall.grossPnl.add(totals.grossPnl),
+        tradingFees: overall.tradingFees.add(totals.tradingFees),
+        funding: overall.funding.add(totals.funding),
+        interest: overall.interest.add(totals.interest)
+      };
+    }
+
     const summary = {
       totalPositions: allPositions.length,
-      totalPnl: allPositions.reduce((sum, pos) => sum + pos.realizedPnl, 0),
-      totalFees: allPositions.reduce((sum, pos) => sum + pos.totalFees, 0),
+      totalPnl: totalPnl.toNumber(),
+      totalFees: totalFees.toNumber(),
+      openPositions: openPositions.length,
+      unrealizedPnl: unrealizedPnl.toNumber(),
+      totalFunding: funding.attributedTotal.toNumber(),
+      unattributedFunding: funding.unattributedTotal.toNumber(),
+      totalInterest: interest.attributedTotal.toNumber(),
+      unattributedInterest: interest.unattributedTotal.toNumber(),
+      net: this.toPnlBreakdown(overall),
       symbolBreakdown
     };
 
     return {
+      lotMatching,
       completedPositions: allPositions,
+      openPositions,
+      unattributedFunding: funding.unattributed,
+      unattributedInterest: interest.unattributed,
       summary
     };
   }
 
+  private static closePosition(
+    position: SymbolPosition,
+    id: number,
+    lotMatching: LotMatchingMethod
+  ): void {
+    const completed = this.createCompletedPosition(id, position.openFills, lotMatching);
+
+    if (completed) {
+      position.completedPositions.push(completed.position);
+      position.realizedPnl = position.realizedPnl.add(completed.realizedPnl);
+      position.totalFees = position.totalFees.add(completed.totalFees);
+    }
+  }
+
   private static createCompletedPosition(
     id: number, 
-    fills: BackpackFill[]
-  ): CompletedPosition | null {
+    fills: BackpackFill[],
+    lotMatching: LotMatchingMethod
+  ): ExactResult<CompletedPosition> | null {
     if (fills.length === 0) return null;
 
     const symbol = fills[0].symbol;
@@ -136,27 +348,26 @@ export class PositionReconstructor {
     const isLongPosition = firstFill.side === 'Bid';
     const side: 'Long' | 'Short' = isLongPosition ? 'Long' : 'Short';
     
-    // Calculate the actual PnL using FIFO matching
-    let totalBuyValue = 0;
-    let totalSellValue = 0;
-    let totalBuyQuantity = 0;
-    let totalSellQuantity = 0;
-    let totalFees = 0;
+    // Weighted averages give the Backpack UI entry/exit prices
+    let totalBuyValue = Decimal.ZERO;
+    let totalSellValue = Decimal.ZERO;
+    let totalBuyQuantity = Decimal.ZERO;
+    let totalSellQuantity = Decimal.ZERO;
+    let totalFees = Decimal.ZERO;
     let entryTime: Date | null = null;
     let exitTime: Date | null = null;
     
     for (const fill of fills) {
-      const price = parseFloat(fill.price);
-      const quantity = parseFloat(fill.quantity);
-      const fee = parseFloat(fill.fee);
+      const price = Decimal.from(fill.price);
+      const quantity = Decimal.from(fill.quantity);
       const timestamp = new Date(fill.timestamp);
       
-      totalFees += fee;
+      totalFees = totalFees.add(fill.fee);
       
       if (fill.side === 'Bid') {
         // Buy
-        totalBuyValue += price * quantity;
-        totalBuyQuantity += quantity;
+        totalBuyValue = totalBuyValue.add(price.mul(quantity));
+        totalBuyQuantity = totalBuyQuantity.add(quantity);
         if (!entryTime || (isLongPosition && (!entryTime || timestamp < entryTime))) {
           entryTime = timestamp;
         }
@@ -165,8 +376,8 @@ export class PositionReconstructor {
         }
       } else {
         // Sell  
-        totalSellValue += price * quantity;
-        totalSellQuantity += quantity;
+        totalSellValue = totalSellValue.add(price.mul(quantity));
+        totalSellQuantity = totalSellQuantity.add(quantity);
         if (!entryTime || (!isLongPosition && (!entryTime || timestamp < entryTime))) {
           entryTime = timestamp;
         }
@@ -177,36 +388,27 @@ export class PositionReconstructor {
     }
     
     // Calculate average prices
-    const avgBuyPrice = totalBuyQuantity > 0 ? totalBuyValue / totalBuyQuantity : 0;
-    const avgSellPrice = totalSellQuantity > 0 ? totalSellValue / totalSellQuantity : 0;
+    const avgBuyPrice = totalBuyQuantity.isZero() ? Decimal.ZERO : totalBuyValue.div(totalBuyQuantity);
+    const avgSellPrice = totalSellQuantity.isZero() ? Decimal.ZERO : totalSellValue.div(totalSellQuantity);
     
     // Position size is the quantity traded
-    const size = Math.min(totalBuyQuantity, totalSellQuantity);
+    const size = Decimal.min(totalBuyQuantity, totalSellQuantity);
     
     // Determine entry and exit prices based on position type
-    let entryPrice: number;
-    let exitPrice: number;
-    let notionalValue: number;
-    let realizedPnl: number;
-    
-    if (isLongPosition) {
-      // Long position: bought first, sold later
-      entryPrice = avgBuyPrice;
-      exitPrice = avgSellPrice;
-      notionalValue = size * entryPrice;
-      realizedPnl = (exitPrice - entryPrice) * size;
-    } else {
-      // Short position: sold first, bought later
-      entryPrice = avgSellPrice;
-      exitPrice = avgBuyPrice;
-      notionalValue = size * entryPrice;
-      realizedPnl = (entryPrice - exitPrice) * size;
-    }
+    const entryPrice = isLongPosition ? avgBuyPrice : avgSellPrice;
+    const exitPrice = isLongPosition ? avgSellPrice : avgBuyPrice;
+    const notionalValue = (isLongPosition ? totalBuyValue : totalSellValue);
+
+    // Realized PnL is the sum of matched lots. For a full round trip this equals
+    // total sell value minus total buy value exactly, whichever matching method is used
+    const { matchedLots, realizedPnl } = LotMatcher.matchLots(fills, side, lotMatching);
     
     // Note: Fees are tracked separately, not subtracted from PnL (matches Backpack)
     
     // Calculate percentage
-    const realizedPnlPercent = notionalValue > 0 ? (realizedPnl / notionalValue) * 100 : 0;
+    const realizedPnlPercent = notionalValue.sign() > 0 ?
+      realizedPnl.mul(100).div(notionalValue).toNumber() :
+      0;
     
     // Calculate duration
     const duration = entryTime && exitTime ? 
@@ -214,42 +416,286 @@ export class PositionReconstructor {
       'Unknown';
 
     return {
-      id,
-      symbol,
-      side,
-      size,
-      notionalValue,
-      entryPrice,
-      exitPrice,
-      entryTime: entryTime || new Date(),
-      exitTime: exitTime || new Date(),
-      duration,
+      position: {
+        id,
+        symbol,
+        side,
+        size: size.toNumber(),
+        notionalValue: notionalValue.toNumber(),
+        entryPrice: entryPrice.toNumber(),
+        exitPrice: exitPrice.toNumber(),
+        entryTime: entryTime || new Date(),
+        exitTime: exitTime || new Date(),
+        duration,
+        realizedPnl: realizedPnl.toNumber(),
+        realizedPnlPercent,
+        totalFees: totalFees.toNumber(),
+        leverage: 'N/A', // No historical leverage data available from API
+        collateral: 'N/A', // No historical collateral data available from API
+        fills,
+        lots: matchedLots,
+        fundingPaid: 0,
+        fundingReceived: 0,
+        netFunding: 0,
+        funding: [],
+        netInterest: 0,
+        interest: [],
+        netPnl: 0,
+        exact: {
+          size, notionalValue, entryPrice, exitPrice, realizedPnl, unrealizedPnl: null, totalFees,
+          netFunding: Decimal.ZERO, netInterest: Decimal.ZERO, netPnl: Decimal.ZERO
+        }
+      },
+      realizedPnl,
+      totalFees
+    };
+  }
+
+  private static createOpenPosition(
+    id: number,
+    fills: BackpackFill[],
+    netQuantity: Decimal,
+    lotMatching: LotMatchingMethod,
+    markPrice: number | undefined,
+    now: Date
+  ): ExactResult<OpenPosition> & { unrealizedPnl: Decimal | null } {
+    const isLongPosition = netQuantity.sign() > 0;
+    const side: 'Long' | 'Short' = isLongPosition ? 'Long' : 'Short';
+    const direction = isLongPosition ? 1 : -1;
+    const totalFees = Decimal.sum(fills.map(fill => fill.fee));
+
+    // Partial closes are realized lot by lot; the remaining lots set the entry
+    const { matchedLots, openLots, realizedPnl, averageOpenPrice } =
+      LotMatcher.matchLots(fills, side, lotMatching);
+    const size = netQuantity.abs();
+    const notionalValue = size.mul(averageOpenPrice);
+
+    let unrealizedPnl: Decimal | null = null;
+    let unrealizedPnlPercent: number | null = null;
+    if (markPrice !== undefined) {
+      unrealizedPnl = Decimal.from(markPrice).sub(averageOpenPrice).mul(size).mul(direction);
+      unrealizedPnlPercent = notionalValue.sign() > 0 ?
+        unrealizedPnl.mul(100).div(notionalValue).toNumber() :
+        0;
+    }
+
+    const entryTime = new Date(fills[0].timestamp);
+
+    return {
+      position: {
+        id,
+        symbol: fills[0].symbol,
+        side,
+        size: size.toNumber(),
+        notionalValue: notionalValue.toNumber(),
+        averageEntryPrice: averageOpenPrice.toNumber(),
+        entryTime,
+        duration: this.formatDuration(Math.max(0, now.getTime() - entryTime.getTime())),
+        realizedPnl: realizedPnl.toNumber(),
+        markPrice: markPrice !== undefined ? markPrice : null,
+        unrealizedPnl: unrealizedPnl ? unrealizedPnl.toNumber() : null,
+        unrealizedPnlPercent,
+        totalFees: totalFees.toNumber(),
+        fills,
+        lots: matchedLots,
+        openLots,
+        fundingPaid: 0,
+        fundingReceived: 0,
+        netFunding: 0,
+        funding: [],
+        netInterest: 0,
+        interest: [],
+        netPnl: 0,
+        exact: {
+          size, notionalValue, entryPrice: averageOpenPrice, exitPrice: null, realizedPnl, unrealizedPnl, totalFees,
+          netFunding: Decimal.ZERO, netInterest: Decimal.ZERO, netPnl: Decimal.ZERO
+        }
+      },
       realizedPnl,
-      realizedPnlPercent,
       totalFees,
-      leverage: 'N/A', // No historical leverage data available from API
-      collateral: 'N/A', // No historical collateral data available from API
-      fills
+      unrealizedPnl
     };
   }
 
-  private static calculateWeightedAveragePrice(fills: BackpackFill[]): number {
-    if (fills.length === 0) return 0;
+  /**
+   * Attach each funding record to the position open on its symbol at that
+   * time (entry <= t <= exit, open positions have no exit).
+   */
+  private static attributeFunding(
+    records: FundingRecord[],
+    positions: Array<CompletedPosition | OpenPosition>,
+    symbolTotals: Map<string, NetTotals>
+  ): Attribution<FundingEvent> {
+    const { matches, unattributed } = this.attributeByTime(records, positions);
 
-    let totalValue = 0;
-    let totalQuantity = 0;
+    for (const record of records) {
+      const totals = this.getNetTotals(symbolTotals, record.event.symbol);
+      totals.funding = totals.funding.add(record.amount);
+    }
 
-    for (const fill of fills) {
-      const price = parseFloat(fill.price);
-      const quantity = parseFloat(fill.quantity);
-      totalValue += price * quantity;
-      totalQuantity += quantity;
+    for (const position of positions) {
+      const matched = matches.get(position) || [];
+      const paid = Decimal.sum(matched.filter(r => r.amount.isNegative()).map(r => r.amount.neg()));
+      const received = Decimal.sum(matched.filter(r => !r.amount.isNegative()).map(r => r.amount));
+      position.funding = matched.map(r => r.event);
+      position.fundingPaid = paid.toNumber();
+      position.fundingReceived = received.toNumber();
+      position.exact.netFunding = received.sub(paid);
+      position.netFunding = position.exact.netFunding.toNumber();
     }
 
-    return totalQuantity > 0 ? totalValue / totalQuantity : 0;
+    const unattributedTotal = Decimal.sum(unattributed.map(r => r.amount));
+
+    return {
+      unattributed: unattributed.map(r => r.event),
+      attributedTotal: Decimal.sum(records.map(r => r.amount)).sub(unattributedTotal),
+      unattributedTotal
+    };
   }
 
-  private static formatDuration(milliseconds: number): string {
+  /**
+   * UnrealizedPnl interest is attributed the same way as funding, using the
+   * market symbol it was charged on.
+   */
+  private static attributeInterest(
+    records: InterestRecord[],
+    positions: Array<CompletedPosition | OpenPosition>,
+    symbolTotals: Map<string, NetTotals>
+  ): Attribution<InterestEvent> {
+    const { matches, unattributed } = this.attributeByTime(records, positions);
+
+    for (const record of records) {
+      const totals = this.getNetTotals(symbolTotals, record.event.symbol);
+      totals.interest = totals.interest.add(record.amount);
+    }
+
+    for (const position of positions) {
+      const matched = matches.get(position) || [];
+      position.interest = matched.map(r => r.event);
+      position.exact.netInterest = Decimal.sum(matched.map(r => r.amount));
+      position.netInterest = position.exact.netInterest.toNumber();
+    }
+
+    const unattributedTotal = Decimal.sum(unattributed.map(r => r.amount));
+
+    return {
+      unattributed: unattributed.map(r => r.event),
+      attributedTotal: Decimal.sum(records.map(r => r.amount)).sub(unattributedTotal),
+      unattributedTotal
+    };
+  }
+
+  private static attributeByTime<T extends { event: { symbol: string; timestamp: Date } }>(
+    records: T[],
+    positions: Array<CompletedPosition | OpenPosition>
+  ): { matches: Map<CompletedPosition | OpenPosition, T[]>; unattributed: T[] } {
+    const bySymbol = new Map<string, Array<CompletedPosition | OpenPosition>>();
+    for (const position of positions) {
+      if (!bySymbol.has(position.symbol)) {
+        bySymbol.set(position.symbol, []);
+      }
+      bySymbol.get(position.symbol)!.push(position);
+    }
+
+    const matches = new Map<CompletedPosition | OpenPosition, T[]>();
+    const unattributed: T[] = [];
+
+    for (const record of records) {
+      const time = record.event.timestamp.getTime();
+      const position = (bySymbol.get(record.event.symbol) || []).find(p =>
+        p.entryTime.getTime() <= time &&
+        (!('exitTime' in p) || time <= p.exitTime.getTime())
+      );
+
+      if (!position) {
+        unattributed.push(record);
+        continue;
+      }
+
+      if (!matches.has(position)) {
+        matches.set(position, []);
+      }
+      matches.get(position)!.push(record);
+    }
+
+    return { matches, unattributed };
+  }
+
+  private static emptyNetTotals(): NetTotals {
+    return {
+      grossPnl: Decimal.ZERO,
+      tradingFees: Decimal.ZERO,
+      funding: Decimal.ZERO,
+      interest: Decimal.ZERO
+    };
+  }
+
+  private static getNetTotals(symbolTotals: Map<string, NetTotals>, symbol: string): NetTotals {
+    if (!symbolTotals.has(symbol)) {
+      symbolTotals.set(symbol, this.emptyNetTotals());
+    }
+    return symbolTotals.get(symbol)!;
+  }
+
+  private static toPnlBreakdown(totals: NetTotals): PnlBreakdown {
+    return {
+      grossPnl: totals.grossPnl.toNumber(),
+      tradingFees: totals.tradingFees.toNumber(),
+      funding: totals.funding.toNumber(),
+      interest: totals.interest.toNumber(),
+      netPnl: totals.grossPnl
+        .sub(totals.tradingFees)
+        .add(totals.funding)
+        .add(totals.interest)
+        .toNumber()
+    };
+  }
+
+  private static resolveMarkPrices(options: ReconstructionOptions): { [symbol: string]: number } {
+    const markPrices: { [symbol: string]: number } = {};
+
+    // Latest settlement per symbol carries the most recent mark price
+    const latestSettlements = new Map<string, BackpackSettlement>();
+    for (const settlement of options.settlements || []) {
+      const latest = latestSettlements.get(settlement.symbol);
+      if (!latest || settlement.timestamp > latest.timestamp) {
+        latestSettlements.set(settlement.symbol, settlement);
+      }
+    }
+    for (const [symbol, settlement] of latestSettlements) {
+      const markPrice = parseFloat(settlement.markPrice);
+      if (!isNaN(markPrice)) {
+        markPrices[symbol] = markPrice;
+      }
+    }
+
+    return { ...markPrices, ...options.markPrices };
+  }
+
+  /**
+   * Split a fill into a closing portion of `closingQuantity` and an opening
+   * portion with the remainder. Fees are split in proportion to quantity.
+   */
+  private static splitFill(fill: BackpackFill, closingQuantity: Decimal): [BackpackFill, BackpackFill] {
+    const quantity = Decimal.from(fill.quantity);
+    const fee = Decimal.from(fill.fee);
+    const closingFee = fee.mul(closingQuantity).div(quantity);
+
+    return [
+      {
+        ...fill,
+        quantity: closingQuantity.toString(),
+        fee: closingFee.toString()
+      },
+      {
+        ...fill,
+        quantity: quantity.sub(closingQuantity).toString(),
+        fee: fee.sub(closingFee).toString()
+      }
+    ];
+  }
+
+  static formatDuration(milliseconds: number): string {
     const seconds = Math.floor(milliseconds / 1000);
     const minutes = Math.floor(seconds / 60);
     const hours = Math.floor(minutes / 60);
@@ -271,9 +717,12 @@ export class PositionReconstructor {
 export function formatPositionForCLI(position: CompletedPosition): string {
   const pnlColor = position.realizedPnl >= 0 ? '32' : '31'; // Green for profit, red for loss
   const pnlSign = position.realizedPnl >= 0 ? '+' : '';
+  const netPnlColor = position.netPnl >= 0 ? '32' : '31';
+  const netPnlSign = position.netPnl >= 0 ? '+' : '';
   
   return `
-Position #${position.id} - ${position.symbol}
+Position #${position.id} - ${position.symbol}${position.account ? `
+├─ Account: ${position.account}` : ''}
 ├─ Side: ${position.side}
 ├─ Size: ${position.size.toFixed(8)} ${position.symbol.split('_')[0]} ($${position.notionalValue.toFixed(2)})
 ├─ Entry: $${position.entryPrice.toFixed(2)} (${position.entryTime.toLocaleString()})
@@ -282,18 +731,29 @@ Position #${position.id} - ${position.symbol}
 ├─ Realized PnL: \x1b[${pnlColor}m${pnlSign}$${position.realizedPnl.toFixed(2)} (${pnlSign}${position.realizedPnlPercent.toFixed(2)}%)\x1b[0m
 ├─ Leverage: ${position.leverage}
 ├─ Collateral: ${position.collateral}
-└─ Total Fees: $${position.totalFees.toFixed(5)}
+├─ Total Fees: $${position.totalFees.toFixed(5)}
+├─ Funding: ${position.netFunding >= 0 ? '+' : ''}$${position.netFunding.toFixed(5)} (paid $${position.fundingPaid.toFixed(5)}, received $${position.fundingReceived.toFixed(5)}, ${position.funding.length} payments)
+├─ Interest: ${position.netInterest >= 0 ? '+' : ''}$${position.netInterest.toFixed(5)} (${position.interest.length} payments)
+└─ Net PnL: \x1b[${netPnlColor}m${netPnlSign}$${position.netPnl.toFixed(2)}\x1b[0m (after fees, funding and interest)
 
 Executions (${position.fills.length} fills):
 ${position.fills.map((fill, i) => 
   `  ${i + 1}. ${fill.side === 'Bid' ? 'Buy' : 'Sell'} ${fill.quantity} at $${fill.price} (fee: $${fill.fee})`
+).join('\n')}
+
+Matched Lots (${position.lots.length}):
+${position.lots.map((lot, i) => 
+  `  ${i + 1}. ${lot.quantity} opened at $${lot.openPrice} (trade ${lot.openFill.tradeId}), closed at $${lot.closePrice} (trade ${lot.closeFill.tradeId}): ${lot.realizedPnl >= 0 ? '+' : ''}$${lot.realizedPnl.toFixed(2)}`
 ).join('\n')}`;
 }
 
 export function formatPositionsAsTable(positions: CompletedPosition[]): string {
   if (positions.length === 0) return 'No positions to display.';
   
-  const header = 'Trade ID | Symbol        | Size      | Open      | Duration     | Close     | Realized PnL | Leverage | Collateral | Fees';
+  // Account column only when positions from several accounts are shown
+  const accountWidth = accountColumnWidth(positions);
+  const header = withAccountColumn('Account', accountWidth) +
+    'Trade ID | Symbol        | Size      | Open      | Duration     | Close     | Realized PnL | Leverage | Collateral | Fees';
   const separator = '-'.repeat(header.length);
   
   const rows = positions.map(position => {
@@ -301,7 +761,7 @@ export function formatPositionsAsTable(positions: CompletedPosition[]): string {
     const pnlColor = position.realizedPnl >= 0 ? '32' : '31';
     const formattedPnl = `\x1b[${pnlColor}m${pnlSign}$${position.realizedPnl.toFixed(2)}\x1b[0m`;
     
-    return [
+    return withAccountColumn(position.account || '', accountWidth) + [
       position.id.toString().padStart(8),
       position.symbol.padEnd(13),
       position.size.toFixed(6).padStart(9),
@@ -318,12 +778,76 @@ export function formatPositionsAsTable(positions: CompletedPosition[]): string {
   return [header, separator, ...rows].join('\n');
 }
 
+function accountColumnWidth(positions: Array<CompletedPosition | OpenPosition>): number {
+  const accounts = positions.map(position => position.account || '');
+  return accounts.some(account => account !== '') ? Math.max(7, ...accounts.map(account => account.length)) : 0;
+}
+
+function withAccountColumn(value: string, width: number): string {
+  return width > 0 ? `${value.padEnd(width)} | ` : '';
+}
+
+export function formatOpenPositionsAsTable(positions: OpenPosition[]): string {
+  if (positions.length === 0) return 'No open positions.';
+
+  const accountWidth = accountColumnWidth(positions);
+  const header = withAccountColumn('Account', accountWidth) +
+    'Trade ID | Symbol        | Side  | Size      | Avg Entry | Mark      | Duration     | Realized PnL | Unrealized PnL | Fees';
+  const separator = '-'.repeat(header.length);
+
+  const formatPnl = (pnl: number | null, width: number): string => {
+    if (pnl === null) return 'N/A'.padEnd(width);
+    const pnlSign = pnl >= 0 ? '+' : '';
+    const pnlColor = pnl >= 0 ? '32' : '31';
+    return `\x1b[${pnlColor}m${pnlSign}$${pnl.toFixed(2)}\x1b[0m`.padEnd(width);
+  };
+
+  const rows = positions.map(position => withAccountColumn(position.account || '', accountWidth) + [
+    position.id.toString().padStart(8),
+    position.symbol.padEnd(13),
+    position.side.padEnd(5),
+    position.size.toFixed(6).padStart(9),
+    `$${position.averageEntryPrice.toFixed(2)}`.padStart(9),
+    (position.markPrice !== null ? `$${position.markPrice.toFixed(2)}` : 'N/A').padStart(9),
+    position.duration.padEnd(12),
+    formatPnl(position.realizedPnl, 12),
+    formatPnl(position.unrealizedPnl, 14),
+    `$${position.totalFees.toFixed(4)}`.padStart(8)
+  ].join(' | '));
+
+  return [header, separator, ...rows].join('\n');
+}
+
+export function formatPositionsAsCSV(positions: CompletedPosition[], openPositions: OpenPosition[] = []): string {
+  const header = [
+    'account', 'position_id', 'symbol', 'side', 'status', 'size', 'notional_value', 'entry_price', 'exit_price',
+    'mark_price', 'entry_time', 'exit_time', 'realized_pnl', 'unrealized_pnl', 'total_fees', 'net_funding',
+    'net_interest', 'net_pnl', 'fills'
+  ];
+
+  // Amounts are written from the exact figures, not the rounded numbers
+  const closed = positions.map(({ exact, ...position }) => [
+    position.account, position.id, position.symbol, position.side, 'closed', exact.size, exact.notionalValue,
+    exact.entryPrice, exact.exitPrice, null, position.entryTime.toISOString(), position.exitTime.toISOString(),
+    exact.realizedPnl, null, exact.totalFees, exact.netFunding, exact.netInterest, exact.netPnl,
+    position.fills.length
+  ]);
+  const active = openPositions.map(({ exact, ...position }) => [
+    position.account, position.id, position.symbol, position.side, 'active', exact.size, exact.notionalValue,
+    exact.entryPrice, null, position.markPrice, position.entryTime.toISOString(), null,
+    exact.realizedPnl, exact.unrealizedPnl, exact.totalFees, exact.netFunding, exact.netInterest, exact.netPnl,
+    position.fills.length
+  ]);
+
+  return toCSV(header, [...closed, ...active]);
+}
+
 interface DetailedPositionEvent {
   timestamp: string;
   transaction_signature: string; // Using order_id as closest equivalent
   event_name: string;
-  action: 'Buy' | 'Sell';
-  type: 'Market' | 'Limit';
+  action: 'Buy' | 'Sell' | 'Funding' | 'Interest';
+  type: 'Market' | 'Limit' | 'Funding' | 'Interest';
   size_usd: number;
   notional_size: number;
   price: number;
@@ -335,8 +859,20 @@ interface DetailedPositionEvent {
   order_id?: string;
 }
 
+interface DetailedLot {
+  open_trade_id: string;
+  close_trade_id: string;
+  open_time: string;
+  close_time: string;
+  quantity: number;
+  open_price: number;
+  close_price: number;
+  realized_pnl: number;
+}
+
 interface DetailedPosition {
   trade_id: string;
+  account?: string; // Only when several accounts are analysed together
   position_key: string; // N/A for Backpack
   symbol: string;
   direction: 'long' | 'short';
@@ -347,13 +883,23 @@ interface DetailedPosition {
   collateral_usd: string; // N/A for historical positions
   leverage: string; // N/A for historical positions
   entry_price: number;
-  exit_price: number;
+  exit_price: number | null; // null while the position is active
+  mark_price?: number | null;
   realized_pnl: number;
   realized_pnl_percent: number;
+  unrealized_pnl?: number | null;
+  unrealized_pnl_percent?: number | null;
   total_fees: number;
+  funding_fee_usd: number; // Net funding cost (positive = paid)
+  funding_paid_usd: number;
+  funding_received_usd: number;
+  interest_usd: number; // UnrealizedPnl interest, positive = received
+  net_pnl: number; // realized_pnl - total_fees - funding_fee_usd + interest_usd
   has_profit: boolean;
   entry_time: string;
-  exit_time: string;
+  exit_time: string | null;
+  lot_matching: LotMatchingMethod;
+  lots: DetailedLot[];
   events: DetailedPositionEvent[];
 }
 
@@ -368,8 +914,111 @@ function getOrderType(fill: BackpackFill, orders: BackpackOrder[]): 'Market' | '
   return order?.orderType === 'Limit' ? 'Limit' : 'Market';
 }
 
-export function formatPositionsAsDetailedJSON(positions: CompletedPosition[], orders: BackpackOrder[] = []): DetailedPosition[] {
-  return positions.map(position => {
+function mapFillsToEvents(
+  fills: BackpackFill[],
+  side: 'Long' | 'Short',
+  orders: BackpackOrder[]
+): DetailedPositionEvent[] {
+  return fills.map((fill) => {
+    const fillPrice = parseFloat(fill.price);
+    const fillQuantity = parseFloat(fill.quantity);
+    const fillFee = parseFloat(fill.fee);
+    const action = fill.side === 'Bid' ? 'Buy' : 'Sell';
+    const orderType = getOrderType(fill, orders);
+    
+    // Determine event name based on position opening/closing logic
+    let event_name: string;
+    const isLongPosition = side === 'Long';
+    const isOpeningAction = (isLongPosition && action === 'Buy') || (!isLongPosition && action === 'Sell');
+    
+    if (isOpeningAction) {
+      event_name = 'InstantIncreasePositionEvent'; // Opening position
+    } else {
+      event_name = 'InstantDecreasePositionEvent'; // Closing position  
+    }
+    
+    return {
+      timestamp: new Date(fill.timestamp).toISOString(),
+      transaction_signature: fill.orderId, // Using order_id as closest equivalent to transaction signature
+      event_name,
+      action,
+      type: orderType,
+      size_usd: Decimal.from(fill.price).mul(fill.quantity).toNumber(),
+      notional_size: fillQuantity,
+      price: fillPrice,
+      fee_usd: fillFee,
+      position_fee_usd: 0, // Avoid duplication with fee_usd
+      funding_fee_usd: 0, // Funding is reported as separate FundingPaymentEvent entries
+      price_impact_fee_usd: 0, // Not available in Backpack API
+      trade_id: fill.tradeId.toString(),
+      order_id: fill.orderId
+    };
+  });
+}
+
+function mapFundingToEvents(funding: FundingEvent[]): DetailedPositionEvent[] {
+  return funding.map(event => ({
+    timestamp: event.timestamp.toISOString(),
+    transaction_signature: event.id,
+    event_name: 'FundingPaymentEvent',
+    action: 'Funding' as const,
+    type: 'Funding' as const,
+    size_usd: 0,
+    notional_size: 0,
+    price: 0,
+    fee_usd: 0,
+    position_fee_usd: 0,
+    funding_fee_usd: -event.amount, // Backpack reports received funding as positive
+    price_impact_fee_usd: 0
+  }));
+}
+
+function mapInterestToEvents(interest: InterestEvent[]): DetailedPositionEvent[] {
+  return interest.map(event => ({
+    timestamp: event.timestamp.toISOString(),
+    transaction_signature: event.id,
+    event_name: 'InterestPaymentEvent',
+    action: 'Interest' as const,
+    type: 'Interest' as const,
+    size_usd: 0,
+    notional_size: 0,
+    price: 0,
+    fee_usd: -event.amount, // Positive = paid, like the other fee fields
+    position_fee_usd: 0,
+    funding_fee_usd: 0,
+    price_impact_fee_usd: 0
+  }));
+}
+
+function mapPositionEvents(position: CompletedPosition | OpenPosition, orders: BackpackOrder[]): DetailedPositionEvent[] {
+  // Fill and funding events interleaved in chronological order
+  return [
+    ...mapFillsToEvents(position.fills, position.side, orders),
+    ...mapFundingToEvents(position.funding),
+    ...mapInterestToEvents(position.interest)
+  ].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+function mapLots(lots: MatchedLot[]): DetailedLot[] {
+  return lots.map(lot => ({
+    open_trade_id: lot.openFill.tradeId.toString(),
+    close_trade_id: lot.closeFill.tradeId.toString(),
+    open_time: new Date(lot.openFill.timestamp).toISOString(),
+    close_time: new Date(lot.closeFill.timestamp).toISOString(),
+    quantity: lot.quantity,
+    open_price: lot.openPrice,
+    close_price: lot.closePrice,
+    realized_pnl: lot.realizedPnl
+  }));
+}
+
+export function formatPositionsAsDetailedJSON(
+  positions: CompletedPosition[],
+  orders: BackpackOrder[] = [],
+  openPositions: OpenPosition[] = [],
+  lotMatching: LotMatchingMethod = 'FIFO'
+): DetailedPosition[] {
+  const closed = positions.map(position => {
     // Use first fill's tradeId as the trade_id
     const firstFill = position.fills[0];
     const trade_id = firstFill.tradeId.toString();
@@ -385,44 +1034,11 @@ export function formatPositionsAsDetailedJSON(positions: CompletedPosition[], or
     const has_profit = position.realizedPnl >= 0;
     
     // Map fills to events
-    const events: DetailedPositionEvent[] = position.fills.map((fill) => {
-      const fillPrice = parseFloat(fill.price);
-      const fillQuantity = parseFloat(fill.quantity);
-      const fillFee = parseFloat(fill.fee);
-      const action = fill.side === 'Bid' ? 'Buy' : 'Sell';
-      const orderType = getOrderType(fill, orders);
-      
-      // Determine event name based on position opening/closing logic
-      let event_name: string;
-      const isLongPosition = position.side === 'Long';
-      const isOpeningAction = (isLongPosition && action === 'Buy') || (!isLongPosition && action === 'Sell');
-      
-      if (isOpeningAction) {
-        event_name = 'InstantIncreasePositionEvent'; // Opening position
-      } else {
-        event_name = 'InstantDecreasePositionEvent'; // Closing position  
-      }
-      
-      return {
-        timestamp: new Date(fill.timestamp).toISOString(),
-        transaction_signature: fill.orderId, // Using order_id as closest equivalent to transaction signature
-        event_name,
-        action,
-        type: orderType,
-        size_usd: fillPrice * fillQuantity,
-        notional_size: fillQuantity,
-        price: fillPrice,
-        fee_usd: fillFee,
-        position_fee_usd: 0, // Avoid duplication with fee_usd
-        funding_fee_usd: 0, // Not available for historical positions
-        price_impact_fee_usd: 0, // Not available in Backpack API
-        trade_id: fill.tradeId.toString(),
-        order_id: fill.orderId
-      };
-    });
+    const events = mapPositionEvents(position, orders);
 
     return {
       trade_id,
+      ...(position.account ? { account: position.account } : {}),
       position_key: 'N/A', // Exchange-specific field
       symbol: position.symbol,
       direction: position.side.toLowerCase() as 'long' | 'short',
@@ -437,10 +1053,107 @@ export function formatPositionsAsDetailedJSON(positions: CompletedPosition[], or
       realized_pnl: position.realizedPnl,
       realized_pnl_percent: position.realizedPnlPercent,
       total_fees: position.totalFees,
+      funding_fee_usd: -position.netFunding,
+      funding_paid_usd: position.fundingPaid,
+      funding_received_usd: position.fundingReceived,
+      interest_usd: position.netInterest,
+      net_pnl: position.netPnl,
       has_profit,
       entry_time: position.entryTime.toISOString(),
       exit_time: position.exitTime.toISOString(),
+      lot_matching: lotMatching,
+      lots: mapLots(position.lots),
       events
     };
   });
-}
\ No newline at end of file
+
+  const active = openPositions.map(position => {
+    const realized_pnl_percent = position.notionalValue > 0 ?
+      (position.realizedPnl / position.notionalValue) * 100 :
+      0;
+
+    return {
+      trade_id: position.fills[0].tradeId.toString(),
+      ...(position.account ? { account: position.account } : {}),
+      position_key: 'N/A', // Exchange-specific field
+      symbol: position.symbol,
+      direction: position.side.toLowerCase() as 'long' | 'short',
+      status: 'active' as const,
+      collateral_token: extractCollateralToken(position.symbol),
+      size_usd: position.notionalValue,
+      notional_size: position.size,
+      collateral_usd: 'N/A', // No historical collateral data available from API
+      leverage: 'N/A', // No historical leverage data available from API
+      entry_price: position.averageEntryPrice,
+      exit_price: null,
+      mark_price: position.markPrice,
+      realized_pnl: position.realizedPnl,
+      realized_pnl_percent,
+      unrealized_pnl: position.unrealizedPnl,
+      unrealized_pnl_percent: position.unrealizedPnlPercent,
+      total_fees: position.totalFees,
+      funding_fee_usd: -position.netFunding,
+      funding_paid_usd: position.fundingPaid,
+      funding_received_usd: position.fundingReceived,
+      interest_usd: position.netInterest,
+      net_pnl: position.netPnl,
+      has_profit: position.realizedPnl + (position.unrealizedPnl || 0) >= 0,
+      entry_time: position.entryTime.toISOString(),
+      exit_time: null,
+      lot_matching: lotMatching,
+      lots: mapLots(position.lots),
+      events: mapPositionEvents(position, orders)
+    };
+  });
+
+  return [...closed, ...active];
+}
+
+interface DetailedPnlBreakdown {
+  gross_pnl: number;
+  trading_fees: number;
+  funding: number;
+  interest: number;
+  net_pnl: number;
+}
+
+function mapPnlBreakdown(breakdown: PnlBreakdown): DetailedPnlBreakdown {
+  return {
+    gross_pnl: breakdown.grossPnl,
+    trading_fees: breakdown.tradingFees,
+    funding: breakdown.funding,
+    interest: breakdown.interest,
+    net_pnl: breakdown.netPnl
+  };
+}
+
+export function formatPnlBreakdownAsJSON(analysis: PositionAnalysis): {
+  overall: DetailedPnlBreakdown;
+  by_symbol: { [symbol: string]: DetailedPnlBreakdown };
+} {
+  const by_symbol: { [symbol: string]: DetailedPnlBreakdown } = {};
+  for (const [symbol, data] of Object.entries(analysis.summary.symbolBreakdown)) {
+    by_symbol[symbol] = mapPnlBreakdown(data.net);
+  }
+
+  return {
+    overall: mapPnlBreakdown(analysis.summary.net),
+    by_symbol
+  };
+}
+
+export function formatPnlBreakdownForCLI(breakdown: PnlBreakdown): string {
+  const formatAmount = (amount: number): string => {
+    const color = amount >= 0 ? '32' : '31';
+    const sign = amount >= 0 ? '+' : '';
+    return `\x1b[${color}m${sign}$${amount.toFixed(2)}\x1b[0m`;
+  };
+
+  return [
+    `├─ Gross Price PnL: ${formatAmount(breakdown.grossPnl)}`,
+    `├─ Trading Fees: ${formatAmount(-breakdown.tradingFees)}`,
+    `├─ Funding: ${formatAmount(breakdown.funding)}`,
+    `├─ Interest (UnrealizedPnl): ${formatAmount(breakdown.interest)}`,
+    `└─ Net PnL: ${formatAmount(breakdown.netPnl)}`
+  ].join('\n');
+}
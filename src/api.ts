@@ -14,28 +14,141 @@ import {
   BackpackPosition,
   BackpackAccount,
   BackpackInterestHistory,
-  HistoryResponse,
-  PaginationParams 
+  BackpackOpenPosition,
+  HistoryQuery,
+  TimeRange
 } from './types';
+import {
+  ENDPOINTS,
+  Endpoint,
+  findEndpoint,
+  EndpointName,
+  EndpointParams,
+  EndpointResponse,
+  HistoryParams,
+  PaginatedEndpointName,
+  PositionHistoryParams
+} from './endpoints';
+import { Paginator, PaginationOptions, splitTimeRange } from './paginator';
+import { BackpackApiError, BackpackRateLimitError, toBackpackError } from './errors';
+import { RetryOptions, RateLimitOptions, TokenBucket, backoffDelay, delay } from './ratelimit';
+import { DEFAULT_WINDOW_MS, MAX_WINDOW_MS, ServerClock, TimeSyncOptions } from './clock';
+
+type EndpointRecord<K extends EndpointName> = EndpointResponse<K> extends Array<infer T> ? T : never;
+
+// Interest history paths in the order they are tried
+const INTEREST_ENDPOINTS = ['interestHistoryV1', 'interestHistory', 'capitalInterest', 'capitalInterestV1'] as const;
+
+export const DEFAULT_BASE_URL = 'https://api.backpack.exchange';
+
+export interface BackpackAPIOptions {
+  baseURL?: string; // Defaults to the production API; point at a mock server for offline runs
+  retry?: RetryOptions;
+  rateLimit?: RateLimitOptions;
+  rateLimiter?: TokenBucket; // Share one bucket between several clients
+  window?: number; // Receive window for signed requests in ms, defaults to 5000 (max 60000)
+  timeSync?: TimeSyncOptions;
+  onRetry?: (error: BackpackApiError, attempt: number, delayMs: number) => void;
+  maxRangeMs?: number; // Longest from/to span per trade history request, overriding each endpoint's default
+}
 
 export class BackpackAPI {
   private auth: BackpackAuth;
   private client: AxiosInstance;
-  private readonly baseURL = 'https://api.backpack.exchange';
-
-  constructor(credentials: BackpackCredentials) {
-    this.auth = new BackpackAuth(credentials);
+  private rateLimiter: TokenBucket;
+  private clockSync: Promise<number> | null = null;
+  readonly baseURL: string;
+  readonly window: number;
+  readonly clock: ServerClock;
+
+  constructor(credentials: BackpackCredentials | BackpackAuth, private readonly options: BackpackAPIOptions = {}) {
+    this.auth = credentials instanceof BackpackAuth ? credentials : new BackpackAuth(credentials);
+    this.baseURL = options.baseURL || DEFAULT_BASE_URL;
     this.client = axios.create({
       baseURL: this.baseURL,
       timeout: 30000,
     });
+    this.rateLimiter = options.rateLimiter || TokenBucket.fromOptions(options.rateLimit);
+
+    this.window = options.window ?? DEFAULT_WINDOW_MS;
+    if (!Number.isInteger(this.window) || this.window <= 0 || this.window > MAX_WINDOW_MS) {
+      throw new Error(`Signing window must be an integer between 1 and ${MAX_WINDOW_MS}ms, got ${options.window}`);
+    }
+    this.clock = new ServerClock(options.timeSync?.refreshIntervalMs);
+
+    if (options.maxRangeMs !== undefined && !(options.maxRangeMs > 0)) {
+      throw new Error(`Maximum range must be a positive number of ms, got ${options.maxRangeMs}`);
+    }
   }
 
+  /**
+   * Measure the offset between the local and server clocks. Concurrent
+   * callers share one request. Returns the new offset in milliseconds.
+   */
+  async syncClock(): Promise<number> {
+    if (!this.clockSync) {
+      this.clockSync = (async () => {
+        await this.rateLimiter.acquire();
+        const sentAt = Date.now();
+        const serverTime = Number(await this.sendRequest({ method: 'GET', path: ENDPOINTS.time.path }));
+        return this.clock.update(serverTime, sentAt, Date.now());
+      })().finally(() => {
+        this.clockSync = null;
+      });
+    }
+    return this.clockSync;
+  }
+
+  /**
+   * Send a request through the shared rate limiter, retrying rate limits,
+   * server errors and network failures with exponential backoff.
+   */
   private async makeRequest<T>(config: BackpackRequestConfig): Promise<T> {
-    const timestamp = Date.now();
-    const window = 5000;
-    
-    const headers = this.auth.signRequest(config, timestamp, window);
+    const maxRetries = this.options.retry?.maxRetries ?? 3;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.acquire();
+
+      try {
+        return await this.sendWithClockRetry<T>(config);
+      } catch (error) {
+        if (!(error instanceof BackpackApiError) || !error.retryable || attempt >= maxRetries || config.signal?.aborted) {
+          throw error;
+        }
+
+        const retryAfterMs = error instanceof BackpackRateLimitError ? error.retryAfterMs : null;
+        const wait = backoffDelay(attempt, this.options.retry, retryAfterMs);
+        this.options.onRetry?.(error, attempt + 1, wait);
+        await delay(wait);
+      }
+    }
+  }
+
+  /**
+   * A request rejected for an expired timestamp is sent once more after
+   * re-reading the server time, whether or not time sync is enabled.
+   */
+  private async sendWithClockRetry<T>(config: BackpackRequestConfig): Promise<T> {
+    try {
+      return await this.sendRequest<T>(config);
+    } catch (error) {
+      if (!(error instanceof BackpackApiError) || !error.timestampExpired || config.signal?.aborted) {
+        throw error;
+      }
+
+      await this.syncClock();
+      return this.sendRequest<T>(config);
+    }
+  }
+
+  private async sendRequest<T>(config: BackpackRequestConfig): Promise<T> {
+    const signed = findEndpoint(config.method, config.path)?.signed !== false;
+    if (signed && this.options.timeSync?.enabled && this.clock.stale) {
+      await this.syncClock();
+    }
+
+    // Signed per attempt so retries get a fresh timestamp
+    const headers = signed ? this.auth.signRequest(config, this.clock.now(), this.window) : {};
     
     let url = config.path;
     if (config.params && Object.keys(config.params).length > 0) {
@@ -48,435 +161,259 @@ export class BackpackAPI {
       url += `?${params.toString()}`;
     }
 
+    try {
+      const response: AxiosResponse<T> = await this.client.request({
+        method: config.method,
+        url,
+        headers,
+        data: config.body,
+        signal: config.signal,
+      });
 
-    const response: AxiosResponse<T> = await this.client.request({
-      method: config.method,
-      url,
-      headers,
-      data: config.body,
-    });
-
-    return response.data;
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && !axios.isCancel(error)) {
+        throw toBackpackError(error, config.method, config.path);
+      }
+      throw error;
+    }
   }
 
-  async getFills(params?: PaginationParams): Promise<BackpackFill[]> {
-    const paramsWithSort = {
-      ...params,
-      sortDirection: 'Asc' as const
-    };
-    const response = await this.makeRequest<BackpackFill[]>({
-      method: 'GET',
-      path: '/wapi/v1/history/fills',
-      params: paramsWithSort,
+  /**
+   * Call a registered endpoint. The registry's default params are applied
+   * first, so callers only pass what differs. GET params go in the query
+   * string; for other methods they are sent (and signed) as the JSON body.
+   */
+  async request<K extends EndpointName>(name: K, params?: EndpointParams<K>, signal?: AbortSignal): Promise<EndpointResponse<K>> {
+    const endpoint: Endpoint = ENDPOINTS[name];
+    const fields = Array.isArray(params)
+      ? params
+      : { ...endpoint.defaultParams, ...(params as Record<string, any> | undefined) };
+
+    return this.makeRequest<EndpointResponse<K>>({
+      method: endpoint.method,
+      path: endpoint.path,
+      ...(endpoint.method === 'GET' ? { params: fields } : { body: fields }),
+      signal,
     });
-    return response;
   }
 
-  async getOrders(params?: PaginationParams): Promise<BackpackOrder[]> {
-    const paramsWithSort = {
-      ...params,
-      sortDirection: 'Asc' as const
-    };
-    const response = await this.makeRequest<BackpackOrder[]>({
-      method: 'GET',
-      path: '/wapi/v1/history/orders',
-      params: paramsWithSort,
-    });
-    return response;
-  }
+  /**
+   * Page through an offset-paginated endpoint. A from/to range longer than
+   * the endpoint's maxRangeMs (or the client's override) is fetched one
+   * window at a time.
+   */
+  paginate<K extends PaginatedEndpointName>(
+    name: K,
+    params?: Omit<EndpointParams<K>, 'limit' | 'offset'>,
+    options: PaginationOptions = {}
+  ): Paginator<EndpointRecord<K>> {
+    const endpoint: Endpoint = ENDPOINTS[name];
+    if (endpoint.pagination !== 'offset') {
+      throw new Error(`Endpoint ${name} does not support offset pagination`);
+    }
 
-  async getFundingPayments(params?: PaginationParams): Promise<BackpackFundingPayment[]> {
-    const response = await this.makeRequest<BackpackFundingPayment[]>({
-      method: 'GET',
-      path: '/wapi/v1/history/fundingPayments',
-      params,
-    });
-    return response;
+    return new Paginator(page => {
+      const pageParams = { ...params, ...page.window, limit: page.limit, offset: page.offset } as EndpointParams<K>;
+      return this.request(name, pageParams, page.signal) as Promise<EndpointRecord<K>[]>;
+    }, options, this.timeWindows(endpoint, params));
   }
 
-  async getSettlements(params?: PaginationParams): Promise<BackpackSettlement[]> {
-    const response = await this.makeRequest<BackpackSettlement[]>({
-      method: 'GET',
-      path: '/wapi/v1/history/settlement',
-      params,
-    });
-    return response;
+  private timeWindows(endpoint: Endpoint, params: Record<string, any> = {}): TimeRange[] {
+    // Only endpoints with a default are split; the override never splits the others
+    const maxRangeMs = endpoint.maxRangeMs && (this.options.maxRangeMs ?? endpoint.maxRangeMs);
+    const { from, to = this.clock.now(), sortDirection } = { ...endpoint.defaultParams, ...params };
+    if (!maxRangeMs || from === undefined || to - from <= maxRangeMs) {
+      return [{}];
+    }
+
+    // Windows follow the endpoint's order: newest first unless sorted ascending
+    const windows = splitTimeRange(from, to, maxRangeMs);
+    return sortDirection === 'Asc' ? windows : windows.reverse();
   }
 
-  async getAllFills(): Promise<BackpackFill[]> {
-    const allFills: BackpackFill[] = [];
-    let offset = 0;
-    const limit = 1000;
+  /**
+   * Only the filters an endpoint supports are sent; callers filter anything
+   * else in memory.
+   */
+  private historyParams(name: PaginatedEndpointName, query: HistoryQuery): HistoryParams {
+    const { symbol, marketType, ...range } = query;
+    const supported = (ENDPOINTS[name] as Endpoint).filters || [];
+
+    return {
+      ...range,
+      ...(symbol && supported.includes('symbol') ? { symbol } : {}),
+      ...(marketType && supported.includes('marketType') ? { marketType } : {})
+    };
+  }
 
-    while (true) {
-      console.log(`Fetching fills with offset ${offset}...`);
-      const fills = await this.getFills({ limit, offset });
-      
-      if (fills.length === 0) {
-        break;
-      }
-      
-      allFills.push(...fills);
-      
-      if (fills.length < limit) {
-        break;
-      }
-      
-      offset += limit;
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+  async getFills(params?: HistoryParams, signal?: AbortSignal): Promise<BackpackFill[]> {
+    return this.request('fills', params, signal);
+  }
 
-    return allFills;
+  paginateFills(query: HistoryQuery = {}, options: PaginationOptions = {}): Paginator<BackpackFill> {
+    return this.paginate('fills', this.historyParams('fills', query), options);
   }
 
-  async getAllOrders(): Promise<BackpackOrder[]> {
-    const allOrders: BackpackOrder[] = [];
-    let offset = 0;
-    const limit = 1000;
+  async getAllFills(query: HistoryQuery = {}, options: PaginationOptions = {}): Promise<BackpackFill[]> {
+    return this.paginateFills(query, options).toArray();
+  }
 
-    while (true) {
-      console.log(`Fetching orders with offset ${offset}...`);
-      const orders = await this.getOrders({ limit, offset });
-      
-      if (orders.length === 0) {
-        break;
-      }
-      
-      allOrders.push(...orders);
-      
-      if (orders.length < limit) {
-        break;
-      }
-      
-      offset += limit;
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+  async getOrders(params?: HistoryParams, signal?: AbortSignal): Promise<BackpackOrder[]> {
+    return this.request('orders', params, signal);
+  }
 
-    return allOrders;
+  paginateOrders(query: HistoryQuery = {}, options: PaginationOptions = {}): Paginator<BackpackOrder> {
+    return this.paginate('orders', this.historyParams('orders', query), options);
   }
 
-  async getAllFundingPayments(): Promise<BackpackFundingPayment[]> {
-    const allPayments: BackpackFundingPayment[] = [];
-    let offset = 0;
-    const limit = 1000;
+  async getAllOrders(query: HistoryQuery = {}, options: PaginationOptions = {}): Promise<BackpackOrder[]> {
+    return this.paginateOrders(query, options).toArray();
+  }
 
-    while (true) {
-      console.log(`Fetching funding payments with offset ${offset}...`);
-      const payments = await this.getFundingPayments({ limit, offset });
-      
-      if (payments.length === 0) {
-        break;
-      }
-      
-      allPayments.push(...payments);
-      
-      if (payments.length < limit) {
-        break;
-      }
-      
-      offset += limit;
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+  async getFundingPayments(params?: HistoryParams, signal?: AbortSignal): Promise<BackpackFundingPayment[]> {
+    return this.request('fundingPayments', params, signal);
+  }
 
-    return allPayments;
+  paginateFundingPayments(query: HistoryQuery = {}, options: PaginationOptions = {}): Paginator<BackpackFundingPayment> {
+    return this.paginate('fundingPayments', this.historyParams('fundingPayments', query), options);
   }
 
-  async getAllSettlements(): Promise<BackpackSettlement[]> {
-    const allSettlements: BackpackSettlement[] = [];
-    let offset = 0;
-    const limit = 1000;
+  async getAllFundingPayments(query: HistoryQuery = {}, options: PaginationOptions = {}): Promise<BackpackFundingPayment[]> {
+    return this.paginateFundingPayments(query, options).toArray();
+  }
 
-    while (true) {
-      console.log(`Fetching settlements with offset ${offset}...`);
-      const settlements = await this.getSettlements({ limit, offset });
-      
-      if (settlements.length === 0) {
-        break;
-      }
-      
-      allSettlements.push(...settlements);
-      
-      if (settlements.length < limit) {
-        break;
-      }
-      
-      offset += limit;
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+  async getSettlements(params?: HistoryParams, signal?: AbortSignal): Promise<BackpackSettlement[]> {
+    return this.request('settlements', params, signal);
+  }
 
-    return allSettlements;
+  paginateSettlements(query: HistoryQuery = {}, options: PaginationOptions = {}): Paginator<BackpackSettlement> {
+    return this.paginate('settlements', this.historyParams('settlements', query), options);
   }
 
-  async getFundingHistory(params?: PaginationParams): Promise<BackpackFundingHistory[]> {
-    const response = await this.makeRequest<BackpackFundingHistory[]>({
-      method: 'GET',
-      path: '/wapi/v1/history/funding',
-      params,
-    });
-    return response;
+  async getAllSettlements(query: HistoryQuery = {}, options: PaginationOptions = {}): Promise<BackpackSettlement[]> {
+    return this.paginateSettlements(query, options).toArray();
   }
 
-  async getAllFundingHistory(): Promise<BackpackFundingHistory[]> {
-    const allFunding: BackpackFundingHistory[] = [];
-    let offset = 0;
-    const limit = 1000;
+  async getFundingHistory(params?: HistoryParams, signal?: AbortSignal): Promise<BackpackFundingHistory[]> {
+    return this.request('fundingHistory', params, signal);
+  }
 
-    while (true) {
-      console.log(`Fetching funding history with offset ${offset}...`);
-      const funding = await this.getFundingHistory({ limit, offset });
-      
-      if (funding.length === 0) {
-        break;
-      }
-      
-      allFunding.push(...funding);
-      
-      if (funding.length < limit) {
-        break;
-      }
-      
-      offset += limit;
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+  paginateFundingHistory(query: HistoryQuery = {}, options: PaginationOptions = {}): Paginator<BackpackFundingHistory> {
+    return this.paginate('fundingHistory', this.historyParams('fundingHistory', query), options);
+  }
 
-    return allFunding;
+  async getAllFundingHistory(query: HistoryQuery = {}, options: PaginationOptions = {}): Promise<BackpackFundingHistory[]> {
+    return this.paginateFundingHistory(query, options).toArray();
   }
 
   async getBalances(): Promise<BackpackBalance> {
-    const response = await this.makeRequest<BackpackBalance>({
-      method: 'GET',
-      path: '/api/v1/capital',
-    });
-    return response;
+    return this.request('balances');
   }
 
-  async getDeposits(params?: PaginationParams): Promise<BackpackDeposit[]> {
-    const response = await this.makeRequest<BackpackDeposit[]>({
-      method: 'GET',
-      path: '/wapi/v1/capital/deposits',
-      params,
-    });
-    return response;
+  async getDeposits(params?: HistoryParams, signal?: AbortSignal): Promise<BackpackDeposit[]> {
+    return this.request('deposits', params, signal);
   }
 
-  async getAllDeposits(): Promise<BackpackDeposit[]> {
-    const allDeposits: BackpackDeposit[] = [];
-    let offset = 0;
-    const limit = 1000;
+  paginateDeposits(query: HistoryQuery = {}, options: PaginationOptions = {}): Paginator<BackpackDeposit> {
+    return this.paginate('deposits', this.historyParams('deposits', query), options);
+  }
 
-    while (true) {
-      console.log(`Fetching deposits with offset ${offset}...`);
-      const deposits = await this.getDeposits({ limit, offset });
-      
-      if (deposits.length === 0) {
-        break;
-      }
-      
-      allDeposits.push(...deposits);
-      
-      if (deposits.length < limit) {
-        break;
-      }
-      
-      offset += limit;
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+  async getAllDeposits(query: HistoryQuery = {}, options: PaginationOptions = {}): Promise<BackpackDeposit[]> {
+    return this.paginateDeposits(query, options).toArray();
+  }
 
-    return allDeposits;
+  async getWithdrawals(params?: HistoryParams, signal?: AbortSignal): Promise<BackpackWithdrawal[]> {
+    return this.request('withdrawals', params, signal);
   }
 
-  async getWithdrawals(params?: PaginationParams): Promise<BackpackWithdrawal[]> {
-    const response = await this.makeRequest<BackpackWithdrawal[]>({
-      method: 'GET',
-      path: '/wapi/v1/capital/withdrawals',
-      params,
-    });
-    return response;
+  paginateWithdrawals(query: HistoryQuery = {}, options: PaginationOptions = {}): Paginator<BackpackWithdrawal> {
+    return this.paginate('withdrawals', this.historyParams('withdrawals', query), options);
   }
 
-  async getAllWithdrawals(): Promise<BackpackWithdrawal[]> {
-    const allWithdrawals: BackpackWithdrawal[] = [];
-    let offset = 0;
-    const limit = 1000;
+  async getAllWithdrawals(query: HistoryQuery = {}, options: PaginationOptions = {}): Promise<BackpackWithdrawal[]> {
+    return this.paginateWithdrawals(query, options).toArray();
+  }
 
-    while (true) {
-      console.log(`Fetching withdrawals with offset ${offset}...`);
-      const withdrawals = await this.getWithdrawals({ limit, offset });
-      
-      if (withdrawals.length === 0) {
-        break;
-      }
-      
-      allWithdrawals.push(...withdrawals);
-      
-      if (withdrawals.length < limit) {
-        break;
-      }
-      
-      offset += limit;
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
+  async getPositions(params?: PositionHistoryParams, signal?: AbortSignal): Promise<BackpackPosition[]> {
+    return this.request('positions', params, signal);
+  }
+
+  paginatePositions(subaccountId: number = 0, state: string = 'Closed', options: PaginationOptions = {}): Paginator<BackpackPosition> {
+    // Only include state if it's not empty
+    const params: Omit<PositionHistoryParams, 'limit' | 'offset'> = { subaccountId };
+    if (state && state.trim() !== '') {
+      params.state = state;
     }
 
-    return allWithdrawals;
+    return this.paginate('positions', params, options);
   }
 
-  async getPositions(params?: { subaccountId?: number; state?: string } & PaginationParams): Promise<BackpackPosition[]> {
-    const response = await this.makeRequest<BackpackPosition[]>({
-      method: 'GET',
-      path: '/wapi/v1/history/position',
-      params,
-    });
-    return response;
-  }
-
-
-  async getAllPositions(subaccountId: number = 0, state: string = 'Closed'): Promise<BackpackPosition[]> {
-    const allPositions: BackpackPosition[] = [];
-    let offset = 0;
-    const limit = 1000;
-
-    while (true) {
-      console.log(`Fetching positions with offset ${offset}...`);
-      const params: { subaccountId: number; limit: number; offset: number; state?: string } = {
-        subaccountId,
-        limit,
-        offset
-      };
-      
-      // Only include state if it's not empty
-      if (state && state.trim() !== '') {
-        params.state = state;
-      }
-      
-      const positions = await this.getPositions(params);
-      
-      if (positions.length === 0) {
-        break;
-      }
-      
-      allPositions.push(...positions);
-      
-      if (positions.length < limit) {
-        break;
-      }
-      
-      offset += limit;
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+  async getAllPositions(subaccountId: number = 0, state: string = 'Closed', options: PaginationOptions = {}): Promise<BackpackPosition[]> {
+    return this.paginatePositions(subaccountId, state, options).toArray();
+  }
 
-    return allPositions;
+  /**
+   * Server clock in milliseconds since the epoch (public, unsigned).
+   * Unlike syncClock, this does not change the offset used for signing.
+   */
+  async getServerTime(): Promise<number> {
+    return Number(await this.request('time'));
   }
 
   async getAccount(): Promise<BackpackAccount> {
-    const response = await this.makeRequest<BackpackAccount>({
-      method: 'GET',
-      path: '/api/v1/account',
-    });
-    return response;
+    return this.request('account');
   }
 
-  async getInterestHistory(params?: PaginationParams): Promise<BackpackInterestHistory[]> {
-    const response = await this.makeRequest<BackpackInterestHistory[]>({
-      method: 'GET',
-      path: '/wapi/v1/history/interest',
-      params,
-    });
-    return response;
+  async getOpenPositions(): Promise<BackpackOpenPosition[]> {
+    return this.request('openPositions');
+  }
+
+  async getInterestHistory(params?: HistoryParams, signal?: AbortSignal): Promise<BackpackInterestHistory[]> {
+    return this.request('interestHistory', params, signal);
   }
 
   async testInterestEndpoint(): Promise<void> {
-    console.log('🔍 Testing different interest endpoints...');
-    
-    const testCases = [
-      { path: '/api/v1/history/interest', instruction: 'interestHistoryQuery' },
-      { path: '/wapi/v1/history/interest', instruction: 'interestHistoryQueryAll' },
-      { path: '/wapi/v1/capital/interest', instruction: 'interestQueryAll' },
-      { path: '/api/v1/capital/interest', instruction: 'interestQuery' },
-      { path: '/api/v1/history/interest', instruction: 'interestHistoryQueryAll' }
-    ];
-
-    for (const testCase of testCases) {
+    console.error('🔍 Testing different interest endpoints...');
+
+    for (const name of INTEREST_ENDPOINTS) {
+      const { path, instruction } = ENDPOINTS[name];
       try {
-        console.log(`Testing: ${testCase.path} with instruction: ${testCase.instruction}`);
-        const response = await this.makeRequest<any>({
-          method: 'GET',
-          path: testCase.path,
-        });
-        console.log(`✅ SUCCESS: ${testCase.path} returned:`, response?.slice?.(0, 2) || response);
+        console.error(`Testing: ${path} with instruction: ${instruction}`);
+        const response = await this.request(name);
+        console.error(`✅ SUCCESS: ${path} returned:`, response?.slice?.(0, 2) || response);
         break; // Stop at first success
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
-        console.log(`❌ Failed: ${testCase.path} - ${errorMsg}`);
+        console.error(`❌ Failed: ${path} - ${errorMsg}`);
       }
     }
   }
 
-  async getAllInterestHistory(): Promise<BackpackInterestHistory[]> {
+  async getAllInterestHistory(query: HistoryQuery = {}, options: PaginationOptions = {}): Promise<BackpackInterestHistory[]> {
     // Try different endpoint paths and see which one works
-    const possiblePaths = [
-      '/api/v1/history/interest',
-      '/wapi/v1/history/interest',
-      '/wapi/v1/capital/interest',
-      '/api/v1/capital/interest'
-    ];
-    
     let lastError: any = null;
     
-    for (const path of possiblePaths) {
+    for (const name of INTEREST_ENDPOINTS) {
+      const { path } = ENDPOINTS[name];
+      const params = this.historyParams(name, query);
       try {
-        console.log(`Trying interest endpoint: ${path}`);
-        const response = await this.makeRequest<BackpackInterestHistory[]>({
-          method: 'GET',
-          path: path,
-          params: { limit: 1000, offset: 0 },
-        });
-        console.log(`Success! Found working endpoint: ${path}`);
-        
-        // If we found a working endpoint, proceed with full pagination
-        const allInterest: BackpackInterestHistory[] = [];
-        let offset = 0;
-        const limit = 1000;
-
-        while (true) {
-          console.log(`Fetching interest history with offset ${offset}...`);
-          const interest = await this.makeRequest<BackpackInterestHistory[]>({
-            method: 'GET',
-            path: path,
-            params: { limit, offset },
-          });
-          
-          if (interest.length === 0) {
-            break;
-          }
-          
-          allInterest.push(...interest);
-          
-          if (interest.length < limit) {
-            break;
-          }
-          
-          offset += limit;
-          
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-
-        return allInterest;
+        console.error(`Trying interest endpoint: ${path}`);
+        // Probe with one record from the first window, so a long range is not rejected
+        const [window] = this.timeWindows(ENDPOINTS[name], params);
+        await this.request(name, { ...params, ...window, limit: 1, offset: 0 }, options.signal);
+        console.error(`Success! Found working endpoint: ${path}`);
       } catch (error) {
-        console.log(`Failed endpoint ${path}:`, error instanceof Error ? error.message : error);
+        console.error(`Failed endpoint ${path}:`, error instanceof Error ? error.message : error);
         lastError = error;
         continue;
       }
+
+      // If we found a working endpoint, proceed with full pagination
+      return this.paginate(name, params, options).toArray();
     }
     
     // If we get here, none of the endpoints worked
     throw lastError || new Error('All interest history endpoint attempts failed');
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,13 @@
 import * as nacl from 'tweetnacl';
 import { BackpackCredentials, BackpackRequestConfig } from './types';
+import { getEndpoint } from './endpoints';
+import { Keystore } from './keystore';
+
+export interface SignatureVerification {
+  valid: boolean;
+  payload: string | null; // The string the signature was checked against
+  reason?: string; // Why verification failed
+}
 
 export class BackpackAuth {
   private credentials: BackpackCredentials;
@@ -22,61 +30,27 @@ export class BackpackAuth {
     return Buffer.from(binaryString, 'binary').toString('base64');
   }
 
-  signRequest(config: BackpackRequestConfig, timestamp: number, window: number): Record<string, string> {
-    const { method, path, params, body } = config;
-    
-    const sortedParams: string[] = [];
-    if (params && Object.keys(params).length > 0) {
-      Object.keys(params)
-        .sort()
-        .forEach(key => {
-          const value = params[key];
-          if (value !== undefined && value !== null) {
-            sortedParams.push(`${key}=${encodeURIComponent(value.toString())}`);
-          }
-        });
-    }
+  /**
+   * Auth for a profile in the encrypted keystore instead of env vars.
+   */
+  static async fromKeystore(profile: string, passphrase: string, keystore: Keystore = new Keystore()): Promise<BackpackAuth> {
+    return new BackpackAuth(await keystore.unlock(profile, passphrase));
+  }
 
-    const queryString = sortedParams.join('&');
-    const fullPath = queryString ? `${path}?${queryString}` : path;
-    
-    let instructionType = '';
-    if (path === '/wapi/v1/history/fills') {
-      instructionType = 'fillHistoryQueryAll';
-    } else if (path === '/wapi/v1/history/orders') {
-      instructionType = 'orderHistoryQueryAll';
-    } else if (path === '/wapi/v1/history/fundingPayments') {
-      instructionType = 'fundingPayments';
-    } else if (path === '/wapi/v1/history/settlement') {
-      instructionType = 'settlement';
-    } else if (path === '/wapi/v1/history/funding') {
-      instructionType = 'fundingHistoryQueryAll';
-    } else if (path === '/api/v1/capital') {
-      instructionType = 'balanceQuery';
-    } else if (path === '/wapi/v1/capital/deposits') {
-      instructionType = 'depositQueryAll';
-    } else if (path === '/wapi/v1/capital/withdrawals') {
-      instructionType = 'withdrawalQueryAll';
-    } else if (path === '/api/v1/account') {
-      instructionType = 'accountQuery';
-    } else if (path === '/api/v1/history/interest') {
-      instructionType = 'interestHistoryQuery';
-    } else if (path === '/wapi/v1/history/interest') {
-      instructionType = 'interestHistoryQueryAll';
-    } else if (path === '/wapi/v1/capital/interest') {
-      instructionType = 'interestQueryAll';
-    } else if (path === '/api/v1/capital/interest') {
-      instructionType = 'interestQuery';
-    // Note: Position endpoints currently not accessible
-    // } else if (path === '/wapi/v1/history/position') {
-    //   instructionType = 'positionHistoryQuery';
-    } else {
-      instructionType = `${method.toLowerCase()}${path.replace(/\//g, '')}`;
-    }
-    
-    const instruction = `instruction=${instructionType}${queryString ? `&${queryString}` : ''}&timestamp=${timestamp}&window=${window}`;
+  /**
+   * Base64 public key (the Backpack API key) for a base64 private key.
+   */
+  static publicKeyFor(privateKey: string): string {
+    const secretKey = BackpackAuth.secretKeyFrom(privateKey);
+    return Buffer.from(secretKey.slice(32)).toString('base64');
+  }
 
-    const privateKeyBytes = Buffer.from(this.credentials.privateKey, 'base64');
+  /**
+   * Expand a 32-byte seed into the 64-byte secret key tweetnacl signs with;
+   * 64-byte keys are used as they are.
+   */
+  private static secretKeyFrom(privateKey: string): Uint8Array {
+    const privateKeyBytes = Buffer.from(privateKey, 'base64');
     
     let secretKey: Uint8Array;
     if (privateKeyBytes.length === 32) {
@@ -90,6 +64,59 @@ export class BackpackAuth {
       throw new Error(`Invalid private key length: expected 32 or 64 bytes, got ${privateKeyBytes.length}`);
     }
 
+    return secretKey;
+  }
+
+  /**
+   * Instruction type that Backpack expects for an endpoint. Throws
+   * UnknownEndpointError for paths missing from the endpoint registry.
+   */
+  static instructionType(method: string, path: string): string {
+    return getEndpoint(method, path).instruction;
+  }
+
+  /**
+   * The exact string that is signed: instruction, query params and body
+   * fields merged and sorted by key, then timestamp and window. An array
+   * body (batch orders) is signed as one instruction segment per item.
+   */
+  static signingPayload(config: BackpackRequestConfig, timestamp: number, window: number): string {
+    const { method, path, params, body } = config;
+    const instructionType = BackpackAuth.instructionType(method, path);
+
+    if (body !== undefined && body !== null && typeof body !== 'object') {
+      throw new Error(`Cannot sign a ${typeof body} request body, expected an object or an array of objects`);
+    }
+
+    const segments = Array.isArray(body) && body.length > 0
+      ? body.map(item => BackpackAuth.instructionSegment(instructionType, { ...params, ...item }))
+      : [BackpackAuth.instructionSegment(instructionType, { ...params, ...body })];
+
+    return `${segments.join('&')}&timestamp=${timestamp}&window=${window}`;
+  }
+
+  private static instructionSegment(instructionType: string, fields: Record<string, any>): string {
+    const sortedParams: string[] = [];
+    Object.keys(fields)
+      .sort()
+      .forEach(key => {
+        const value = fields[key];
+        if (value === undefined || value === null) return;
+        if (typeof value === 'object') {
+          throw new Error(`Cannot sign nested value for "${key}"; Backpack only signs flat fields`);
+        }
+        sortedParams.push(`${key}=${encodeURIComponent(value.toString())}`);
+      });
+
+    const queryString = sortedParams.join('&');
+    return `instruction=${instructionType}${queryString ? `&${queryString}` : ''}`;
+  }
+
+  signRequest(config: BackpackRequestConfig, timestamp: number, window: number): Record<string, string> {
+    const instruction = BackpackAuth.signingPayload(config, timestamp, window);
+
+    const secretKey = BackpackAuth.secretKeyFrom(this.credentials.privateKey);
+
     const messageBytes = new TextEncoder().encode(instruction);
     const signature = nacl.sign.detached(messageBytes, secretKey);
 
@@ -101,4 +128,49 @@ export class BackpackAuth {
       'Content-Type': 'application/json',
     };
   }
+
+  /**
+   * Counterpart to signRequest: rebuild the signing payload from the config
+   * and headers and check the signature against the public key, which
+   * defaults to the X-API-Key header. The timestamp window is not enforced.
+   */
+  static verifyRequest(
+    headers: Record<string, string | string[] | undefined>,
+    config: BackpackRequestConfig,
+    publicKey?: string
+  ): SignatureVerification {
+    const header = (name: string): string | undefined => {
+      const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+      const value = key !== undefined ? headers[key] : undefined;
+      return Array.isArray(value) ? value[0] : value;
+    };
+
+    const apiKey = publicKey ?? header('X-API-Key');
+    const signature = header('X-Signature');
+    const timestamp = Number(header('X-Timestamp'));
+    const window = Number(header('X-Window') ?? 5000);
+
+    if (!apiKey || !signature || isNaN(timestamp) || isNaN(window)) {
+      return { valid: false, payload: null, reason: 'Missing X-API-Key, X-Signature, X-Timestamp or X-Window header' };
+    }
+
+    const publicKeyBytes = Buffer.from(apiKey, 'base64');
+    const signatureBytes = Buffer.from(signature, 'base64');
+    if (publicKeyBytes.length !== nacl.sign.publicKeyLength) {
+      return { valid: false, payload: null, reason: `Public key must be ${nacl.sign.publicKeyLength} bytes, got ${publicKeyBytes.length}` };
+    }
+    if (signatureBytes.length !== nacl.sign.signatureLength) {
+      return { valid: false, payload: null, reason: `Signature must be ${nacl.sign.signatureLength} bytes, got ${signatureBytes.length}` };
+    }
+
+    let payload: string;
+    try {
+      payload = BackpackAuth.signingPayload(config, timestamp, window);
+    } catch (error) {
+      return { valid: false, payload: null, reason: error instanceof Error ? error.message : String(error) };
+    }
+
+    const valid = nacl.sign.detached.verify(new TextEncoder().encode(payload), signatureBytes, publicKeyBytes);
+    return valid ? { valid, payload } : { valid, payload, reason: 'Signature does not match payload' };
+  }
 }
\ No newline at end of file
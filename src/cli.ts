@@ -0,0 +1,164 @@
+import { RecordFilters } from './filters';
+
+export type OutputFormat = 'table' | 'json' | 'csv' | 'html';
+
+export const COMMANDS = ['summary', 'positions', 'funding', 'interest', 'balances', 'export', 'accounting', 'tax', 'sync', 'doctor', 'keystore', 'help'] as const;
+export type Command = typeof COMMANDS[number];
+
+export interface CommandLine {
+  command: Command;
+  args: string[]; // Positional arguments after the command, e.g. the keystore action
+  filters: RecordFilters;
+  format?: OutputFormat; // Each command has its own default
+  accountsFile?: string; // --accounts
+  accounts?: string[]; // --account, a comma-separated selection from the accounts file
+  profile?: string;
+  outDir?: string; // export, accounting and tax: write files here instead of printing
+  taxYear?: number; // tax: --year
+  yearStart?: string; // tax: --year-start, MM-DD
+  timeZone?: string; // tax: --timezone
+  includeTransfers: boolean; // summary and export: --include-transfers
+  offline: boolean;
+  online: boolean;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const USAGE = `Usage: npm run dev -- <command> [options]
+
+Commands:
+  summary     PnL breakdown, statistics, equity curve and per-account totals (default; --format html for a shareable page)
+  positions   Completed and open positions
+  funding     Funding payments with totals per symbol
+  interest    Interest history (UnrealizedPnl and Borrow/Lend)
+  balances    Account settings and balances
+  export      Positions and raw records for other tools (JSON or CSV; --out writes files)
+  accounting  CSV for portfolio/tax tools: accounting [ledger|koinly|cointracking] (--out writes files)
+  tax         Realized gains, funding and interest for one tax year (text, HTML, CSV or JSON)
+  sync        Update the local store without printing a report
+  doctor      Check credentials (--online also calls the API)
+  keystore    Manage encrypted credential profiles: import|list|remove|unlock <profile>
+  help        Show this help
+
+Options:
+  --symbol <symbol>        Market (SOL_USDC_PERP) or base asset (SOL)
+  --from <date>            Start date or time (ISO 8601 or epoch ms), inclusive
+  --to <date>              End date or time; a plain date includes the whole day (UTC)
+  --side <long|short>      Positions on one side only
+  --format <table|json|csv|html>
+                           html: summary (a self-contained report page) and tax only
+  --account <name[,name]>  Only these accounts from the accounts file
+  --accounts <file>        Accounts file (or BACKPACK_ACCOUNTS)
+  --profile <profile>      Keystore profile (or BACKPACK_PROFILE)
+  --out <dir>              export: write export.json, or one CSV file per record type, into a directory
+                           accounting: write <format>.csv (Koinly: one file per account) into a directory
+                           tax: write the CSV files and the text and HTML reports into a directory
+  --year <year>            tax: tax year, named after the calendar year it starts in
+  --year-start <MM-DD>     tax: first day of the tax year (or TAX_YEAR_START, default 01-01)
+  --timezone <zone>        tax: IANA time zone for the year boundary and dates (or TAX_TIMEZONE, default UTC)
+  --include-transfers      summary, export: add USDC deposits and withdrawals to the equity curve
+  --offline                Read the local store instead of calling the API
+  --online                 doctor: also check clock skew and make a signed request`;
+
+const VALUE_FLAGS = ['--symbol', '--from', '--to', '--side', '--format', '--account', '--accounts', '--profile', '--out', '--year', '--year-start', '--timezone'];
+const BOOLEAN_FLAGS = ['--offline', '--online', '--sync', '--help', '--include-transfers'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseCommandLine(argv: string[]): CommandLine {
+  const values: { [flag: string]: string } = {};
+  const booleans = new Set<string>();
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (VALUE_FLAGS.includes(arg)) {
+      const value = argv[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new CliUsageError(`${arg} needs a value`);
+      }
+      values[arg] = value;
+    } else if (BOOLEAN_FLAGS.includes(arg)) {
+      booleans.add(arg);
+    } else if (arg.startsWith('--')) {
+      throw new CliUsageError(`Unknown option ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  // --sync is the older spelling of the sync command
+  let command: Command = booleans.has('--sync') ? 'sync' : 'summary';
+  if (booleans.has('--help')) {
+    command = 'help';
+  } else if (positional.length > 0) {
+    const name = positional.shift() as Command;
+    if (!COMMANDS.includes(name)) {
+      throw new CliUsageError(`Unknown command "${name}"`);
+    }
+    command = name;
+  }
+
+  const filters: RecordFilters = {
+    symbol: values['--symbol'],
+    from: values['--from'] !== undefined ? parseDateOption(values['--from'], '--from', false) : undefined,
+    to: values['--to'] !== undefined ? parseDateOption(values['--to'], '--to', true) : undefined,
+    side: values['--side'] !== undefined ? parseSide(values['--side']) : undefined
+  };
+  if (filters.from !== undefined && filters.to !== undefined && filters.from > filters.to) {
+    throw new CliUsageError('--from must not be after --to');
+  }
+
+  const format = values['--format'];
+  if (format !== undefined && !['table', 'json', 'csv', 'html'].includes(format)) {
+    throw new CliUsageError(`Unknown format "${format}": use table, json, csv or html`);
+  }
+
+  const year = values['--year'];
+  if (year !== undefined && !/^\d{4}$/.test(year)) {
+    throw new CliUsageError(`--year must be a four-digit year, got "${year}"`);
+  }
+
+  return {
+    command,
+    args: positional,
+    filters,
+    format: format as OutputFormat | undefined,
+    accountsFile: values['--accounts'],
+    accounts: values['--account']?.split(',').map(name => name.trim()).filter(name => name !== ''),
+    profile: values['--profile'],
+    outDir: values['--out'],
+    taxYear: year !== undefined ? Number(year) : undefined,
+    yearStart: values['--year-start'],
+    timeZone: values['--timezone'],
+    includeTransfers: booleans.has('--include-transfers'),
+    offline: booleans.has('--offline'),
+    online: booleans.has('--online')
+  };
+}
+
+/**
+ * Epoch milliseconds, a date (YYYY-MM-DD, UTC) or any ISO 8601 date-time.
+ * A plain date used as an end bound covers the whole day.
+ */
+export function parseDateOption(value: string, flag: string, endOfDay: boolean): number {
+  if (/^\d+$/.test(value)) return Number(value);
+
+  const millis = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value);
+  if (isNaN(millis)) {
+    throw new CliUsageError(`${flag}: "${value}" is not a date, ISO 8601 time or epoch milliseconds`);
+  }
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? millis + DAY_MS - 1 : millis;
+}
+
+function parseSide(value: string): 'Long' | 'Short' {
+  switch (value.toLowerCase()) {
+    case 'long': return 'Long';
+    case 'short': return 'Short';
+    default: throw new CliUsageError(`--side must be long or short, got "${value}"`);
+  }
+}
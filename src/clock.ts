@@ -0,0 +1,48 @@
+export const DEFAULT_WINDOW_MS = 5000;
+export const MAX_WINDOW_MS = 60000; // Largest receive window Backpack accepts
+
+export interface TimeSyncOptions {
+  enabled?: boolean; // Sign with server time instead of the local clock, defaults to false
+  refreshIntervalMs?: number; // Re-read the server time after this long, defaults to 5 minutes
+}
+
+/**
+ * Local estimate of the exchange clock: the local time plus an offset
+ * measured against the server. Until the first sync the offset is zero,
+ * so now() is the local clock.
+ */
+export class ServerClock {
+  private offsetMs = 0;
+  private syncedAt: number | null = null;
+
+  constructor(readonly refreshIntervalMs: number = 5 * 60 * 1000) {}
+
+  /**
+   * Server time minus local time, in milliseconds.
+   */
+  get offset(): number {
+    return this.offsetMs;
+  }
+
+  get synced(): boolean {
+    return this.syncedAt !== null;
+  }
+
+  get stale(): boolean {
+    return this.syncedAt === null || Date.now() - this.syncedAt >= this.refreshIntervalMs;
+  }
+
+  now(): number {
+    return Date.now() + this.offsetMs;
+  }
+
+  /**
+   * Record a server time reading. The server is assumed to have read its
+   * clock halfway through the round trip.
+   */
+  update(serverTime: number, sentAt: number, receivedAt: number): number {
+    this.offsetMs = Math.round(serverTime - (sentAt + receivedAt) / 2);
+    this.syncedAt = receivedAt;
+    return this.offsetMs;
+  }
+}
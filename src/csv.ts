@@ -0,0 +1,20 @@
+import { Decimal } from './decimal';
+
+export type CSVValue = string | number | boolean | Decimal | null | undefined;
+
+/**
+ * RFC 4180 CSV with a header row. Fields containing commas, quotes or line
+ * breaks are quoted; strings and decimals are written as-is and numbers in
+ * plain notation (0.0000001, not 1e-7), never rounded; null and undefined
+ * become empty fields.
+ */
+export function toCSV(header: string[], rows: CSVValue[][]): string {
+  return [header, ...rows].map(row => row.map(escapeField).join(',')).join('\n') + '\n';
+}
+
+function escapeField(value: CSVValue): string {
+  if (value === null || value === undefined) return '';
+
+  const text = typeof value === 'number' && isFinite(value) ? Decimal.from(value).toString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,218 @@
+/**
+ * Exact decimal arithmetic on top of BigInt.
+ *
+ * Backpack returns quantities, prices and fees as decimal strings. Parsing
+ * them with parseFloat loses precision, so position tracking and PnL are
+ * computed with this type and only converted to numbers for display.
+ */
+export class Decimal {
+  // Fractional digits kept when a division does not terminate
+  static readonly DIVISION_SCALE = 18;
+
+  static readonly ZERO = new Decimal(0n, 0);
+
+  private static readonly PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+  private constructor(
+    private readonly coefficient: bigint,
+    private readonly scale: number
+  ) {}
+
+  static from(value: string | number | Decimal): Decimal {
+    if (value instanceof Decimal) return value;
+
+    if (typeof value === 'number') {
+      if (!isFinite(value)) {
+        throw new Error(`Cannot convert ${value} to a decimal`);
+      }
+      // Shortest round-trip representation of the double
+      value = value.toString();
+    }
+
+    const match = Decimal.PATTERN.exec(value.trim());
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid decimal value: "${value}"`);
+    }
+
+    const [, sign, integerPart = '', fractionPart = '', exponentPart] = match;
+    const exponent = exponentPart ? parseInt(exponentPart, 10) : 0;
+    let coefficient = BigInt((integerPart + fractionPart) || '0');
+    let scale = fractionPart.length - exponent;
+
+    if (scale < 0) {
+      coefficient *= Decimal.pow10(-scale);
+      scale = 0;
+    }
+
+    return new Decimal(sign === '-' ? -coefficient : coefficient, scale).normalize();
+  }
+
+  static sum(values: Array<string | number | Decimal>): Decimal {
+    return values.reduce<Decimal>((total, value) => total.add(value), Decimal.ZERO);
+  }
+
+  static max(a: Decimal, b: Decimal): Decimal {
+    return a.gte(b) ? a : b;
+  }
+
+  static min(a: Decimal, b: Decimal): Decimal {
+    return a.lte(b) ? a : b;
+  }
+
+  add(other: string | number | Decimal): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a + b, scale).normalize();
+  }
+
+  sub(other: string | number | Decimal): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a - b, scale).normalize();
+  }
+
+  mul(other: string | number | Decimal): Decimal {
+    const b = Decimal.from(other);
+    return new Decimal(this.coefficient * b.coefficient, this.scale + b.scale).normalize();
+  }
+
+  /**
+   * Divide, rounding half away from zero to `scale` fractional digits.
+   */
+  div(other: string | number | Decimal, scale: number = Decimal.DIVISION_SCALE): Decimal {
+    const b = Decimal.from(other);
+    if (b.isZero()) {
+      throw new Error('Division by zero');
+    }
+
+    // (ca / 10^sa) / (cb / 10^sb) = ca * 10^sb / (cb * 10^sa)
+    const numerator = this.coefficient * Decimal.pow10(b.scale + scale);
+    const denominator = b.coefficient * Decimal.pow10(this.scale);
+    return new Decimal(Decimal.divideRounded(numerator, denominator), scale).normalize();
+  }
+
+  neg(): Decimal {
+    return new Decimal(-this.coefficient, this.scale);
+  }
+
+  abs(): Decimal {
+    return this.coefficient < 0n ? this.neg() : this;
+  }
+
+  sign(): -1 | 0 | 1 {
+    if (this.coefficient === 0n) return 0;
+    return this.coefficient > 0n ? 1 : -1;
+  }
+
+  isZero(): boolean {
+    return this.coefficient === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.coefficient < 0n;
+  }
+
+  cmp(other: string | number | Decimal): -1 | 0 | 1 {
+    const [a, b] = Decimal.align(this, Decimal.from(other));
+    if (a === b) return 0;
+    return a > b ? 1 : -1;
+  }
+
+  eq(other: string | number | Decimal): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  gt(other: string | number | Decimal): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: string | number | Decimal): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  lt(other: string | number | Decimal): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: string | number | Decimal): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  /**
+   * Round half away from zero to `decimals` fractional digits.
+   */
+  round(decimals: number): Decimal {
+    if (this.scale <= decimals) return this;
+    const divisor = Decimal.pow10(this.scale - decimals);
+    return new Decimal(Decimal.divideRounded(this.coefficient, divisor), decimals).normalize();
+  }
+
+  toFixed(decimals: number): string {
+    const rounded = this.round(decimals);
+    const padded = new Decimal(
+      rounded.coefficient * Decimal.pow10(decimals - rounded.scale),
+      decimals
+    );
+    return padded.format();
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  toJSON(): string {
+    return this.format();
+  }
+
+  private format(): string {
+    const negative = this.coefficient < 0n;
+    let digits = (negative ? -this.coefficient : this.coefficient).toString();
+
+    if (this.scale > 0) {
+      digits = digits.padStart(this.scale + 1, '0');
+      digits = `${digits.slice(0, -this.scale)}.${digits.slice(-this.scale)}`;
+    }
+
+    return negative ? `-${digits}` : digits;
+  }
+
+  private normalize(): Decimal {
+    // Strip trailing fractional zeros so equal values share one representation
+    let coefficient = this.coefficient;
+    let scale = this.scale;
+    while (scale > 0 && coefficient % 10n === 0n) {
+      coefficient /= 10n;
+      scale--;
+    }
+
+    return scale === this.scale ? this : new Decimal(coefficient, scale);
+  }
+
+  private static align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(a.scale, b.scale);
+    return [
+      a.coefficient * Decimal.pow10(scale - a.scale),
+      b.coefficient * Decimal.pow10(scale - b.scale),
+      scale
+    ];
+  }
+
+  private static divideRounded(numerator: bigint, denominator: bigint): bigint {
+    let quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    const absRemainder = remainder < 0n ? -remainder : remainder;
+    const absDenominator = denominator < 0n ? -denominator : denominator;
+
+    if (absRemainder * 2n >= absDenominator) {
+      quotient += (numerator < 0n) !== (denominator < 0n) ? -1n : 1n;
+    }
+
+    return quotient;
+  }
+
+  private static pow10(exponent: number): bigint {
+    return 10n ** BigInt(exponent);
+  }
+}
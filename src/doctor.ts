@@ -0,0 +1,149 @@
+import * as nacl from 'tweetnacl';
+import { BackpackAPI } from './api';
+import { BackpackAuth } from './auth';
+import { BackpackApiError, BackpackAuthError } from './errors';
+import { BackpackCredentials } from './types';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface DoctorReport {
+  checks: DoctorCheck[];
+  ok: boolean; // No failed checks
+  clockSkewMs: number | null; // Server time minus local time, when checked online
+}
+
+export interface DoctorOptions {
+  api?: BackpackAPI; // Makes one signed call and measures clock skew when given
+  window?: number; // Signing window the skew is compared against, defaults to the client's window
+}
+
+export class CredentialDoctor {
+  private static readonly SKEW_WARNING_MS = 1000;
+
+  /**
+   * Validate credentials locally: both keys decode, the private key has a
+   * length signRequest accepts, and it derives the API key (Backpack API
+   * keys are the base64 ED25519 public key). With an API client, also
+   * confirm the keys against the server.
+   */
+  static async check(credentials: Partial<BackpackCredentials>, options: DoctorOptions = {}): Promise<DoctorReport> {
+    const checks: DoctorCheck[] = [];
+    let clockSkewMs: number | null = null;
+
+    const apiKey = this.decodeBase64(credentials.apiKey);
+    if (apiKey === null) {
+      checks.push({ name: 'API key', status: 'fail', detail: credentials.apiKey ? 'Not valid base64' : 'BACKPACK_API_KEY is not set' });
+    } else if (apiKey.length !== nacl.sign.publicKeyLength) {
+      checks.push({ name: 'API key', status: 'fail', detail: `Decodes to ${apiKey.length} bytes, expected a ${nacl.sign.publicKeyLength}-byte ED25519 public key` });
+    } else {
+      checks.push({ name: 'API key', status: 'pass', detail: `${apiKey.length}-byte ED25519 public key` });
+    }
+
+    const privateKey = this.decodeBase64(credentials.privateKey);
+    let derivedPublicKey: string | null = null;
+    if (privateKey === null) {
+      checks.push({ name: 'Private key', status: 'fail', detail: credentials.privateKey ? 'Not valid base64' : 'BACKPACK_PRIVATE_KEY is not set' });
+    } else if (privateKey.length !== 32 && privateKey.length !== 64) {
+      checks.push({ name: 'Private key', status: 'fail', detail: `Decodes to ${privateKey.length} bytes, expected a 32-byte seed or 64-byte secret key` });
+    } else {
+      derivedPublicKey = BackpackAuth.publicKeyFor(credentials.privateKey as string);
+      checks.push({ name: 'Private key', status: 'pass', detail: privateKey.length === 32 ? '32-byte seed' : '64-byte secret key' });
+
+      // A 64-byte key embeds its public key; it must match the seed half
+      if (privateKey.length === 64) {
+        const fromSeed = Buffer.from(nacl.sign.keyPair.fromSeed(privateKey.subarray(0, 32)).publicKey).toString('base64');
+        checks.push(fromSeed === derivedPublicKey
+          ? { name: 'Secret key halves', status: 'pass', detail: 'Embedded public key matches the seed' }
+          : { name: 'Secret key halves', status: 'fail', detail: 'Embedded public key does not match the seed; the key is corrupted' });
+      }
+    }
+
+    if (derivedPublicKey === null || apiKey === null) {
+      checks.push({ name: 'Key pair', status: 'skip', detail: 'Needs a valid API key and private key' });
+    } else if (derivedPublicKey === credentials.apiKey?.trim()) {
+      checks.push({ name: 'Key pair', status: 'pass', detail: 'Private key derives the API key' });
+    } else {
+      checks.push({ name: 'Key pair', status: 'fail', detail: `Private key derives ${derivedPublicKey}, not the configured API key` });
+    }
+
+    const locallyValid = checks.every(check => check.status !== 'fail');
+    if (!options.api) {
+      checks.push({ name: 'Signed request', status: 'skip', detail: 'Run with --online to call the API' });
+    } else if (!locallyValid) {
+      checks.push({ name: 'Signed request', status: 'skip', detail: 'Fix the failures above first' });
+    } else {
+      clockSkewMs = await this.checkClock(options.api, options.window ?? options.api.window, checks);
+      await this.checkSignedRequest(options.api, checks);
+    }
+
+    return { checks, ok: checks.every(check => check.status !== 'fail'), clockSkewMs };
+  }
+
+  private static async checkClock(api: BackpackAPI, window: number, checks: DoctorCheck[]): Promise<number | null> {
+    try {
+      const sentAt = Date.now();
+      const serverTime = await api.getServerTime();
+      const receivedAt = Date.now();
+
+      // Compare against the midpoint of the round trip
+      const skew = Math.round(serverTime - (sentAt + receivedAt) / 2);
+      const detail = `Local clock is ${Math.abs(skew)}ms ${skew > 0 ? 'behind' : 'ahead of'} the server (round trip ${receivedAt - sentAt}ms)`;
+
+      if (Math.abs(skew) >= window) {
+        // The client recovers by re-syncing on the first expired request, at the cost of a retry
+        checks.push({ name: 'Clock skew', status: 'warn', detail: `${detail}; outside the ${window}ms window, so set BACKPACK_TIME_SYNC=1 or fix the system clock` });
+      } else if (Math.abs(skew) >= this.SKEW_WARNING_MS) {
+        checks.push({ name: 'Clock skew', status: 'warn', detail });
+      } else {
+        checks.push({ name: 'Clock skew', status: 'pass', detail });
+      }
+      return skew;
+    } catch (error) {
+      checks.push({ name: 'Clock skew', status: 'warn', detail: `Could not read server time: ${error instanceof Error ? error.message : error}` });
+      return null;
+    }
+  }
+
+  private static async checkSignedRequest(api: BackpackAPI, checks: DoctorCheck[]): Promise<void> {
+    try {
+      await api.getAccount();
+      checks.push({ name: 'Signed request', status: 'pass', detail: 'GET /api/v1/account accepted the signature' });
+    } catch (error) {
+      const detail = error instanceof BackpackAuthError
+        ? `API rejected the keys: ${error.apiMessage || error.message}`
+        : error instanceof BackpackApiError ? error.message : String(error);
+      checks.push({ name: 'Signed request', status: 'fail', detail });
+    }
+  }
+
+  /**
+   * Strict base64 decoding; Buffer.from silently drops invalid characters.
+   */
+  private static decodeBase64(value: string | undefined): Buffer | null {
+    if (!value) return null;
+
+    const trimmed = value.trim();
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(trimmed) || trimmed.length % 4 !== 0) return null;
+    return Buffer.from(trimmed, 'base64');
+  }
+}
+
+export function formatDoctorReportForCLI(report: DoctorReport): string {
+  const icons: { [status in CheckStatus]: string } = {
+    pass: '\x1b[32m✓\x1b[0m',
+    warn: '\x1b[33m!\x1b[0m',
+    fail: '\x1b[31m✗\x1b[0m',
+    skip: '-'
+  };
+
+  const lines = report.checks.map(check => `${icons[check.status]} ${check.name}: ${check.detail}`);
+  lines.push('');
+  lines.push(report.ok ? '\x1b[32mCredentials look good.\x1b[0m' : '\x1b[31mCredential problems found.\x1b[0m');
+  return lines.join('\n');
+}
@@ -0,0 +1,202 @@
+import {
+  BackpackAccount,
+  BackpackBalance,
+  BackpackDeposit,
+  BackpackFill,
+  BackpackFundingHistory,
+  BackpackFundingPayment,
+  BackpackInterestHistory,
+  BackpackOpenPosition,
+  BackpackOrder,
+  BackpackPosition,
+  BackpackRequestConfig,
+  BackpackSettlement,
+  BackpackWithdrawal,
+  MarketType,
+  PaginationParams
+} from './types';
+
+export type HttpMethod = BackpackRequestConfig['method'];
+
+// 'offset' endpoints accept limit/offset and can be driven by the Paginator
+export type PaginationStyle = 'offset' | 'none';
+
+// Server-side filters besides from/to; callers filter anything else in memory
+export type HistoryFilter = 'symbol' | 'marketType';
+
+export interface Endpoint<P = Record<string, any>, R = unknown> {
+  method: HttpMethod;
+  path: string;
+  instruction: string; // Signed as instruction=<name>
+  pagination: PaginationStyle;
+  signed?: boolean; // Defaults to true; public endpoints are sent without auth headers
+  defaultParams?: Partial<P>;
+  filters?: ReadonlyArray<HistoryFilter>;
+  maxRangeMs?: number; // Longer from/to ranges are split into windows; BackpackAPIOptions.maxRangeMs overrides
+  // Type-only markers for the params and response; never set at runtime
+  readonly __params?: P;
+  readonly __response?: R;
+}
+
+export type HistoryParams = PaginationParams & { symbol?: string; marketType?: MarketType; sortDirection?: 'Asc' | 'Desc' };
+export type PositionHistoryParams = PaginationParams & { symbol?: string; subaccountId?: number; state?: string };
+export type NoParams = Record<string, never>;
+
+export interface OrderExecuteParams {
+  symbol: string;
+  side: 'Bid' | 'Ask';
+  orderType: 'Limit' | 'Market';
+  quantity?: string;
+  quoteQuantity?: string;
+  price?: string;
+  triggerPrice?: string;
+  timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  clientId?: number;
+}
+
+export interface OrderCancelParams {
+  symbol: string;
+  orderId?: string;
+  clientId?: number;
+}
+
+export interface OrderCancelAllParams {
+  symbol: string;
+}
+
+export interface WithdrawParams {
+  address: string;
+  blockchain: string;
+  quantity: string;
+  symbol: string;
+  clientId?: string;
+  twoFactorToken?: string;
+}
+
+export interface AccountUpdateParams {
+  autoBorrowSettlements?: boolean;
+  autoLend?: boolean;
+  autoRepayBorrows?: boolean;
+  leverageLimit?: string;
+}
+
+// Default window for trade history ranges; a conservative span per request, not a documented API limit
+const HISTORY_MAX_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function defineEndpoint<P, R>(endpoint: Endpoint<P, R>): Endpoint<P, R> {
+  return endpoint;
+}
+
+/**
+ * Every Backpack endpoint this client calls. Signing and request building
+ * both resolve endpoints here, so adding an endpoint is one entry.
+ */
+export const ENDPOINTS = {
+  fills: defineEndpoint<HistoryParams, BackpackFill[]>({
+    method: 'GET', path: '/wapi/v1/history/fills', instruction: 'fillHistoryQueryAll', pagination: 'offset',
+    defaultParams: { sortDirection: 'Asc' }, filters: ['symbol', 'marketType'], maxRangeMs: HISTORY_MAX_RANGE_MS
+  }),
+  orders: defineEndpoint<HistoryParams, BackpackOrder[]>({
+    method: 'GET', path: '/wapi/v1/history/orders', instruction: 'orderHistoryQueryAll', pagination: 'offset',
+    defaultParams: { sortDirection: 'Asc' }, filters: ['symbol', 'marketType'], maxRangeMs: HISTORY_MAX_RANGE_MS
+  }),
+  fundingPayments: defineEndpoint<HistoryParams, BackpackFundingPayment[]>({
+    method: 'GET', path: '/wapi/v1/history/fundingPayments', instruction: 'fundingPayments', pagination: 'offset',
+    filters: ['symbol'], maxRangeMs: HISTORY_MAX_RANGE_MS
+  }),
+  settlements: defineEndpoint<HistoryParams, BackpackSettlement[]>({
+    method: 'GET', path: '/wapi/v1/history/settlement', instruction: 'settlement', pagination: 'offset',
+    maxRangeMs: HISTORY_MAX_RANGE_MS
+  }),
+  fundingHistory: defineEndpoint<HistoryParams, BackpackFundingHistory[]>({
+    method: 'GET', path: '/wapi/v1/history/funding', instruction: 'fundingHistoryQueryAll', pagination: 'offset',
+    filters: ['symbol'], maxRangeMs: HISTORY_MAX_RANGE_MS
+  }),
+  positions: defineEndpoint<PositionHistoryParams, BackpackPosition[]>({
+    method: 'GET', path: '/wapi/v1/history/position', instruction: 'positionHistoryQueryAll', pagination: 'offset'
+  }),
+  interestHistory: defineEndpoint<HistoryParams, BackpackInterestHistory[]>({
+    method: 'GET', path: '/wapi/v1/history/interest', instruction: 'interestHistoryQueryAll', pagination: 'offset',
+    maxRangeMs: HISTORY_MAX_RANGE_MS // symbol filters by asset (USDC), not market
+  }),
+  deposits: defineEndpoint<HistoryParams, BackpackDeposit[]>({
+    method: 'GET', path: '/wapi/v1/capital/deposits', instruction: 'depositQueryAll', pagination: 'offset'
+  }),
+  withdrawals: defineEndpoint<HistoryParams, BackpackWithdrawal[]>({
+    method: 'GET', path: '/wapi/v1/capital/withdrawals', instruction: 'withdrawalQueryAll', pagination: 'offset'
+  }),
+  balances: defineEndpoint<NoParams, BackpackBalance>({
+    method: 'GET', path: '/api/v1/capital', instruction: 'balanceQuery', pagination: 'none'
+  }),
+  account: defineEndpoint<NoParams, BackpackAccount>({
+    method: 'GET', path: '/api/v1/account', instruction: 'accountQuery', pagination: 'none'
+  }),
+  openPositions: defineEndpoint<NoParams, BackpackOpenPosition[]>({
+    method: 'GET', path: '/api/v1/position', instruction: 'positionQuery', pagination: 'none'
+  }),
+
+  time: defineEndpoint<NoParams, number>({
+    method: 'GET', path: '/api/v1/time', instruction: '', pagination: 'none', signed: false
+  }),
+
+  // Write endpoints; params are sent and signed as the JSON body
+  orderExecute: defineEndpoint<OrderExecuteParams, BackpackOrder>({
+    method: 'POST', path: '/api/v1/order', instruction: 'orderExecute', pagination: 'none'
+  }),
+  orderExecuteBatch: defineEndpoint<OrderExecuteParams[], BackpackOrder[]>({
+    method: 'POST', path: '/api/v1/orders', instruction: 'orderExecute', pagination: 'none'
+  }),
+  orderCancel: defineEndpoint<OrderCancelParams, BackpackOrder>({
+    method: 'DELETE', path: '/api/v1/order', instruction: 'orderCancel', pagination: 'none'
+  }),
+  orderCancelAll: defineEndpoint<OrderCancelAllParams, BackpackOrder[]>({
+    method: 'DELETE', path: '/api/v1/orders', instruction: 'orderCancelAll', pagination: 'none'
+  }),
+  withdraw: defineEndpoint<WithdrawParams, BackpackWithdrawal>({
+    method: 'POST', path: '/wapi/v1/capital/withdrawals', instruction: 'withdraw', pagination: 'none'
+  }),
+  accountUpdate: defineEndpoint<AccountUpdateParams, void>({
+    method: 'PATCH', path: '/api/v1/account', instruction: 'accountUpdate', pagination: 'none'
+  }),
+
+  // Alternative interest paths, probed when /wapi/v1/history/interest fails
+  interestHistoryV1: defineEndpoint<HistoryParams, BackpackInterestHistory[]>({
+    method: 'GET', path: '/api/v1/history/interest', instruction: 'interestHistoryQuery', pagination: 'offset'
+  }),
+  capitalInterest: defineEndpoint<HistoryParams, BackpackInterestHistory[]>({
+    method: 'GET', path: '/wapi/v1/capital/interest', instruction: 'interestQueryAll', pagination: 'offset'
+  }),
+  capitalInterestV1: defineEndpoint<HistoryParams, BackpackInterestHistory[]>({
+    method: 'GET', path: '/api/v1/capital/interest', instruction: 'interestQuery', pagination: 'offset'
+  })
+};
+
+export type EndpointName = keyof typeof ENDPOINTS;
+export type EndpointParams<K extends EndpointName> = typeof ENDPOINTS[K] extends Endpoint<infer P, any> ? P : never;
+export type EndpointResponse<K extends EndpointName> = typeof ENDPOINTS[K] extends Endpoint<any, infer R> ? R : never;
+export type PaginatedEndpointName = {
+  [K in EndpointName]: EndpointResponse<K> extends any[] ? EndpointParams<K> extends PaginationParams ? K : never : never
+}[EndpointName];
+
+export class UnknownEndpointError extends Error {
+  constructor(readonly method: string, readonly path: string) {
+    super(`No endpoint registered for ${method} ${path}. Add it to ENDPOINTS in src/endpoints.ts.`);
+    this.name = 'UnknownEndpointError';
+  }
+}
+
+export function findEndpoint(method: string, path: string): Endpoint | undefined {
+  return (Object.values(ENDPOINTS) as Endpoint[]).find(
+    endpoint => endpoint.method === method.toUpperCase() && endpoint.path === path
+  );
+}
+
+export function getEndpoint(method: string, path: string): Endpoint {
+  const endpoint = findEndpoint(method, path);
+  if (!endpoint) {
+    throw new UnknownEndpointError(method, path);
+  }
+  return endpoint;
+}
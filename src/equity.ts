@@ -0,0 +1,287 @@
+import { BackpackDeposit, BackpackWithdrawal } from './types';
+import { PositionAnalysis, PositionReconstructor } from './analysis';
+import { Decimal } from './decimal';
+import { toCSV } from './csv';
+
+export interface EquityCurveOptions {
+  includeFees?: boolean; // Subtract trading fees from each closed position
+  includeFunding?: boolean; // Add every funding payment at its timestamp
+  includeTransfers?: boolean; // Add USDC deposits and withdrawals as cash flows
+  deposits?: BackpackDeposit[]; // Used with includeTransfers
+  withdrawals?: BackpackWithdrawal[];
+}
+
+export type EquityEventType = 'position' | 'funding' | 'deposit' | 'withdrawal';
+
+export interface EquityPoint {
+  timestamp: Date;
+  type: EquityEventType;
+  label: string;
+  change: number;
+  equity: number;
+  peak: number; // High-water mark, shifted by deposits and withdrawals
+  drawdown: number; // peak - equity
+  drawdownPercent: number | null; // Of the peak; null while the peak is not positive
+}
+
+export interface DrawdownStatistics {
+  maxDrawdown: number;
+  maxDrawdownPercent: number | null; // Deepest percentage, not necessarily at the deepest dollar drawdown
+  peakTime: Date | null; // Start of the maximum drawdown
+  troughTime: Date | null;
+  recoveryTime: Date | null; // null if equity has not recovered yet
+  drawdownDurationMs: number; // Peak to recovery, or to the last point if not recovered
+  recoveryDurationMs: number | null; // Trough to recovery
+  currentDrawdown: number;
+}
+
+export interface EquityCurve {
+  points: EquityPoint[];
+  finalEquity: number;
+  drawdown: DrawdownStatistics;
+}
+
+interface EquityEvent {
+  timestamp: Date;
+  type: EquityEventType;
+  label: string;
+  change: Decimal;
+}
+
+export const EQUITY_CURVE_COLUMNS = ['timestamp', 'type', 'label', 'change', 'equity', 'peak', 'drawdown', 'drawdown_percent'];
+
+export class EquityCurveBuilder {
+  // PnL, fees and funding are settled in USDC, so only USDC transfers move equity
+  private static readonly CASH_SYMBOL = 'USDC';
+  private static readonly FAILED_STATUS = /fail|cancel|reject/i;
+
+  /**
+   * Cumulative PnL over time from closed positions, optionally including
+   * fees and funding. Without transfers drawdowns are in dollars of PnL;
+   * with them equity starts from the deposits, so a percentage is meaningful.
+   */
+  static build(analysis: PositionAnalysis, options: EquityCurveOptions = {}): EquityCurve {
+    const events = this.collectEvents(analysis, options);
+    const points: EquityPoint[] = [];
+    let equity = Decimal.ZERO;
+    let peak = equity;
+
+    for (const event of events) {
+      equity = equity.add(event.change);
+
+      // Deposits and withdrawals move the high-water mark with them, so
+      // paying money in is not a gain and taking it out is not a drawdown
+      const isCashFlow = event.type === 'deposit' || event.type === 'withdrawal';
+      peak = isCashFlow ? peak.add(event.change) : Decimal.max(peak, equity);
+
+      const drawdown = Decimal.max(peak.sub(equity), Decimal.ZERO);
+      points.push({
+        timestamp: event.timestamp,
+        type: event.type,
+        label: event.label,
+        change: event.change.toNumber(),
+        equity: equity.toNumber(),
+        peak: peak.toNumber(),
+        drawdown: drawdown.toNumber(),
+        drawdownPercent: peak.sign() > 0 ? drawdown.mul(100).div(peak).toNumber() : null
+      });
+    }
+
+    return {
+      points,
+      finalEquity: equity.toNumber(),
+      drawdown: this.drawdownStatistics(points)
+    };
+  }
+
+  private static collectEvents(analysis: PositionAnalysis, options: EquityCurveOptions): EquityEvent[] {
+    const events: EquityEvent[] = [];
+
+    for (const position of analysis.completedPositions) {
+      const change = Decimal.from(position.realizedPnl);
+      events.push({
+        timestamp: position.exitTime,
+        type: 'position',
+        label: `${position.account ? `${position.account} ` : ''}#${position.id} ${position.side} ${position.symbol}`,
+        change: options.includeFees ? change.sub(position.totalFees) : change
+      });
+    }
+
+    if (options.includeFunding) {
+      const funding = [
+        ...analysis.completedPositions.flatMap(p => p.funding),
+        ...analysis.openPositions.flatMap(p => p.funding),
+        ...analysis.unattributedFunding
+      ];
+      for (const payment of funding) {
+        events.push({
+          timestamp: payment.timestamp,
+          type: 'funding',
+          label: `Funding ${payment.symbol}`,
+          change: Decimal.from(payment.amount)
+        });
+      }
+    }
+
+    if (options.includeTransfers) {
+      for (const deposit of options.deposits || []) {
+        if (deposit.symbol !== this.CASH_SYMBOL || this.FAILED_STATUS.test(deposit.status)) continue;
+        events.push({
+          timestamp: new Date(deposit.timestamp),
+          type: 'deposit',
+          label: `Deposit ${deposit.symbol}`,
+          change: Decimal.from(deposit.quantity)
+        });
+      }
+
+      for (const withdrawal of options.withdrawals || []) {
+        if (withdrawal.symbol !== this.CASH_SYMBOL || this.FAILED_STATUS.test(withdrawal.status)) continue;
+        events.push({
+          timestamp: new Date(withdrawal.timestamp),
+          type: 'withdrawal',
+          label: `Withdrawal ${withdrawal.symbol}`,
+          change: Decimal.from(withdrawal.quantity).add(withdrawal.fee || '0').neg()
+        });
+      }
+    }
+
+    return events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  private static drawdownStatistics(points: EquityPoint[]): DrawdownStatistics {
+    const last = points[points.length - 1];
+    const empty: DrawdownStatistics = {
+      maxDrawdown: 0,
+      maxDrawdownPercent: null,
+      peakTime: null,
+      troughTime: null,
+      recoveryTime: null,
+      drawdownDurationMs: 0,
+      recoveryDurationMs: null,
+      currentDrawdown: last ? last.drawdown : 0
+    };
+
+    // Find the deepest point
+    let troughIndex = -1;
+    for (let i = 0; i < points.length; i++) {
+      if (points[i].drawdown > 0 && (troughIndex < 0 || points[i].drawdown > points[troughIndex].drawdown)) {
+        troughIndex = i;
+      }
+    }
+    if (troughIndex < 0) return empty;
+
+    const trough = points[troughIndex];
+    const percents = points.flatMap(point => point.drawdownPercent !== null ? [point.drawdownPercent] : []);
+
+    // The drawdown started at the last point before the trough without one
+    let peakIndex = troughIndex;
+    while (peakIndex > 0 && points[peakIndex].drawdown > 0) {
+      peakIndex--;
+    }
+    const peakTime = points[peakIndex].drawdown > 0 ? null : points[peakIndex].timestamp;
+
+    // Recovered once drawdown is back to zero
+    let recoveryIndex = -1;
+    for (let i = troughIndex + 1; i < points.length; i++) {
+      if (points[i].drawdown <= 0) {
+        recoveryIndex = i;
+        break;
+      }
+    }
+    const recoveryTime = recoveryIndex >= 0 ? points[recoveryIndex].timestamp : null;
+    const start = peakTime || points[0].timestamp;
+    const end = recoveryTime || last.timestamp;
+
+    return {
+      maxDrawdown: trough.drawdown,
+      maxDrawdownPercent: percents.length > 0 ? Math.max(...percents) : null,
+      peakTime,
+      troughTime: trough.timestamp,
+      recoveryTime,
+      drawdownDurationMs: end.getTime() - start.getTime(),
+      recoveryDurationMs: recoveryTime ? recoveryTime.getTime() - trough.timestamp.getTime() : null,
+      currentDrawdown: last.drawdown
+    };
+  }
+}
+
+/**
+ * Compact one-line chart of a series using block characters.
+ */
+export function renderSparkline(values: number[], width: number = 60): string {
+  if (values.length === 0) return '';
+
+  const blocks = '▁▂▃▄▅▆▇█';
+  let samples = values;
+
+  // Downsample to the last value of each bucket
+  if (values.length > width) {
+    samples = [];
+    for (let i = 0; i < width; i++) {
+      const end = Math.floor(((i + 1) * values.length) / width) - 1;
+      samples.push(values[end]);
+    }
+  }
+
+  const min = Math.min(...samples);
+  const max = Math.max(...samples);
+  const range = max - min;
+
+  return samples
+    .map(value => blocks[range > 0 ? Math.round(((value - min) / range) * (blocks.length - 1)) : 0])
+    .join('');
+}
+
+export function formatEquityCurveForCLI(curve: EquityCurve): string {
+  if (curve.points.length === 0) return 'No equity data to display.';
+
+  const { drawdown } = curve;
+  const first = curve.points[0].timestamp;
+  const last = curve.points[curve.points.length - 1].timestamp;
+  const formatMs = (ms: number | null): string => ms === null ? 'Not recovered' : PositionReconstructor.formatDuration(ms);
+
+  return [
+    renderSparkline(curve.points.map(p => p.equity)),
+    `${first.toLocaleDateString()} → ${last.toLocaleDateString()}`,
+    `├─ Final Equity: $${curve.finalEquity.toFixed(2)}`,
+    `├─ Max Drawdown: $${drawdown.maxDrawdown.toFixed(2)}${drawdown.maxDrawdownPercent !== null ? ` (${drawdown.maxDrawdownPercent.toFixed(2)}%)` : ''}`,
+    `├─ Drawdown Duration: ${PositionReconstructor.formatDuration(drawdown.drawdownDurationMs)}`,
+    `├─ Recovery Time: ${formatMs(drawdown.recoveryDurationMs)}`,
+    `└─ Current Drawdown: $${drawdown.currentDrawdown.toFixed(2)}`
+  ].join('\n');
+}
+
+export function formatEquityCurveAsJSON(curve: EquityCurve): object {
+  const toISO = (date: Date | null): string | null => date ? date.toISOString() : null;
+
+  return {
+    final_equity: curve.finalEquity,
+    drawdown: {
+      max_drawdown: curve.drawdown.maxDrawdown,
+      max_drawdown_percent: curve.drawdown.maxDrawdownPercent,
+      peak_time: toISO(curve.drawdown.peakTime),
+      trough_time: toISO(curve.drawdown.troughTime),
+      recovery_time: toISO(curve.drawdown.recoveryTime),
+      drawdown_duration_ms: curve.drawdown.drawdownDurationMs,
+      recovery_duration_ms: curve.drawdown.recoveryDurationMs,
+      current_drawdown: curve.drawdown.currentDrawdown
+    },
+    points: curve.points.map(point => ({
+      timestamp: point.timestamp.toISOString(),
+      type: point.type,
+      label: point.label,
+      change: point.change,
+      equity: point.equity,
+      peak: point.peak,
+      drawdown: point.drawdown,
+      drawdown_percent: point.drawdownPercent
+    }))
+  };
+}
+
+export function formatEquityCurveAsCSV(curve: EquityCurve): string {
+  return toCSV(EQUITY_CURVE_COLUMNS, curve.points.map(point => [
+    point.timestamp.toISOString(), point.type, point.label, point.change, point.equity, point.peak, point.drawdown,
+    point.drawdownPercent
+  ]));
+}
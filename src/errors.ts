@@ -0,0 +1,88 @@
+import { AxiosError } from 'axios';
+
+/**
+ * Error returned by the Backpack API, or a network failure while calling it
+ * (status is undefined when no response was received).
+ */
+export class BackpackApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | undefined,
+    readonly code: string | undefined, // Backpack error code, e.g. INVALID_CLIENT_REQUEST
+    readonly apiMessage: string | undefined, // Backpack error message
+    readonly method: string,
+    readonly path: string
+  ) {
+    super(message);
+    this.name = 'BackpackApiError';
+  }
+
+  /**
+   * Rate limits, server errors and network failures are worth retrying.
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+
+  /**
+   * The request's timestamp fell outside its receive window, usually
+   * because the local clock drifted from the server.
+   */
+  get timestampExpired(): boolean {
+    return this.status !== undefined && this.status < 500 && /expired|timestamp/i.test(this.apiMessage || '');
+  }
+}
+
+export class BackpackAuthError extends BackpackApiError {
+  constructor(...args: ConstructorParameters<typeof BackpackApiError>) {
+    super(...args);
+    this.name = 'BackpackAuthError';
+  }
+}
+
+export class BackpackRateLimitError extends BackpackApiError {
+  constructor(
+    readonly retryAfterMs: number | null, // From the Retry-After header
+    ...args: ConstructorParameters<typeof BackpackApiError>
+  ) {
+    super(...args);
+    this.name = 'BackpackRateLimitError';
+  }
+}
+
+/**
+ * Convert an axios error into the matching typed Backpack error.
+ */
+export function toBackpackError(error: AxiosError, method: string, path: string): BackpackApiError {
+  const status = error.response?.status;
+  const data = error.response?.data as { code?: string; message?: string } | string | undefined;
+  const code = typeof data === 'object' && data !== null ? data.code : undefined;
+  const apiMessage = typeof data === 'object' && data !== null ? data.message : typeof data === 'string' && data !== '' ? data : undefined;
+
+  const description = status !== undefined
+    ? `${status}${code ? ` ${code}` : ''}${apiMessage ? `: ${apiMessage}` : ''}`
+    : error.code || error.message;
+  const message = `Backpack API error ${description} (${method} ${path})`;
+  const args = [message, status, code, apiMessage, method, path] as const;
+
+  if (status === 401 || status === 403) {
+    return new BackpackAuthError(...args);
+  }
+  if (status === 429) {
+    return new BackpackRateLimitError(parseRetryAfter(error.response?.headers?.['retry-after']), ...args);
+  }
+  return new BackpackApiError(...args);
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BackpackFill, BackpackFundingPayment, BackpackOrder, TradingData } from './types';
+import { CompletedPosition, OpenPosition, PositionAnalysis, formatPositionsAsCSV } from './analysis';
+import { EquityCurve, formatEquityCurveAsCSV } from './equity';
+import { toCSV, CSVValue } from './csv';
+
+// Column sets are part of the export format: add columns at the end, never rename or reorder
+export const FILL_COLUMNS = [
+  'account', 'timestamp', 'id', 'trade_id', 'order_id', 'symbol', 'side', 'quantity', 'price', 'fee', 'fee_symbol'
+];
+export const ORDER_COLUMNS = [
+  'account', 'created_at', 'updated_at', 'id', 'client_id', 'symbol', 'side', 'order_type', 'time_in_force',
+  'quantity', 'price', 'trigger_price', 'status'
+];
+export const FUNDING_PAYMENT_COLUMNS = ['account', 'timestamp', 'id', 'symbol', 'rate', 'payment'];
+export const POSITION_EVENT_COLUMNS = [
+  'account', 'position_id', 'symbol', 'status', 'event', 'timestamp', 'side', 'quantity', 'price', 'open_price',
+  'open_time', 'amount', 'fee', 'rate', 'trade_id', 'open_trade_id', 'order_id', 'event_id'
+];
+
+export const EXPORT_FILES = {
+  fills: 'fills.csv',
+  orders: 'orders.csv',
+  fundingPayments: 'funding_payments.csv',
+  positions: 'positions.csv',
+  positionEvents: 'position_events.csv',
+  equityCurve: 'equity_curve.csv'
+};
+
+export interface ExportedFile {
+  file: string;
+  rows: number;
+}
+
+// Records are tagged with an account when several accounts are analysed
+type Tagged<T> = T & { account?: string };
+
+function isoTime(timestamp: number | string): string {
+  return new Date(timestamp).toISOString();
+}
+
+export function formatFillsAsCSV(fills: Tagged<BackpackFill>[]): string {
+  return toCSV(FILL_COLUMNS, fills.map(fill => [
+    fill.account, isoTime(fill.timestamp), fill.id, fill.tradeId, fill.orderId, fill.symbol, fill.side,
+    fill.quantity, fill.price, fill.fee, fill.feeSymbol
+  ]));
+}
+
+export function formatOrdersAsCSV(orders: Tagged<BackpackOrder>[]): string {
+  return toCSV(ORDER_COLUMNS, orders.map(order => [
+    order.account, isoTime(order.createdAt), isoTime(order.updatedAt), order.id, order.clientId, order.symbol,
+    order.side, order.orderType, order.timeInForce, order.quantity, order.price, order.triggerPrice, order.status
+  ]));
+}
+
+export function formatFundingPaymentsAsCSV(payments: Tagged<BackpackFundingPayment>[]): string {
+  return toCSV(FUNDING_PAYMENT_COLUMNS, payments.map(payment => [
+    payment.account, isoTime(payment.timestamp), payment.id, payment.symbol, payment.rate, payment.payment
+  ]));
+}
+
+/**
+ * Everything behind each row of positions.csv, one row per fill, matched lot,
+ * still-open lot, funding payment and interest payment, in time order.
+ */
+export function formatPositionEventsAsCSV(positions: CompletedPosition[], openPositions: OpenPosition[] = []): string {
+  return toCSV(POSITION_EVENT_COLUMNS, positionEventRows(positions, openPositions));
+}
+
+function positionEventRows(positions: CompletedPosition[], openPositions: OpenPosition[]): CSVValue[][] {
+  const rows: CSVValue[][] = [];
+
+  const addRows = (position: CompletedPosition | OpenPosition, status: 'closed' | 'active') => {
+    const events: Array<{ time: number; row: CSVValue[] }> = [];
+    // Columns after event and timestamp, in POSITION_EVENT_COLUMNS order
+    const add = (event: string, timestamp: number | string | Date, values: CSVValue[]) => {
+      const time = new Date(timestamp).getTime();
+      events.push({ time, row: [position.account, position.id, position.symbol, status, event, new Date(time).toISOString(), ...values] });
+    };
+
+    position.fills.forEach(fill => add('fill', fill.timestamp, [
+      fill.side, fill.quantity, fill.price, null, null, null, fill.fee, null, fill.tradeId, null, fill.orderId, fill.id
+    ]));
+    position.lots.forEach(({ exact, ...lot }) => add('lot', lot.closeFill.timestamp, [
+      null, exact.quantity, lot.closeFill.price, exact.openPrice, isoTime(lot.openFill.timestamp), exact.realizedPnl, null, null,
+      lot.closeFill.tradeId, lot.openFill.tradeId, null, null
+    ]));
+    if ('openLots' in position) {
+      position.openLots.forEach(lot => add('open_lot', lot.fill.timestamp, [
+        null, lot.quantity, null, lot.price, isoTime(lot.fill.timestamp), null, null, null, null, lot.fill.tradeId, null, null
+      ]));
+    }
+    position.funding.forEach(event => add('funding', event.timestamp, [
+      null, null, null, null, null, event.amount, null, event.rate, null, null, null, event.id
+    ]));
+    position.interest.forEach(event => add('interest', event.timestamp, [
+      null, null, null, null, null, event.amount, null, event.rate, null, null, null, event.id
+    ]));
+
+    // Stable sort keeps each fill before the lot it closes
+    events.sort((a, b) => a.time - b.time).forEach(event => rows.push(event.row));
+  };
+
+  positions.forEach(position => addRows(position, 'closed'));
+  openPositions.forEach(position => addRows(position, 'active'));
+  return rows;
+}
+
+export class CSVExporter {
+  /**
+   * Write the raw records, the reconstructed positions and the equity curve
+   * as CSV files into a directory, creating it if needed. Existing files are
+   * overwritten.
+   */
+  static async write(directory: string, data: TradingData, analysis: PositionAnalysis, equityCurve: EquityCurve): Promise<ExportedFile[]> {
+    const eventRows = positionEventRows(analysis.completedPositions, analysis.openPositions);
+    const files: Array<[string, string, number]> = [
+      [EXPORT_FILES.fills, formatFillsAsCSV(data.fills), data.fills.length],
+      [EXPORT_FILES.orders, formatOrdersAsCSV(data.orders), data.orders.length],
+      [EXPORT_FILES.fundingPayments, formatFundingPaymentsAsCSV(data.fundingPayments), data.fundingPayments.length],
+      [
+        EXPORT_FILES.positions,
+        formatPositionsAsCSV(analysis.completedPositions, analysis.openPositions),
+        analysis.completedPositions.length + analysis.openPositions.length
+      ],
+      [EXPORT_FILES.positionEvents, toCSV(POSITION_EVENT_COLUMNS, eventRows), eventRows.length],
+      [EXPORT_FILES.equityCurve, formatEquityCurveAsCSV(equityCurve), equityCurve.points.length]
+    ];
+
+    await fs.promises.mkdir(directory, { recursive: true });
+    const written: ExportedFile[] = [];
+    for (const [name, content, rows] of files) {
+      const file = path.join(directory, name);
+      await fs.promises.writeFile(file, content, 'utf8');
+      written.push({ file, rows });
+    }
+    return written;
+  }
+}
@@ -0,0 +1,256 @@
+import { BackpackFill, BackpackOpenPosition, HistoryQuery, TimeRange, TradingData } from './types';
+import { CompletedPosition, OpenPosition, PnlBreakdown, PositionAnalysis, SymbolSummary } from './analysis';
+import { Decimal } from './decimal';
+import { HistoryDataset, HISTORY_DATASET_NAMES } from './store';
+
+export interface RecordFilters {
+  symbol?: string; // Exact market (SOL_USDC_PERP) or base asset (SOL)
+  from?: number; // Inclusive, milliseconds since the epoch
+  to?: number; // Inclusive
+  side?: 'Long' | 'Short'; // Positions only
+}
+
+export function matchesSymbol(symbol: string | undefined, filter: string | undefined): boolean {
+  if (!filter) return true;
+  if (!symbol) return false;
+
+  const wanted = filter.toUpperCase();
+  return symbol.toUpperCase() === wanted || symbol.split('_')[0].toUpperCase() === wanted;
+}
+
+export function inTimeRange(timestamp: number | string | Date, filters: RecordFilters): boolean {
+  const millis = new Date(timestamp).getTime();
+  return (filters.from === undefined || millis >= filters.from) && (filters.to === undefined || millis <= filters.to);
+}
+
+// Records positions are rebuilt from (and joined to), which a date range must not cut
+export const RECONSTRUCTION_DATASETS: ReadonlyArray<HistoryDataset> = [
+  'fills', 'orders', 'fundingPayments', 'settlements', 'fundingHistory', 'interestHistory'
+];
+
+// First window fetched before `from`; each further window is twice as long
+const LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+// Beyond this the rest of the history is fetched in one open-ended request
+const MAX_LOOKBACK_MS = 4 * 365 * 24 * 60 * 60 * 1000;
+
+export interface PositionLookback {
+  start: number; // Opening time of the oldest position open at `from`, or `from`
+  fills: BackpackFill[]; // Fills before `from` of the positions open at it, oldest first
+}
+
+/**
+ * The part of the filters the API can apply, so a one-week report on one
+ * market does not download the whole history. When positions are
+ * reconstructed the datasets they are built from are fetched from `from`
+ * without an end: the fills since `from` show which positions were open at
+ * it (see lookBackForOpenPositions), and a position open at the end of the
+ * range may close after it. Everything is filtered again in memory
+ * afterwards.
+ */
+export function historyQueries(filters: RecordFilters, reconstructsPositions: boolean): Partial<Record<HistoryDataset, HistoryQuery>> {
+  const queries: Partial<Record<HistoryDataset, HistoryQuery>> = {};
+
+  for (const dataset of HISTORY_DATASET_NAMES) {
+    const keepHistory = reconstructsPositions && RECONSTRUCTION_DATASETS.includes(dataset);
+    queries[dataset] = {
+      from: filters.from,
+      to: keepHistory ? undefined : filters.to,
+      // A base asset (SOL) can match several markets, so only exact markets are sent
+      symbol: filters.symbol?.includes('_') ? filters.symbol.toUpperCase() : undefined,
+      marketType: 'PERP'
+    };
+  }
+
+  return queries;
+}
+
+/**
+ * The fills before `from` that positions still open at `from` were built
+ * from. A market's position at `from` is its current net quantity less the
+ * fills since; for each market that was not flat, earlier fills are fetched
+ * in growing windows and undone newest first until the market is flat, so
+ * only the history those positions need is downloaded.
+ */
+export async function lookBackForOpenPositions(
+  from: number,
+  fillsSince: BackpackFill[],
+  openPositions: BackpackOpenPosition[],
+  fetchFills: (range: TimeRange) => Promise<BackpackFill[]>
+): Promise<PositionLookback> {
+  const signed = (fill: BackpackFill) => fill.side === 'Bid' ? Decimal.from(fill.quantity) : Decimal.from(fill.quantity).neg();
+  const net = new Map<string, Decimal>();
+  for (const position of openPositions) {
+    net.set(position.symbol, Decimal.from(position.netQuantity));
+  }
+  for (const fill of fillsSince) {
+    net.set(fill.symbol, (net.get(fill.symbol) || Decimal.ZERO).sub(signed(fill)));
+  }
+  const open = new Set([...net].filter(([, quantity]) => !quantity.isZero()).map(([symbol]) => symbol));
+
+  const fills: BackpackFill[] = [];
+  let start = from;
+  let end = from;
+  for (let lookback = LOOKBACK_MS; open.size > 0; lookback *= 2) {
+    const windowStart = lookback > MAX_LOOKBACK_MS ? undefined : from - lookback;
+    const batch = await fetchFills({ from: windowStart, to: end - 1 });
+
+    for (const fill of batch.slice().sort((a, b) => a.timestamp - b.timestamp).reverse()) {
+      if (!open.has(fill.symbol)) continue;
+
+      fills.push(fill);
+      start = Math.min(start, fill.timestamp);
+      const before = net.get(fill.symbol)!.sub(signed(fill));
+      net.set(fill.symbol, before);
+      if (before.isZero()) {
+        open.delete(fill.symbol);
+      }
+    }
+
+    if (windowStart === undefined) break; // The whole history has been seen
+    end = windowStart;
+  }
+
+  return { start, fills: fills.reverse() };
+}
+
+/**
+ * Keep only records for the filtered symbol. Time is not filtered here:
+ * positions need the fills that opened them, however old.
+ */
+export function filterTradingDataBySymbol(data: TradingData, symbol: string | undefined): TradingData {
+  if (!symbol) return data;
+
+  return {
+    ...data,
+    fills: data.fills.filter(fill => matchesSymbol(fill.symbol, symbol)),
+    orders: data.orders.filter(order => matchesSymbol(order.symbol, symbol)),
+    fundingPayments: data.fundingPayments.filter(payment => matchesSymbol(payment.symbol, symbol)),
+    settlements: data.settlements.filter(settlement => matchesSymbol(settlement.symbol, symbol)),
+    fundingHistory: data.fundingHistory.filter(funding => matchesSymbol(funding.symbol, symbol)),
+    positions: data.positions.filter(position => matchesSymbol(position.symbol, symbol)),
+    interestHistory: data.interestHistory.filter(interest => matchesSymbol(interest.marketSymbol || interest.symbol, symbol))
+  };
+}
+
+/**
+ * Keep only records inside the time range. Snapshots (balances, account,
+ * position history) are kept as they are.
+ */
+export function filterTradingDataByTime(data: TradingData, filters: RecordFilters): TradingData {
+  if (filters.from === undefined && filters.to === undefined) return data;
+
+  return {
+    ...data,
+    fills: data.fills.filter(fill => inTimeRange(fill.timestamp, filters)),
+    orders: data.orders.filter(order => inTimeRange(order.createdAt, filters)),
+    fundingPayments: data.fundingPayments.filter(payment => inTimeRange(payment.timestamp, filters)),
+    settlements: data.settlements.filter(settlement => inTimeRange(settlement.timestamp, filters)),
+    fundingHistory: data.fundingHistory.filter(funding => inTimeRange(funding.intervalEndTimestamp, filters)),
+    deposits: data.deposits.filter(deposit => inTimeRange(deposit.timestamp, filters)),
+    withdrawals: data.withdrawals.filter(withdrawal => inTimeRange(withdrawal.timestamp, filters)),
+    interestHistory: data.interestHistory.filter(interest => inTimeRange(interest.timestamp, filters))
+  };
+}
+
+/**
+ * Positions selected by the filters, with the summary recomputed from them.
+ * Completed positions are selected by exit time, so a range reports the
+ * trades closed in it; open positions are kept if they opened before its
+ * end. Unattributed funding and interest is kept by timestamp unless a side
+ * is selected.
+ */
+export function filterAnalysis(analysis: PositionAnalysis, filters: RecordFilters): PositionAnalysis {
+  if (!filters.symbol && filters.from === undefined && filters.to === undefined && !filters.side) {
+    return analysis;
+  }
+
+  const matches = (position: CompletedPosition | OpenPosition): boolean =>
+    matchesSymbol(position.symbol, filters.symbol) && (!filters.side || position.side === filters.side);
+
+  const completedPositions = analysis.completedPositions.filter(position =>
+    matches(position) && inTimeRange(position.exitTime, filters)
+  );
+  const openPositions = analysis.openPositions.filter(position =>
+    matches(position) && (filters.to === undefined || position.entryTime.getTime() <= filters.to)
+  );
+  const keepEvent = (event: { symbol: string; timestamp: Date }): boolean =>
+    !filters.side && matchesSymbol(event.symbol, filters.symbol) && inTimeRange(event.timestamp, filters);
+  const unattributedFunding = analysis.unattributedFunding.filter(keepEvent);
+  const unattributedInterest = analysis.unattributedInterest.filter(keepEvent);
+
+  // Per-symbol totals built the same way as PositionReconstructor's
+  const totals = new Map<string, { positions: number; pnl: Decimal; gross: Decimal; fees: Decimal; funding: Decimal; interest: Decimal }>();
+  const totalsFor = (symbol: string) => {
+    if (!totals.has(symbol)) {
+      totals.set(symbol, { positions: 0, pnl: Decimal.ZERO, gross: Decimal.ZERO, fees: Decimal.ZERO, funding: Decimal.ZERO, interest: Decimal.ZERO });
+    }
+    return totals.get(symbol)!;
+  };
+
+  for (const position of [...completedPositions, ...openPositions]) {
+    const symbolTotals = totalsFor(position.symbol);
+    symbolTotals.gross = symbolTotals.gross.add(position.realizedPnl);
+    symbolTotals.fees = symbolTotals.fees.add(position.totalFees);
+    symbolTotals.funding = symbolTotals.funding.add(position.netFunding);
+    symbolTotals.interest = symbolTotals.interest.add(position.netInterest);
+  }
+  for (const position of completedPositions) {
+    const symbolTotals = totalsFor(position.symbol);
+    symbolTotals.positions++;
+    symbolTotals.pnl = symbolTotals.pnl.add(position.realizedPnl);
+  }
+  for (const event of unattributedFunding) {
+    totalsFor(event.symbol).funding = totalsFor(event.symbol).funding.add(event.amount);
+  }
+  for (const event of unattributedInterest) {
+    totalsFor(event.symbol).interest = totalsFor(event.symbol).interest.add(event.amount);
+  }
+
+  const symbolBreakdown: { [symbol: string]: SymbolSummary } = {};
+  for (const [symbol, symbolTotals] of totals) {
+    symbolBreakdown[symbol] = {
+      positions: symbolTotals.positions,
+      pnl: symbolTotals.pnl.toNumber(),
+      net: toBreakdown(symbolTotals.gross, symbolTotals.fees, symbolTotals.funding, symbolTotals.interest)
+    };
+  }
+
+  const all = [...totals.values()];
+  const sumOf = (values: Array<number | Decimal>) => Decimal.sum(values).toNumber();
+
+  return {
+    ...analysis,
+    completedPositions,
+    openPositions,
+    unattributedFunding,
+    unattributedInterest,
+    summary: {
+      totalPositions: completedPositions.length,
+      totalPnl: sumOf(completedPositions.map(p => p.realizedPnl)),
+      totalFees: sumOf(completedPositions.map(p => p.totalFees)),
+      openPositions: openPositions.length,
+      unrealizedPnl: sumOf(openPositions.map(p => p.unrealizedPnl || 0)),
+      totalFunding: sumOf([...completedPositions, ...openPositions].map(p => p.netFunding)),
+      unattributedFunding: sumOf(unattributedFunding.map(event => event.amount)),
+      totalInterest: sumOf([...completedPositions, ...openPositions].map(p => p.netInterest)),
+      unattributedInterest: sumOf(unattributedInterest.map(event => event.amount)),
+      net: toBreakdown(
+        Decimal.sum(all.map(t => t.gross)),
+        Decimal.sum(all.map(t => t.fees)),
+        Decimal.sum(all.map(t => t.funding)),
+        Decimal.sum(all.map(t => t.interest))
+      ),
+      symbolBreakdown
+    }
+  };
+}
+
+function toBreakdown(gross: Decimal, fees: Decimal, funding: Decimal, interest: Decimal): PnlBreakdown {
+  return {
+    grossPnl: gross.toNumber(),
+    tradingFees: fees.toNumber(),
+    funding: funding.toNumber(),
+    interest: interest.toNumber(),
+    netPnl: gross.sub(fees).add(funding).add(interest).toNumber()
+  };
+}
@@ -0,0 +1,229 @@
+import * as nacl from 'tweetnacl';
+import { Decimal } from './decimal';
+import {
+  BackpackCredentials,
+  BackpackDeposit,
+  BackpackFill,
+  BackpackFundingPayment,
+  BackpackInterestHistory,
+  BackpackOpenPosition,
+  BackpackOrder,
+  BackpackSettlement,
+  BackpackWithdrawal,
+  TradingData
+} from './types';
+
+// Fixed seed so every developer and CI run signs with the same key pair
+const MOCK_SEED = new Uint8Array(32).fill(7);
+
+export const MOCK_CREDENTIALS: BackpackCredentials = {
+  apiKey: Buffer.from(nacl.sign.keyPair.fromSeed(MOCK_SEED).publicKey).toString('base64'),
+  privateKey: Buffer.from(MOCK_SEED).toString('base64')
+};
+
+interface MarketDefinition {
+  symbol: string;
+  startPrice: number;
+  quantityStep: number;
+  quantityDecimals: number;
+}
+
+const MARKETS: MarketDefinition[] = [
+  { symbol: 'BTC_USDC_PERP', startPrice: 42000, quantityStep: 0.001, quantityDecimals: 3 },
+  { symbol: 'ETH_USDC_PERP', startPrice: 2300, quantityStep: 0.01, quantityDecimals: 2 },
+  { symbol: 'SOL_USDC_PERP', startPrice: 100, quantityStep: 0.1, quantityDecimals: 1 }
+];
+
+const START_TIME = Date.UTC(2024, 0, 1);
+const HOUR = 60 * 60 * 1000;
+const FEE_RATE = 0.0004;
+
+/**
+ * Small seeded PRNG (mulberry32) so fixtures are identical on every run.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Deterministic trading history for the mock server: round trips on three
+ * perp markets (the last SOL position is left open), a closing settlement
+ * per market, funding every 8 hours, daily UnrealizedPnl interest and USDC
+ * cash flows. Large enough that fills span more than one page.
+ */
+export function createFixtureData(roundTripsPerMarket: number = 120): TradingData {
+  const random = createRandom(42);
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const steps = (min: number, max: number) => Math.floor(between(min, max + 1));
+
+  const fills: BackpackFill[] = [];
+  const orders: BackpackOrder[] = [];
+  const settlements: BackpackSettlement[] = [];
+  let endTime = START_TIME;
+
+  for (const market of MARKETS) {
+    let time = START_TIME + steps(0, 60) * 60 * 1000;
+    let price = market.startPrice;
+
+    for (let trip = 0; trip < roundTripsPerMarket; trip++) {
+      const entrySide = random() < 0.5 ? 'Bid' : 'Ask';
+      const exitSide = entrySide === 'Bid' ? 'Ask' : 'Bid';
+      const totalSteps = steps(10, 500);
+      const isOpen = market.symbol === 'SOL_USDC_PERP' && trip === roundTripsPerMarket - 1;
+
+      const legs: Array<['Bid' | 'Ask', number[]]> = [[entrySide, splitSteps(totalSteps, steps(1, 3), random)]];
+      if (!isOpen) legs.push([exitSide, splitSteps(totalSteps, steps(1, 3), random)]);
+
+      for (const [side, parts] of legs) {
+        for (const part of parts) {
+          time += steps(5, 60) * 60 * 1000;
+          price *= 1 + between(-0.01, 0.01);
+
+          const quantity = (part * market.quantityStep).toFixed(market.quantityDecimals);
+          const fillPrice = price.toFixed(2);
+          const id = String(fills.length + 1);
+          const orderId = `order-${id}`;
+
+          fills.push({
+            id,
+            orderId,
+            symbol: market.symbol,
+            side,
+            quantity,
+            price: fillPrice,
+            fee: (parseFloat(quantity) * price * FEE_RATE).toFixed(6),
+            feeSymbol: 'USDC',
+            tradeId: `trade-${id}`,
+            timestamp: time
+          });
+          orders.push({
+            id: orderId,
+            symbol: market.symbol,
+            side,
+            orderType: 'Market',
+            timeInForce: 'IOC',
+            quantity,
+            status: 'Filled',
+            createdAt: time,
+            updatedAt: time
+          });
+        }
+      }
+
+      time += steps(1, 24) * HOUR;
+    }
+
+    settlements.push({
+      id: `settlement-${market.symbol}-${time}`,
+      symbol: market.symbol,
+      markPrice: price.toFixed(2),
+      pnl: '0',
+      timestamp: time
+    });
+    endTime = Math.max(endTime, time);
+  }
+
+  fills.sort((a, b) => a.timestamp - b.timestamp);
+  orders.sort((a, b) => a.createdAt - b.createdAt);
+
+  // Funding every 8 hours and daily UnrealizedPnl interest for each market
+  const fundingPayments: BackpackFundingPayment[] = [];
+  const interestHistory: BackpackInterestHistory[] = [];
+  for (let time = START_TIME + 8 * HOUR; time <= endTime; time += 8 * HOUR) {
+    for (const market of MARKETS) {
+      const rate = between(-0.0002, 0.0003);
+      fundingPayments.push({
+        id: `funding-${market.symbol}-${time}`,
+        symbol: market.symbol,
+        payment: (-rate * between(500, 5000)).toFixed(6),
+        rate: rate.toFixed(8),
+        timestamp: time
+      });
+
+      if (time % (24 * HOUR) === 0) {
+        interestHistory.push({
+          interestRate: '0.0001',
+          interval: 3600000,
+          marketSymbol: market.symbol,
+          paymentType: 'UnrealizedPnl',
+          positionId: `position-${market.symbol}`,
+          quantity: (-between(0, 0.5)).toFixed(6),
+          symbol: 'USDC',
+          timestamp: new Date(time).toISOString()
+        });
+      }
+    }
+  }
+
+  const deposits: BackpackDeposit[] = [
+    { id: 'deposit-1', transactionId: '0xdeposit1', status: 'confirmed', symbol: 'USDC', quantity: '10000', timestamp: START_TIME - HOUR },
+    { id: 'deposit-2', transactionId: '0xdeposit2', status: 'confirmed', symbol: 'USDC', quantity: '5000', timestamp: START_TIME + 30 * 24 * HOUR }
+  ];
+  const withdrawals: BackpackWithdrawal[] = [
+    { id: 'withdrawal-1', blockchain: 'Solana', quantity: '2000', fee: '1', status: 'confirmed', address: 'MockAddress111111111111111111111111111111111', transactionHash: '0xwithdrawal1', symbol: 'USDC', timestamp: START_TIME + 45 * 24 * HOUR }
+  ];
+
+  return {
+    fills,
+    orders,
+    fundingPayments,
+    settlements,
+    fundingHistory: [],
+    balances: {
+      USDC: { available: '13000.00', locked: '0', staked: '0' }
+    },
+    deposits,
+    withdrawals,
+    positions: [],
+    account: {
+      autoBorrowSettlements: true,
+      autoLend: false,
+      autoRepayBorrows: true,
+      leverageLimit: '10',
+      limitOrders: 0,
+      liquidating: false
+    },
+    interestHistory
+  };
+}
+
+/**
+ * What the open positions endpoint reports after these fills: the net
+ * quantity of every perp market that is not flat.
+ */
+export function openPositionsFor(fills: BackpackFill[]): BackpackOpenPosition[] {
+  const net = new Map<string, Decimal>();
+  for (const fill of fills) {
+    if (!fill.symbol.endsWith('_PERP')) continue;
+    const quantity = Decimal.from(fill.quantity);
+    net.set(fill.symbol, (net.get(fill.symbol) || Decimal.ZERO).add(fill.side === 'Bid' ? quantity : quantity.neg()));
+  }
+
+  return [...net]
+    .filter(([, quantity]) => !quantity.isZero())
+    .map(([symbol, quantity]) => ({ symbol, netQuantity: quantity.toString() }));
+}
+
+/**
+ * Split a whole number of quantity steps into `count` positive parts.
+ */
+function splitSteps(total: number, count: number, random: () => number): number[] {
+  const parts: number[] = [];
+  let remaining = total;
+
+  for (let i = count; i > 1; i--) {
+    const part = Math.max(1, Math.floor(remaining * random() / i * 2));
+    const capped = Math.min(part, remaining - (i - 1));
+    parts.push(capped);
+    remaining -= capped;
+  }
+  parts.push(remaining);
+
+  return parts;
+}
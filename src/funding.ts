@@ -0,0 +1,72 @@
+import { BackpackFundingHistory, BackpackFundingPayment } from './types';
+import { Decimal } from './decimal';
+
+export interface FundingEvent {
+  id: string;
+  symbol: string;
+  timestamp: Date;
+  amount: number; // Positive = received, negative = paid
+  rate: number;
+  source: 'fundingPayments' | 'fundingHistory';
+}
+
+/**
+ * Funding event together with its exact amount, used while attributing
+ * funding so position totals stay exact.
+ */
+export interface FundingRecord {
+  event: FundingEvent;
+  amount: Decimal;
+}
+
+/**
+ * Merge funding payments and funding history into one chronological list.
+ * Both endpoints can report the same interval, so history entries are only
+ * added when no payment exists for the same symbol and time.
+ */
+export function normalizeFunding(
+  fundingPayments: BackpackFundingPayment[] = [],
+  fundingHistory: BackpackFundingHistory[] = []
+): FundingRecord[] {
+  const records: FundingRecord[] = [];
+  const seen = new Set<string>();
+
+  for (const payment of fundingPayments) {
+    const timestamp = new Date(payment.timestamp);
+    const amount = Decimal.from(payment.payment);
+    seen.add(`${payment.symbol}@${timestamp.getTime()}`);
+    records.push({
+      event: {
+        id: payment.id,
+        symbol: payment.symbol,
+        timestamp,
+        amount: amount.toNumber(),
+        rate: parseFloat(payment.rate),
+        source: 'fundingPayments'
+      },
+      amount
+    });
+  }
+
+  for (const funding of fundingHistory) {
+    const timestamp = new Date(funding.intervalEndTimestamp);
+    const key = `${funding.symbol}@${timestamp.getTime()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const amount = Decimal.from(funding.quantity);
+    records.push({
+      event: {
+        id: `${funding.symbol}-${funding.intervalEndTimestamp}`,
+        symbol: funding.symbol,
+        timestamp,
+        amount: amount.toNumber(),
+        rate: parseFloat(funding.fundingRate),
+        source: 'fundingHistory'
+      },
+      amount
+    });
+  }
+
+  return records.sort((a, b) => a.event.timestamp.getTime() - b.event.timestamp.getTime());
+}
@@ -0,0 +1,385 @@
+import { CompletedPosition, OpenPosition, PnlBreakdown, PositionAnalysis } from './analysis';
+import { AccountAnalysis } from './accounts';
+import { StatisticsReport } from './statistics';
+import { EquityCurve } from './equity';
+import { RecordFilters } from './filters';
+
+export interface PerformanceReportInput {
+  analysis: PositionAnalysis;
+  statistics: StatisticsReport;
+  equityCurve: EquityCurve;
+  accounts?: AccountAnalysis[]; // Per-account rows when several accounts are analysed
+  filters?: RecordFilters; // Shown in the header
+  generatedAt?: Date;
+}
+
+export function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function signedMoney(amount: number, decimals: number = 2): string {
+  return `${amount >= 0 ? '+' : '-'}$${Math.abs(amount).toFixed(decimals)}`;
+}
+
+// Signed amount coloured by sign, sortable by its exact value
+function amountCell(amount: number, decimals: number = 2): string {
+  return `<td class="num ${amount >= 0 ? 'pos' : 'neg'}" data-value="${amount}">${signedMoney(amount, decimals)}</td>`;
+}
+
+function numberCell(value: number, text: string = `${value}`): string {
+  return `<td class="num" data-value="${value}">${escapeHTML(text)}</td>`;
+}
+
+function textCell(text: string): string {
+  return `<td>${escapeHTML(text)}</td>`;
+}
+
+function timeCell(time: Date | number): string {
+  const date = new Date(time);
+  return `<td data-value="${date.getTime()}">${formatTime(date)}</td>`;
+}
+
+// YYYY-MM-DD HH:mm in UTC
+function formatTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 16);
+}
+
+function card(label: string, value: string, tone?: number, note?: string): string {
+  const toneClass = tone === undefined ? '' : tone >= 0 ? ' pos' : ' neg';
+  return `<div class="card"><div class="label">${escapeHTML(label)}</div><div class="value${toneClass}">${escapeHTML(value)}</div>${note ? `<div class="note">${escapeHTML(note)}</div>` : ''}</div>`;
+}
+
+function summaryCards(input: PerformanceReportInput): string {
+  const { analysis, statistics, equityCurve } = input;
+  const { summary } = analysis;
+  const stats = statistics.overall;
+  const { drawdown } = equityCurve;
+
+  return [
+    card('Net PnL', signedMoney(summary.net.netPnl), summary.net.netPnl, 'After fees, funding and interest'),
+    // Gross PnL, like Net PnL above, includes what open positions have realized by partial closes
+    card('Realized PnL', signedMoney(summary.net.grossPnl), summary.net.grossPnl,
+      `${summary.totalPositions} completed positions, plus partial closes of open ones`),
+    card('Trading fees', `$${summary.net.tradingFees.toFixed(2)}`),
+    card('Funding', signedMoney(summary.net.funding), summary.net.funding),
+    card('Interest', signedMoney(summary.net.interest), summary.net.interest, 'UnrealizedPnl interest'),
+    card('Win rate', `${stats.winRate.toFixed(1)}%`, undefined, `${stats.wins} wins, ${stats.losses} losses`),
+    card('Profit factor', stats.profitFactor === null ? '∞' : stats.profitFactor.toFixed(2)),
+    card('Expectancy', signedMoney(stats.expectancy), stats.expectancy, 'Per trade'),
+    card('Max drawdown', `$${drawdown.maxDrawdown.toFixed(2)}`, undefined,
+      drawdown.maxDrawdownPercent === null ? undefined : `${drawdown.maxDrawdownPercent.toFixed(1)}% from peak`),
+    card('Open positions', `${summary.openPositions}`, undefined, `Unrealized ${signedMoney(summary.unrealizedPnl)}`)
+  ].join('\n');
+}
+
+/**
+ * Step chart of equity over time with its high-water mark; the maximum
+ * drawdown is shaded.
+ */
+function equityChart(curve: EquityCurve): string {
+  if (curve.points.length === 0) return '<p class="empty">No equity data.</p>';
+
+  const width = 900;
+  const height = 280;
+  const left = 80;
+  const right = 20;
+  const top = 16;
+  const bottom = 30;
+
+  const times = curve.points.map(point => point.timestamp.getTime());
+  const values = curve.points.flatMap(point => [point.equity, point.peak]);
+  const start = times[0];
+  const end = times[times.length - 1];
+  let min = Math.min(0, ...values);
+  let max = Math.max(0, ...values);
+  if (max === min) {
+    max += 1;
+    min -= 1;
+  }
+
+  const x = (time: number) => left + (end === start ? 0 : (time - start) / (end - start)) * (width - left - right);
+  const y = (value: number) => top + (max - value) / (max - min) * (height - top - bottom);
+  const steps = (series: number[]) => series
+    .flatMap((value, i) => (i === 0 ? [[x(times[0]), y(value)]] : [[x(times[i]), y(series[i - 1])], [x(times[i]), y(value)]]))
+    .map(([px, py]) => `${px.toFixed(1)},${py.toFixed(1)}`)
+    .join(' ');
+
+  const { drawdown } = curve;
+  const shade = drawdown.peakTime && drawdown.troughTime && drawdown.maxDrawdown > 0 ?
+    `<rect class="drawdown" x="${x(drawdown.peakTime.getTime()).toFixed(1)}" y="${top}" width="${Math.max(1, x(drawdown.troughTime.getTime()) - x(drawdown.peakTime.getTime())).toFixed(1)}" height="${height - top - bottom}"><title>Max drawdown $${drawdown.maxDrawdown.toFixed(2)}</title></rect>` :
+    '';
+
+  return `<svg class="chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Equity curve">
+${shade}
+<line class="axis" x1="${left}" y1="${y(0).toFixed(1)}" x2="${width - right}" y2="${y(0).toFixed(1)}"/>
+${[max, 0, min].filter((value, i) => i === 1 || value !== 0).map(value => `<text class="tick" x="${left - 6}" y="${(y(value) + 4).toFixed(1)}" text-anchor="end">${value === 0 ? '$0' : signedMoney(value, 0)}</text>`).join('\n')}
+<text class="tick" x="${left}" y="${height - 8}">${formatTime(new Date(start)).slice(0, 10)}</text>
+<text class="tick" x="${width - right}" y="${height - 8}" text-anchor="end">${formatTime(new Date(end)).slice(0, 10)}</text>
+<polyline class="peak" points="${steps(curve.points.map(point => point.peak))}"/>
+<polyline class="equity" points="${steps(curve.points.map(point => point.equity))}"/>
+</svg>
+<p class="legend"><span class="swatch equity"></span> Equity <span class="swatch peak"></span> High-water mark <span class="swatch drawdown"></span> Max drawdown. Final equity ${signedMoney(curve.finalEquity)}.</p>`;
+}
+
+// Horizontal bars of net PnL per symbol around a zero line
+function symbolChart(breakdown: { [symbol: string]: { net: PnlBreakdown } }): string {
+  const entries = Object.entries(breakdown).sort((a, b) => b[1].net.netPnl - a[1].net.netPnl);
+  if (entries.length === 0) return '<p class="empty">No symbols.</p>';
+
+  const width = 900;
+  const labelWidth = 150;
+  const valueWidth = 110;
+  const rowHeight = 30;
+  const height = entries.length * rowHeight + 10;
+  const values = entries.map(([, data]) => data.net.netPnl);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const span = max - min || 1;
+  const plotWidth = width - labelWidth - valueWidth * 2;
+  const x = (value: number) => labelWidth + valueWidth + (value - min) / span * plotWidth;
+
+  const bars = entries.map(([symbol, data], i) => {
+    const value = data.net.netPnl;
+    const barY = 5 + i * rowHeight;
+    const barX = Math.min(x(0), x(value));
+    const labelX = value >= 0 ? x(value) + 6 : x(value) - 6;
+    return `<text class="label" x="0" y="${barY + 18}">${escapeHTML(symbol)}</text>
+<rect class="${value >= 0 ? 'bar-pos' : 'bar-neg'}" x="${barX.toFixed(1)}" y="${barY + 4}" width="${Math.max(1, Math.abs(x(value) - x(0))).toFixed(1)}" height="${rowHeight - 10}"><title>${escapeHTML(symbol)}: gross ${signedMoney(data.net.grossPnl)}, fees $${data.net.tradingFees.toFixed(2)}, funding ${signedMoney(data.net.funding)}, interest ${signedMoney(data.net.interest)}</title></rect>
+<text class="tick" x="${labelX.toFixed(1)}" y="${barY + 18}" text-anchor="${value >= 0 ? 'start' : 'end'}">${signedMoney(value)}</text>`;
+  });
+
+  return `<svg class="chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Net PnL by symbol">
+<line class="axis" x1="${x(0).toFixed(1)}" y1="0" x2="${x(0).toFixed(1)}" y2="${height}"/>
+${bars.join('\n')}
+</svg>`;
+}
+
+function breakdownTable(rows: Array<[string, number, PnlBreakdown]>, firstColumn: string): string {
+  return `<table class="sortable">
+<thead><tr><th>${escapeHTML(firstColumn)}</th><th data-type="num">Positions</th><th data-type="num">Gross PnL</th><th data-type="num">Fees</th><th data-type="num">Funding</th><th data-type="num">Interest</th><th data-type="num">Net PnL</th></tr></thead>
+${rows.map(([name, positions, net]) => `<tbody><tr>${textCell(name)}${numberCell(positions)}${amountCell(net.grossPnl)}${amountCell(-net.tradingFees)}${amountCell(net.funding)}${amountCell(net.interest)}${amountCell(net.netPnl)}</tr></tbody>`).join('\n')}
+</table>`;
+}
+
+// Fills, lots, funding and interest of one position
+function positionDetail(position: CompletedPosition | OpenPosition): string {
+  const fills = position.fills.map(fill => `<tr>${timeCell(fill.timestamp)}${textCell(fill.side === 'Bid' ? 'Buy' : 'Sell')}${numberCell(Number(fill.quantity), fill.quantity)}${numberCell(Number(fill.price), fill.price)}${numberCell(Number(fill.fee), `${fill.fee} ${fill.feeSymbol}`)}${textCell(fill.tradeId)}${textCell(fill.orderId)}</tr>`);
+  const lots = position.lots.map(lot => `<tr>${timeCell(lot.openFill.timestamp)}${timeCell(lot.closeFill.timestamp)}${numberCell(lot.quantity)}${numberCell(lot.openPrice)}${numberCell(lot.closePrice)}${amountCell(lot.realizedPnl)}</tr>`);
+  const fundingTotal = position.funding.reduce((sum, event) => sum + event.amount, 0);
+  const interestTotal = position.interest.reduce((sum, event) => sum + event.amount, 0);
+
+  return `<h4>Fills (${position.fills.length})</h4>
+<table class="inner"><thead><tr><th>Time</th><th>Side</th><th>Quantity</th><th>Price</th><th>Fee</th><th>Trade</th><th>Order</th></tr></thead>
+<tbody>${fills.join('')}</tbody></table>
+${lots.length === 0 ? '' : `<h4>Matched lots (${lots.length})</h4>
+<table class="inner"><thead><tr><th>Opened</th><th>Closed</th><th>Quantity</th><th>Open price</th><th>Close price</th><th>Realized PnL</th></tr></thead>
+<tbody>${lots.join('')}</tbody></table>`}
+<p class="note">Funding: ${position.funding.length} payment(s), ${signedMoney(fundingTotal, 4)}. Interest: ${position.interest.length} payment(s), ${signedMoney(interestTotal, 4)}.</p>`;
+}
+
+function positionsTable(positions: CompletedPosition[], showAccount: boolean): string {
+  if (positions.length === 0) return '<p class="empty">No completed positions.</p>';
+
+  const columns = 14 + (showAccount ? 1 : 0);
+  const header = [
+    ...(showAccount ? ['<th>Account</th>'] : []),
+    '<th data-type="num">#</th>', '<th>Symbol</th>', '<th>Side</th>', '<th data-type="num">Size</th>',
+    '<th data-type="num">Entry</th>', '<th data-type="num">Exit</th>', '<th data-type="num">Opened</th>',
+    '<th data-type="num">Closed</th>', '<th data-type="num">Held</th>', '<th data-type="num">Realized PnL</th>',
+    '<th data-type="num">Fees</th>', '<th data-type="num">Funding</th>', '<th data-type="num">Interest</th>',
+    '<th data-type="num">Net PnL</th>'
+  ].join('');
+
+  // One tbody per position keeps its detail row with it when sorting
+  const bodies = positions.map(position => `<tbody><tr class="position" title="Show fills">${[
+    ...(showAccount ? [textCell(position.account || '')] : []),
+    numberCell(position.id),
+    textCell(position.symbol),
+    textCell(position.side),
+    numberCell(position.size),
+    numberCell(position.entryPrice, position.entryPrice.toFixed(4)),
+    numberCell(position.exitPrice, position.exitPrice.toFixed(4)),
+    timeCell(position.entryTime),
+    timeCell(position.exitTime),
+    numberCell(position.exitTime.getTime() - position.entryTime.getTime(), position.duration),
+    amountCell(position.realizedPnl),
+    amountCell(-position.totalFees),
+    amountCell(position.netFunding),
+    amountCell(position.netInterest),
+    amountCell(position.netPnl)
+  ].join('')}</tr>
+<tr class="detail" hidden><td colspan="${columns}">${positionDetail(position)}</td></tr></tbody>`);
+
+  return `<table class="sortable positions">
+<thead><tr>${header}</tr></thead>
+${bodies.join('\n')}
+</table>`;
+}
+
+function openPositionsTable(positions: OpenPosition[], showAccount: boolean): string {
+  if (positions.length === 0) return '<p class="empty">No open positions.</p>';
+
+  const columns = 10 + (showAccount ? 1 : 0);
+  const bodies = positions.map(position => `<tbody><tr class="position" title="Show fills">${[
+    ...(showAccount ? [textCell(position.account || '')] : []),
+    numberCell(position.id),
+    textCell(position.symbol),
+    textCell(position.side),
+    numberCell(position.size),
+    numberCell(position.averageEntryPrice, position.averageEntryPrice.toFixed(4)),
+    position.markPrice === null ? textCell('n/a') : numberCell(position.markPrice, position.markPrice.toFixed(4)),
+    timeCell(position.entryTime),
+    amountCell(position.realizedPnl),
+    position.unrealizedPnl === null ? textCell('n/a') : amountCell(position.unrealizedPnl),
+    amountCell(-position.totalFees)
+  ].join('')}</tr>
+<tr class="detail" hidden><td colspan="${columns}">${positionDetail(position)}</td></tr></tbody>`);
+
+  return `<table class="sortable positions">
+<thead><tr>${showAccount ? '<th>Account</th>' : ''}<th data-type="num">#</th><th>Symbol</th><th>Side</th><th data-type="num">Size</th><th data-type="num">Avg entry</th><th data-type="num">Mark</th><th data-type="num">Opened</th><th data-type="num">Realized PnL</th><th data-type="num">Unrealized PnL</th><th data-type="num">Fees</th></tr></thead>
+${bodies.join('\n')}
+</table>`;
+}
+
+function describeFilters(filters: RecordFilters | undefined, accounts: AccountAnalysis[]): string {
+  const parts = [
+    filters?.symbol ? `symbol ${filters.symbol}` : '',
+    filters?.from !== undefined ? `from ${new Date(filters.from).toISOString()}` : '',
+    filters?.to !== undefined ? `to ${new Date(filters.to).toISOString()}` : '',
+    filters?.side ? `${filters.side.toLowerCase()} positions only` : '',
+    accounts.length > 0 ? `accounts ${accounts.map(account => account.account).join(', ')}` : ''
+  ].filter(part => part !== '');
+  return parts.length > 0 ? parts.join(', ') : 'all history';
+}
+
+const STYLE = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 13px; margin: 24px auto; max-width: 1200px; padding: 0 16px; color: #1b1f24; background: #fafbfc; }
+  h1 { font-size: 22px; margin-bottom: 2px; }
+  h2 { font-size: 16px; margin-top: 32px; border-bottom: 1px solid #d8dee4; padding-bottom: 4px; }
+  h4 { margin: 10px 0 4px; }
+  .meta, .note, .legend, .empty { color: #57606a; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(170px, 1fr)); gap: 10px; margin-top: 16px; }
+  .card { background: #fff; border: 1px solid #d8dee4; border-radius: 6px; padding: 10px 12px; }
+  .card .label { color: #57606a; font-size: 12px; }
+  .card .value { font-size: 20px; font-weight: 600; margin-top: 2px; }
+  .card .note { font-size: 11px; margin-top: 2px; }
+  .pos { color: #1a7f37; }
+  .neg { color: #cf222e; }
+  svg.chart { width: 100%; height: auto; background: #fff; border: 1px solid #d8dee4; border-radius: 6px; }
+  svg .axis { stroke: #8c959f; stroke-width: 1; }
+  svg .tick, svg .label { font-size: 12px; fill: #57606a; }
+  svg .label { fill: #1b1f24; }
+  svg .equity { fill: none; stroke: #0969da; stroke-width: 1.5; }
+  svg .peak { fill: none; stroke: #8c959f; stroke-width: 1; stroke-dasharray: 4 3; }
+  svg .drawdown { fill: #cf222e; opacity: 0.12; }
+  svg .bar-pos { fill: #2da44e; }
+  svg .bar-neg { fill: #cf222e; }
+  .swatch { display: inline-block; width: 14px; height: 3px; vertical-align: middle; margin-left: 10px; }
+  .swatch.equity { background: #0969da; }
+  .swatch.peak { border-top: 1px dashed #8c959f; height: 0; }
+  .swatch.drawdown { background: rgba(207, 34, 46, 0.2); height: 10px; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  th, td { border-bottom: 1px solid #eaeef2; padding: 4px 8px; text-align: left; white-space: nowrap; }
+  th { background: #f3f4f6; position: sticky; top: 0; }
+  table.sortable > thead th { cursor: pointer; user-select: none; }
+  table.sortable > thead th[data-order="asc"]::after { content: " ▲"; }
+  table.sortable > thead th[data-order="desc"]::after { content: " ▼"; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  tr.position { cursor: pointer; }
+  tr.position:hover { background: #f6f8fa; }
+  tr.detail > td { background: #f6f8fa; padding: 8px 16px 12px; white-space: normal; }
+  table.inner { width: auto; }
+  table.inner th { position: static; }
+  @media print { tr.detail[hidden] { display: none; } body { background: #fff; } }
+`;
+
+// Sorting keeps each tbody (a position and its detail row) together
+const SCRIPT = `
+  document.querySelectorAll('table.sortable').forEach(function (table) {
+    var headers = table.tHead.rows[0].cells;
+    Array.prototype.forEach.call(headers, function (th, index) {
+      th.addEventListener('click', function () {
+        var ascending = th.dataset.order !== 'asc';
+        var numeric = th.dataset.type === 'num';
+        Array.prototype.forEach.call(headers, function (other) { delete other.dataset.order; });
+        th.dataset.order = ascending ? 'asc' : 'desc';
+        var key = function (body) {
+          var cell = body.rows[0].cells[index];
+          var value = cell.dataset.value !== undefined ? cell.dataset.value : cell.textContent;
+          return numeric ? parseFloat(value) : value.toLowerCase();
+        };
+        var bodies = Array.prototype.slice.call(table.tBodies);
+        bodies.sort(function (a, b) {
+          var x = key(a), y = key(b);
+          if (numeric && isNaN(x)) return 1;
+          if (numeric && isNaN(y)) return -1;
+          return (x < y ? -1 : x > y ? 1 : 0) * (ascending ? 1 : -1);
+        });
+        bodies.forEach(function (body) { table.appendChild(body); });
+      });
+    });
+  });
+  document.querySelectorAll('tr.position').forEach(function (row) {
+    row.addEventListener('click', function () {
+      var detail = row.nextElementSibling;
+      detail.hidden = !detail.hidden;
+    });
+  });
+`;
+
+/**
+ * A single static HTML page: summary cards, equity curve, PnL by symbol,
+ * sortable positions with drill-down to every fill. Styles, charts (inline
+ * SVG) and script are embedded, so the file can be emailed or archived.
+ */
+export function formatPerformanceReportAsHTML(input: PerformanceReportInput): string {
+  const { analysis, equityCurve } = input;
+  const accounts = input.accounts || [];
+  const showAccount = accounts.length > 0;
+  const generatedAt = input.generatedAt || new Date();
+
+  const symbolRows: Array<[string, number, PnlBreakdown]> = Object.entries(analysis.summary.symbolBreakdown)
+    .map(([symbol, data]) => [symbol, data.positions, data.net]);
+  const accountRows: Array<[string, number, PnlBreakdown]> = accounts
+    .map(account => [account.account, account.analysis.summary.totalPositions, account.analysis.summary.net]);
+
+  const title = 'Backpack perp trading report';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+<p class="meta">Generated ${escapeHTML(formatTime(generatedAt))} UTC. Selection: ${escapeHTML(describeFilters(input.filters, accounts))}. Lot matching: ${escapeHTML(analysis.lotMatching)}.</p>
+
+<div class="cards">
+${summaryCards(input)}
+</div>
+
+<h2>Equity curve</h2>
+${equityChart(equityCurve)}
+
+<h2>Net PnL by symbol</h2>
+${symbolChart(analysis.summary.symbolBreakdown)}
+${breakdownTable(symbolRows, 'Symbol')}
+<p class="note">Per-symbol figures include the realized part of open positions and funding and interest outside reconstructed positions.</p>
+${showAccount ? `
+<h2>By account</h2>
+${breakdownTable(accountRows, 'Account')}` : ''}
+
+<h2>Completed positions (${analysis.completedPositions.length})</h2>
+<p class="note">Click a column to sort, a row to show its fills, lots, funding and interest.</p>
+${positionsTable(analysis.completedPositions, showAccount)}
+
+<h2>Open positions (${analysis.openPositions.length})</h2>
+${openPositionsTable(analysis.openPositions, showAccount)}
+
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
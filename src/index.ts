@@ -1,22 +1,78 @@
 import * as dotenv from 'dotenv';
-import { BackpackAPI } from './api';
-import { BackpackCredentials, BackpackFill, BackpackOrder, BackpackFundingPayment, BackpackSettlement, BackpackFundingHistory, BackpackBalance, BackpackDeposit, BackpackWithdrawal, BackpackPosition, BackpackAccount, BackpackInterestHistory } from './types';
-import { PositionReconstructor, formatPositionForCLI, formatPositionsAsTable, formatPositionsAsDetailedJSON } from './analysis';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BackpackAPI, BackpackAPIOptions } from './api';
+import { BackpackAuth } from './auth';
+import { BackpackCredentials, BackpackFill, BackpackOrder, BackpackFundingPayment, BackpackSettlement, BackpackFundingHistory, BackpackBalance, BackpackDeposit, BackpackWithdrawal, BackpackPosition, BackpackAccount, BackpackInterestHistory, BackpackOpenPosition, HistoryQuery, TimeRange, TradingData } from './types';
+import { PositionAnalysis, PositionReconstructor, formatPositionForCLI, formatPositionsAsTable, formatOpenPositionsAsTable, formatPositionsAsDetailedJSON, formatPositionsAsCSV, formatPnlBreakdownAsJSON, formatPnlBreakdownForCLI } from './analysis';
+import { LotMatchingMethod, LOT_MATCHING_METHODS } from './lots';
+import { PerformanceStatistics, formatStatisticsForCLI, formatStatisticsAsJSON } from './statistics';
+import { EquityCurve, EquityCurveBuilder, formatEquityCurveForCLI, formatEquityCurveAsJSON } from './equity';
+import { LocalStore, HistoryDataset, HISTORY_DATASET_NAMES } from './store';
+import { PaginationOptions } from './paginator';
+import { BackpackApiError, BackpackAuthError, BackpackRateLimitError } from './errors';
+import { Keystore, KeystoreError, validatePrivateKey } from './keystore';
+import { prompt, readPassphrase } from './prompt';
+import { CredentialDoctor, formatDoctorReportForCLI } from './doctor';
+import { AccountAggregator, AccountAnalysis, AccountConfig, AccountConfigError, loadAccountConfig, formatAccountSummaryForCLI, formatAccountSummaryAsJSON } from './accounts';
+import { CliUsageError, CommandLine, OutputFormat, USAGE, parseCommandLine } from './cli';
+import { RECONSTRUCTION_DATASETS, filterAnalysis, historyQueries, filterTradingDataBySymbol, filterTradingDataByTime, inTimeRange, lookBackForOpenPositions, matchesSymbol } from './filters';
+import { normalizeFunding } from './funding';
+import { CSVExporter } from './exporter';
+import { ACCOUNTING_FORMATS, AccountingExporter, AccountingFormat, formatAccountingAsCSV } from './accounting';
+import { formatPerformanceReportAsHTML } from './html';
+import { TaxReportBuilder, TaxReportError, TaxReportOptions, formatDisposalsAsCSV, formatTaxReportAsHTML, formatTaxReportAsJSON, formatTaxReportAsText, writeTaxReport } from './tax';
+import {
+  BalanceSection,
+  FundingRow,
+  formatAccountInfoForCLI,
+  formatBalancesForCLI,
+  formatBalancesAsJSON,
+  formatBalancesAsCSV,
+  formatFundingForCLI,
+  formatFundingAsJSON,
+  formatFundingAsCSV,
+  formatInterestHistoryForCLI,
+  formatInterestHistoryAsJSON,
+  formatInterestHistoryAsCSV,
+  formatSummaryAsCSV
+} from './reports';
 
 dotenv.config();
 
-interface TradingData {
-  fills: BackpackFill[];
-  orders: BackpackOrder[];
-  fundingPayments: BackpackFundingPayment[];
-  settlements: BackpackSettlement[];
-  fundingHistory: BackpackFundingHistory[];
-  balances: BackpackBalance;
-  deposits: BackpackDeposit[];
-  withdrawals: BackpackWithdrawal[];
-  positions: BackpackPosition[];
-  account: BackpackAccount;
-  interestHistory: BackpackInterestHistory[];
+type ReportCommand = 'summary' | 'positions' | 'funding' | 'interest' | 'balances' | 'export' | 'accounting' | 'tax';
+
+const ALL_DATASETS: ReadonlyArray<keyof TradingData> = [
+  'fills', 'orders', 'fundingPayments', 'settlements', 'fundingHistory', 'balances',
+  'deposits', 'withdrawals', 'positions', 'account', 'interestHistory'
+];
+const POSITION_DATASETS: ReadonlyArray<keyof TradingData> = [
+  'fills', 'orders', 'fundingPayments', 'settlements', 'fundingHistory', 'interestHistory'
+];
+
+// What each report fetches, so e.g. `balances` does not page through every fill
+const COMMAND_DATASETS: { [command in ReportCommand]: ReadonlyArray<keyof TradingData> } = {
+  summary: POSITION_DATASETS,
+  positions: POSITION_DATASETS,
+  funding: ['fundingPayments', 'fundingHistory'],
+  interest: ['interestHistory'],
+  balances: ['balances', 'account'],
+  export: ALL_DATASETS,
+  accounting: ['fills', 'fundingPayments', 'settlements', 'fundingHistory', 'interestHistory', 'deposits', 'withdrawals'],
+  tax: ['fills', 'fundingPayments', 'settlements', 'fundingHistory', 'interestHistory']
+};
+
+// Reports built from reconstructed positions, which need the fills of positions open at the start of a range
+const POSITION_COMMANDS: ReadonlyArray<ReportCommand> = ['summary', 'positions', 'export', 'accounting', 'tax'];
+
+// Entered once per run, even when several accounts use keystore profiles
+let keystorePassphrase: string | undefined;
+
+interface Workspace {
+  data: TradingData; // Perpetual records for the selected symbol, tagged by account when several are analysed
+  spotFills: BackpackFill[]; // Spot fills for the selected symbol, loaded for the accounting export only
+  analysis: PositionAnalysis; // Narrowed to the filters
+  accounts: AccountAnalysis[]; // Per-account results; empty for a single-account run
 }
 
 function validateEnvironment(): BackpackCredentials {
@@ -26,6 +82,7 @@ function validateEnvironment(): BackpackCredentials {
   if (!apiKey || !privateKey) {
     console.error('Error: Missing required environment variables.');
     console.error('Please set BACKPACK_API_KEY and BACKPACK_PRIVATE_KEY in your .env file.');
+    console.error('Or use an encrypted keystore profile: npm run dev -- keystore import <profile>, then --profile <profile>.');
     console.error('See .env.example for the required format.');
     process.exit(1);
   }
@@ -33,11 +90,197 @@ function validateEnvironment(): BackpackCredentials {
   return { apiKey, privateKey };
 }
 
-function filterPerpetualTrades(data: TradingData): TradingData {
-  const isPerpSymbol = (symbol: string): boolean => {
-    return symbol.includes('PERP') || symbol.includes('_PERP') || symbol.endsWith('-PERP');
-  };
+/**
+ * Name of the keystore profile to use, from --profile or BACKPACK_PROFILE.
+ */
+function selectedProfile(cli: CommandLine): string | undefined {
+  return cli.profile || process.env.BACKPACK_PROFILE;
+}
+
+/**
+ * Credentials from a keystore profile (--profile or BACKPACK_PROFILE), or
+ * from BACKPACK_API_KEY / BACKPACK_PRIVATE_KEY otherwise.
+ */
+async function resolveAuth(cli: CommandLine): Promise<BackpackAuth> {
+  const profile = selectedProfile(cli);
+  if (!profile) {
+    return new BackpackAuth(validateEnvironment());
+  }
+
+  return unlockProfile(profile);
+}
+
+async function unlockProfile(profile: string): Promise<BackpackAuth> {
+  const keystore = new Keystore();
+  progress(`🔐 Unlocking profile "${profile}" from ${keystore.file}`);
+  keystorePassphrase = keystorePassphrase || await readPassphrase();
+  return BackpackAuth.fromKeystore(profile, keystorePassphrase, keystore);
+}
+
+/**
+ * Accounts from the file named by --accounts or BACKPACK_ACCOUNTS, narrowed
+ * to --account when given, or null for a single-account run.
+ */
+async function selectedAccounts(cli: CommandLine): Promise<AccountConfig[] | null> {
+  const file = cli.accountsFile || process.env.BACKPACK_ACCOUNTS;
+  if (!file) {
+    if (cli.accounts) throw new CliUsageError('--account needs an accounts file (--accounts or BACKPACK_ACCOUNTS)');
+    return null;
+  }
+
+  const accounts = await loadAccountConfig(file);
+  if (!cli.accounts) return accounts;
+
+  for (const name of cli.accounts) {
+    if (!accounts.some(account => account.name === name)) {
+      throw new CliUsageError(`Unknown account "${name}"; ${file} has ${accounts.map(account => account.name).join(', ')}`);
+    }
+  }
+  return accounts.filter(account => cli.accounts!.includes(account.name));
+}
+
+async function resolveAccountAuth(account: AccountConfig): Promise<BackpackAuth> {
+  if (account.profile) {
+    return unlockProfile(account.profile);
+  }
+
+  const prefix = account.envPrefix || 'BACKPACK';
+  const apiKey = process.env[`${prefix}_API_KEY`];
+  const privateKey = process.env[`${prefix}_PRIVATE_KEY`];
+  if (!apiKey || !privateKey) {
+    throw new AccountConfigError(`Account "${account.name}": set ${prefix}_API_KEY and ${prefix}_PRIVATE_KEY, or give it a keystore profile`);
+  }
+  return new BackpackAuth({ apiKey, privateKey });
+}
+
+async function runDoctorCommand(cli: CommandLine): Promise<void> {
+  console.log('🩺 Checking Backpack credentials...\n');
+
+  // Unlike resolveAuth, missing env keys are reported instead of exiting
+  const profile = selectedProfile(cli);
+  const credentials: Partial<BackpackCredentials> = profile
+    ? await new Keystore().unlock(profile, await readPassphrase())
+    : { apiKey: process.env.BACKPACK_API_KEY, privateKey: process.env.BACKPACK_PRIVATE_KEY };
+  console.log(`Source: ${profile ? `keystore profile "${profile}"` : 'environment (.env)'}\n`);
+
+  const api = cli.online && credentials.apiKey && credentials.privateKey
+    ? new BackpackAPI(credentials as BackpackCredentials, { ...signingOptions(), baseURL: process.env.BACKPACK_BASE_URL, retry: { maxRetries: 0 } })
+    : undefined;
+
+  const report = await CredentialDoctor.check(credentials, { api });
+  console.log(formatDoctorReportForCLI(report));
+
+  if (!report.ok) process.exit(1);
+}
+
+async function runKeystoreCommand(args: string[]): Promise<void> {
+  const [command, name] = args;
+  const keystore = new Keystore();
+
+  switch (command) {
+    case 'import': {
+      if (!name) throw new KeystoreError('Usage: keystore import <profile>');
 
+      // Import from the environment when set, otherwise ask
+      const apiKey = process.env.BACKPACK_API_KEY || await prompt('API key: ');
+      const privateKey = process.env.BACKPACK_PRIVATE_KEY || await prompt('Private key (base64): ', true);
+      validatePrivateKey(privateKey);
+      if (BackpackAuth.publicKeyFor(privateKey) !== apiKey) {
+        console.warn('⚠️  Warning: the private key does not derive the given API key.');
+      }
+
+      const isNew = !(await keystore.exists());
+      const passphrase = await readPassphrase(isNew ? 'New keystore passphrase: ' : 'Keystore passphrase: ', isNew);
+      await keystore.import(name, { apiKey, privateKey }, passphrase);
+      console.log(`✅ Imported profile "${name}" into ${keystore.file}`);
+      if (process.env.BACKPACK_PRIVATE_KEY) {
+        console.log('You can now remove BACKPACK_PRIVATE_KEY from your .env and run with --profile ' + name);
+      }
+      break;
+    }
+    case 'list': {
+      const profiles = await keystore.list();
+      if (profiles.length === 0) {
+        console.log(`No profiles in ${keystore.file}`);
+        break;
+      }
+      console.log(`🔐 Profiles in ${keystore.file}:`);
+      for (const profile of profiles) {
+        console.log(`├─ ${profile.name}: ${profile.apiKey} (added ${profile.createdAt.toLocaleDateString()})`);
+      }
+      break;
+    }
+    case 'remove': {
+      if (!name) throw new KeystoreError('Usage: keystore remove <profile>');
+      await keystore.remove(name);
+      console.log(`🗑️  Removed profile "${name}"`);
+      break;
+    }
+    case 'unlock': {
+      if (!name) throw new KeystoreError('Usage: keystore unlock <profile>');
+      const credentials = await keystore.unlock(name, await readPassphrase());
+      console.log(`🔓 Profile "${name}" unlocked (API key ${credentials.apiKey})`);
+      break;
+    }
+    default:
+      throw new KeystoreError('Usage: keystore <import|list|remove|unlock> [profile]');
+  }
+}
+
+/**
+ * Receive window and server time sync from BACKPACK_WINDOW and
+ * BACKPACK_TIME_SYNC.
+ */
+function signingOptions(): Pick<BackpackAPIOptions, 'window' | 'timeSync'> {
+  const window = process.env.BACKPACK_WINDOW ? Number(process.env.BACKPACK_WINDOW) : undefined;
+  const timeSync = ['1', 'true', 'yes'].includes((process.env.BACKPACK_TIME_SYNC || '').toLowerCase());
+  return { window, timeSync: { enabled: timeSync } };
+}
+
+/**
+ * Longest from/to span per trade history request, from
+ * BACKPACK_MAX_RANGE_DAYS. Unset keeps each endpoint's default window.
+ */
+function maxRangeMs(): number | undefined {
+  const value = process.env.BACKPACK_MAX_RANGE_DAYS;
+  if (!value) return undefined;
+
+  const days = Number(value);
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new CliUsageError(`BACKPACK_MAX_RANGE_DAYS must be a positive number of days, got "${value}"`);
+  }
+  return days * 24 * 60 * 60 * 1000;
+}
+
+function createAPI(auth: BackpackAuth): BackpackAPI {
+  return new BackpackAPI(auth, {
+    ...signingOptions(),
+    maxRangeMs: maxRangeMs(),
+    baseURL: process.env.BACKPACK_BASE_URL,
+    onRetry: (error: BackpackApiError, attempt: number, delayMs: number) => {
+      progress(`${error.message} - retry ${attempt} in ${(delayMs / 1000).toFixed(1)}s`);
+    }
+  });
+}
+
+function parseLotMatchingMethod(value: string | undefined): LotMatchingMethod {
+  if (!value) return 'FIFO';
+
+  const method = LOT_MATCHING_METHODS.find(m => m.toLowerCase() === value.toLowerCase());
+  if (!method) {
+    console.error(`Error: Unknown LOT_MATCHING method "${value}".`);
+    console.error(`Supported methods: ${LOT_MATCHING_METHODS.join(', ')}`);
+    process.exit(1);
+  }
+
+  return method;
+}
+
+function isPerpSymbol(symbol: string): boolean {
+  return symbol.includes('PERP') || symbol.includes('_PERP') || symbol.endsWith('-PERP');
+}
+
+function filterPerpetualTrades(data: TradingData): TradingData {
   return {
     fills: data.fills.filter(fill => isPerpSymbol(fill.symbol)),
     orders: data.orders.filter(order => isPerpSymbol(order.symbol)),
@@ -53,343 +296,732 @@ function filterPerpetualTrades(data: TradingData): TradingData {
   };
 }
 
-
-function displayRawDataAsJSON(data: TradingData): void {
-  console.log('\n' + '='.repeat(60));
-  console.log('📄 RAW TRADING DATA (JSON)');
-  console.log('='.repeat(60));
-  console.log(JSON.stringify(data, null, 2));
+/**
+ * Status lines while credentials are unlocked and data is fetched or loaded.
+ * They go to stderr, so stdout only carries a report and can be redirected.
+ */
+function progress(message: string): void {
+  console.error(message);
 }
 
-function displayAccountInfo(account: BackpackAccount): void {
-  console.log('\n' + '='.repeat(60));
-  console.log('👤 ACCOUNT INFORMATION');
-  console.log('='.repeat(60));
-  
-  if (!account || Object.keys(account).length === 0) {
-    console.log('No account information available');
-    return;
-  }
-
-  console.log('Account Settings:');
-  if (account.autoBorrowSettlements !== undefined) {
-    console.log(`├─ Auto Borrow Settlements: ${account.autoBorrowSettlements ? 'Enabled' : 'Disabled'}`);
-  }
-  if (account.autoLend !== undefined) {
-    console.log(`├─ Auto Lend: ${account.autoLend ? 'Enabled' : 'Disabled'}`);
-  }
-  if (account.leverageLimit !== undefined) {
-    console.log(`├─ Leverage Limit: ${account.leverageLimit}`);
-  }
-  if (account.limitOrders !== undefined) {
-    console.log(`├─ Limit Orders: ${account.limitOrders}`);
-  }
-  if (account.liquidating !== undefined) {
-    console.log(`└─ Liquidating: ${account.liquidating ? 'Yes' : 'No'}`);
-  }
-
-  // Display any additional fields
-  const knownFields = ['autoBorrowSettlements', 'autoLend', 'leverageLimit', 'limitOrders', 'liquidating'];
-  const additionalFields = Object.keys(account).filter(key => !knownFields.includes(key));
-  
-  if (additionalFields.length > 0) {
-    console.log('\nAdditional Account Data:');
-    additionalFields.forEach(field => {
-      console.log(`├─ ${field}: ${JSON.stringify(account[field])}`);
-    });
-  }
+function logProgress(label: string): PaginationOptions {
+  return {
+    onPage: page => progress(`Fetched ${page.total} ${label}...`)
+  };
 }
 
-function displayInterestHistory(interestHistory: BackpackInterestHistory[]): void {
-  console.log('\n' + '='.repeat(60));
-  console.log('💰 INTEREST HISTORY');
-  console.log('='.repeat(60));
-  
-  if (interestHistory.length === 0) {
-    console.log('No interest history found');
-    return;
-  }
+/**
+ * Fills before `from` of the positions still open at it, and when the
+ * oldest of those opened. Without the open positions endpoint every fill
+ * before `from` is fetched.
+ */
+async function fetchEarlierFills(
+  api: BackpackAPI,
+  query: HistoryQuery = {},
+  from: number,
+  fillsSince: BackpackFill[]
+): Promise<{ start?: number; fills: BackpackFill[] }> {
+  const fetchFills = (range: TimeRange) => api.getAllFills({ ...query, ...range }, logProgress('earlier fills'));
 
-  // Filter by payment types as available from API
-  const unrealizedPnlInterest = interestHistory.filter(interest => 
-    interest.paymentType === 'UnrealizedPnl'
-  );
-  const borrowLendInterest = interestHistory.filter(interest => 
-    interest.paymentType === 'Lend' || interest.paymentType === 'Borrow'
-  );
-
-  console.log(`Total Interest Records: ${interestHistory.length}\n`);
-
-  // Display UnrealizedPnl interest
-  if (unrealizedPnlInterest.length > 0) {
-    console.log('💹 UNREALIZED PNL INTEREST:');
-    console.log('-'.repeat(50));
-    unrealizedPnlInterest.forEach((interest, i) => {
-      const date = new Date(interest.timestamp).toLocaleString();
-      const amountColor = parseFloat(interest.quantity) >= 0 ? '32' : '31'; // Green for positive, red for negative
-      const amountSign = parseFloat(interest.quantity) >= 0 ? '+' : '';
-      
-      console.log(`${i + 1}. ${interest.symbol}`);
-      console.log(`   Amount: \x1b[${amountColor}m${amountSign}${interest.quantity}\x1b[0m`);
-      console.log(`   Interest Rate: ${interest.interestRate}`);
-      console.log(`   Date: ${date}`);
-      console.log(`   Payment Type: ${interest.paymentType}`);
-      console.log('');
-    });
+  let openPositions: BackpackOpenPosition[];
+  try {
+    openPositions = (await api.getOpenPositions()).filter(position => !query.symbol || position.symbol === query.symbol);
+  } catch (error) {
+    progress('Open positions endpoint not available, fetching every fill before the date range');
+    return { start: undefined, fills: await fetchFills({ to: from - 1 }) };
   }
 
-  // Display BorrowLend interest
-  if (borrowLendInterest.length > 0) {
-    console.log('🏦 BORROW/LEND INTEREST:');
-    console.log('-'.repeat(50));
-    borrowLendInterest.forEach((interest, i) => {
-      const date = new Date(interest.timestamp).toLocaleString();
-      const amountColor = parseFloat(interest.quantity) >= 0 ? '32' : '31'; // Green for positive, red for negative
-      const amountSign = parseFloat(interest.quantity) >= 0 ? '+' : '';
-      
-      console.log(`${i + 1}. ${interest.symbol}`);
-      console.log(`   Amount: \x1b[${amountColor}m${amountSign}${interest.quantity}\x1b[0m`);
-      console.log(`   Interest Rate: ${interest.interestRate}`);
-      console.log(`   Date: ${date}`);
-      console.log(`   Payment Type: ${interest.paymentType}`);
-      console.log('');
-    });
+  const lookback = await lookBackForOpenPositions(from, fillsSince, openPositions, fetchFills);
+  if (lookback.start < from) {
+    progress(`Positions open at ${new Date(from).toISOString()} go back to ${new Date(lookback.start).toISOString()}`);
   }
+  return lookback;
+}
 
-  // Display summary
-  const totalUnrealizedAmount = unrealizedPnlInterest.reduce((sum, interest) => 
-    sum + parseFloat(interest.quantity), 0
-  );
-  const totalBorrowLendAmount = borrowLendInterest.reduce((sum, interest) => 
-    sum + parseFloat(interest.quantity), 0
-  );
-  const grandTotal = totalUnrealizedAmount + totalBorrowLendAmount;
+async function fetchTradingData(
+  api: BackpackAPI,
+  queries: Partial<Record<HistoryDataset, HistoryQuery>> = {},
+  subaccountId: number = 0,
+  datasets: ReadonlyArray<keyof TradingData> = ALL_DATASETS,
+  positionsFrom?: number, // Start of a date range that positions are rebuilt for
+  spotQuery?: HistoryQuery // Spot fills are fetched separately, as the fills query is for perps
+): Promise<TradingData> {
+  const include = new Set(datasets);
 
-  console.log('📊 INTEREST SUMMARY:');
-  console.log('-'.repeat(30));
-  
-  const unrealizedColor = totalUnrealizedAmount >= 0 ? '32' : '31';
-  const unrealizedSign = totalUnrealizedAmount >= 0 ? '+' : '';
-  console.log(`UnrealizedPnl Total: \x1b[${unrealizedColor}m${unrealizedSign}${totalUnrealizedAmount.toFixed(8)}\x1b[0m`);
-  
-  const borrowLendColor = totalBorrowLendAmount >= 0 ? '32' : '31';
-  const borrowLendSign = totalBorrowLendAmount >= 0 ? '+' : '';
-  console.log(`BorrowLend Total: \x1b[${borrowLendColor}m${borrowLendSign}${totalBorrowLendAmount.toFixed(8)}\x1b[0m`);
-  
-  const grandTotalColor = grandTotal >= 0 ? '32' : '31';
-  const grandTotalSign = grandTotal >= 0 ? '+' : '';
-  console.log(`Grand Total: \x1b[${grandTotalColor}m${grandTotalSign}${grandTotal.toFixed(8)}\x1b[0m`);
-}
+  let fills: BackpackFill[] = [];
+  if (include.has('fills')) {
+    progress('Fetching fills data...');
+    fills = await api.getAllFills(queries.fills, logProgress('fills'));
 
-async function main(): Promise<void> {
-  try {
-    console.log('🚀 Starting Backpack Exchange historical data fetch...\n');
+    if (positionsFrom !== undefined) {
+      const earlier = await fetchEarlierFills(api, queries.fills, positionsFrom, fills);
+      fills = [...earlier.fills, ...fills];
 
-    const credentials = validateEnvironment();
-    const api = new BackpackAPI(credentials);
+      // Funding, interest and orders of those positions are needed from when they opened
+      queries = { ...queries };
+      for (const dataset of RECONSTRUCTION_DATASETS) {
+        if (dataset !== 'fills') {
+          queries[dataset] = { ...queries[dataset], from: earlier.start };
+        }
+      }
+    }
 
-    console.log('📊 Fetching all historical data...\n');
+    if (spotQuery) {
+      progress('Fetching spot fills...');
+      fills = [...fills, ...await api.getAllFills(spotQuery, logProgress('spot fills'))];
+    }
+  }
 
-    console.log('Fetching fills data...');
-    const fills = await api.getAllFills();
-    
-    console.log('Fetching orders data...');
-    let orders: BackpackOrder[] = [];
-    let fundingPayments: BackpackFundingPayment[] = [];
-    let settlements: BackpackSettlement[] = [];
-    let fundingHistory: BackpackFundingHistory[] = [];
-    let balances: BackpackBalance = {};
-    let deposits: BackpackDeposit[] = [];
-    let withdrawals: BackpackWithdrawal[] = [];
-    let positions: BackpackPosition[] = [];
-    let account: BackpackAccount = {};
-    let interestHistory: BackpackInterestHistory[] = [];
-    
+  let orders: BackpackOrder[] = [];
+  let fundingPayments: BackpackFundingPayment[] = [];
+  let settlements: BackpackSettlement[] = [];
+  let fundingHistory: BackpackFundingHistory[] = [];
+  let balances: BackpackBalance = {};
+  let deposits: BackpackDeposit[] = [];
+  let withdrawals: BackpackWithdrawal[] = [];
+  let positions: BackpackPosition[] = [];
+  let account: BackpackAccount = {};
+  let interestHistory: BackpackInterestHistory[] = [];
+  
+  if (include.has('orders')) {
     try {
-      orders = await api.getAllOrders();
-      console.log('Orders data fetched successfully');
+      orders = await api.getAllOrders(queries.orders, logProgress('orders'));
+      progress('Orders data fetched successfully');
     } catch (error) {
-      console.log('Orders endpoint not available');
+      progress('Orders endpoint not available');
     }
-    
+  }
+  
+  if (include.has('fundingPayments')) {
     try {
-      fundingPayments = await api.getAllFundingPayments();
-      console.log('Funding payments data fetched successfully');
+      fundingPayments = await api.getAllFundingPayments(queries.fundingPayments, logProgress('funding payments'));
+      progress('Funding payments data fetched successfully');
     } catch (error) {
-      console.log('Funding payments endpoint not available');
+      progress('Funding payments endpoint not available');
     }
-    
+  }
+  
+  if (include.has('settlements')) {
     try {
-      settlements = await api.getAllSettlements();
-      console.log('Settlements data fetched successfully');
+      settlements = await api.getAllSettlements(queries.settlements, logProgress('settlements'));
+      progress('Settlements data fetched successfully');
     } catch (error) {
-      console.log('Settlements endpoint not available');
+      progress('Settlements endpoint not available');
     }
-    
+  }
+  
+  if (include.has('fundingHistory')) {
     try {
-      fundingHistory = await api.getAllFundingHistory();
-      console.log('Funding history data fetched successfully');
+      fundingHistory = await api.getAllFundingHistory(queries.fundingHistory, logProgress('funding history records'));
+      progress('Funding history data fetched successfully');
     } catch (error) {
-      console.log('Funding history endpoint not available');
+      progress('Funding history endpoint not available');
     }
-    
+  }
+  
+  if (include.has('balances')) {
     try {
       balances = await api.getBalances();
-      console.log('Balances data fetched successfully');
+      progress('Balances data fetched successfully');
     } catch (error) {
-      console.log('Balances endpoint not available');
+      progress('Balances endpoint not available');
     }
-    
+  }
+  
+  if (include.has('deposits')) {
     try {
-      deposits = await api.getAllDeposits();
-      console.log('Deposits data fetched successfully');
+      deposits = await api.getAllDeposits(queries.deposits, logProgress('deposits'));
+      progress('Deposits data fetched successfully');
     } catch (error) {
-      console.log('Deposits endpoint not available');
+      progress('Deposits endpoint not available');
     }
-    
+  }
+  
+  if (include.has('withdrawals')) {
     try {
-      withdrawals = await api.getAllWithdrawals();
-      console.log('Withdrawals data fetched successfully');
+      withdrawals = await api.getAllWithdrawals(queries.withdrawals, logProgress('withdrawals'));
+      progress('Withdrawals data fetched successfully');
     } catch (error) {
-      console.log('Withdrawals endpoint not available');
+      progress('Withdrawals endpoint not available');
     }
-    
+  }
+  
+  if (include.has('positions')) {
     try {
-      positions = await api.getAllPositions(0, 'Closed');
-      console.log('Positions data fetched successfully');
+      positions = await api.getAllPositions(subaccountId, 'Closed', logProgress('positions'));
+      progress('Positions data fetched successfully');
     } catch (error) {
-      console.log('Positions endpoint not available');
+      progress('Positions endpoint not available');
     }
-    
+  }
+  
+  if (include.has('account')) {
     try {
       account = await api.getAccount();
-      console.log('Account data fetched successfully');
+      progress('Account data fetched successfully');
     } catch (error) {
-      console.log('Account endpoint not available');
+      progress('Account endpoint not available');
     }
-    
+  }
+  
+  if (include.has('interestHistory')) {
     try {
       // First test if any interest endpoint works
       await api.testInterestEndpoint();
       
       // If that doesn't throw, try the full fetch
-      interestHistory = await api.getAllInterestHistory();
-      console.log('Interest history data fetched successfully');
+      interestHistory = await api.getAllInterestHistory(queries.interestHistory, logProgress('interest records'));
+      progress('Interest history data fetched successfully');
     } catch (error) {
-      console.log('Interest history endpoint error:', error instanceof Error ? error.message : error);
+      progress(`Interest history endpoint error: ${error instanceof Error ? error.message : error}`);
       if (error instanceof Error && error.message.includes('response')) {
-        console.log('This might indicate the endpoint path is incorrect or the instruction type is wrong');
+        progress('This might indicate the endpoint path is incorrect or the instruction type is wrong');
       }
     }
+  }
+
+  return {
+    fills,
+    orders,
+    fundingPayments,
+    settlements,
+    fundingHistory,
+    balances,
+    deposits,
+    withdrawals,
+    positions,
+    account,
+    interestHistory,
+  };
+}
 
-    console.log('\n✅ Data fetch completed!\n');
-
-    const allData: TradingData = {
-      fills,
-      orders,
-      fundingPayments,
-      settlements,
-      fundingHistory,
-      balances,
-      deposits,
-      withdrawals,
-      positions,
-      account,
-      interestHistory,
-    };
-
-    console.log('🔍 Filtering for perpetual trades only...\n');
-    const perpData = filterPerpetualTrades(allData);
-
-    // Display raw JSON data
-    displayRawDataAsJSON(perpData);
-
-    // Display account information
-    displayAccountInfo(perpData.account);
-
-    // Display interest history
-    displayInterestHistory(perpData.interestHistory);
-
-    // Display positions from new endpoint
-    if (perpData.positions && perpData.positions.length > 0) {
-      console.log('\n' + '='.repeat(60));
-      console.log('🆕 POSITIONS FROM NEW ENDPOINT');
-      console.log('='.repeat(60));
-      console.log(JSON.stringify(perpData.positions, null, 2));
+async function syncStore(api: BackpackAPI, store: LocalStore, subaccountId: number = 0): Promise<void> {
+  // Only fetch records at or after the newest stored timestamp (or the
+  // oldest open order); overlap is removed by the store's id-based deduplication
+  const ranges: Partial<Record<HistoryDataset, TimeRange>> = {};
+  for (const dataset of HISTORY_DATASET_NAMES) {
+    const last = await store.resumeTimestamp(dataset);
+    if (last !== null) {
+      ranges[dataset] = { from: last };
+      progress(`${dataset}: syncing from ${new Date(last).toISOString()}`);
     } else {
-      console.log('\n' + '='.repeat(60));
-      console.log('🆕 POSITIONS FROM NEW ENDPOINT');
-      console.log('='.repeat(60));
-      console.log('No positions found or endpoint not available');
+      progress(`${dataset}: no stored records, fetching full history`);
+    }
+  }
+
+  const data = await fetchTradingData(api, ranges, subaccountId);
+
+  progress('\n💾 Updating local store...');
+  for (const dataset of HISTORY_DATASET_NAMES) {
+    const written = await store.append(dataset, data[dataset]);
+    progress(`${dataset}: ${written} new or updated record(s)`);
+  }
+
+  await store.saveSnapshot('balances', data.balances);
+  await store.saveSnapshot('account', data.account);
+  await store.saveSnapshot('positions', data.positions);
+  progress(`Store updated at ${store.directory}`);
+}
+
+/**
+ * One account's trading data, read from the local store or fetched from the
+ * API. Only the requested datasets are fetched, filtered by the API where
+ * the endpoint supports it.
+ */
+async function loadTradingData(
+  offline: boolean,
+  store: LocalStore,
+  auth: () => Promise<BackpackAuth>,
+  subaccountId: number = 0,
+  datasets: ReadonlyArray<keyof TradingData> = ALL_DATASETS,
+  queries: Partial<Record<HistoryDataset, HistoryQuery>> = {},
+  positionsFrom?: number,
+  spotQuery?: HistoryQuery
+): Promise<TradingData> {
+  if (offline) {
+    if (!(await store.hasData())) {
+      console.error(`Error: No stored data found in ${store.directory}.`);
+      console.error('Run a sync first: npm run dev -- sync');
+      process.exit(1);
     }
+    const data = await store.loadTradingData();
+    progress(`📂 Loaded ${data.fills.length} fills from ${store.directory}\n`);
+    return data;
+  }
 
-    // Perform position analysis
-    console.log('\n' + '='.repeat(60));
-    console.log('📊 POSITION ANALYSIS');
-    console.log('='.repeat(60));
+  const api = createAPI(await auth());
 
-    const positionAnalysis = PositionReconstructor.reconstructPositions(perpData.fills);
+  progress('📊 Fetching historical data...\n');
+  const data = await fetchTradingData(api, queries, subaccountId, datasets, positionsFrom, spotQuery);
+  progress('\n✅ Data fetch completed!\n');
+  return data;
+}
 
-    if (positionAnalysis.completedPositions.length === 0) {
-      console.log('\n❌ No completed positions found.');
-      console.log('This could mean:');
-      console.log('- All positions are still open');
-      console.log('- No perpetual trades were found');
-      console.log('- Only one-sided trades (no round trips)');
-    } else {
-      console.log(`\n✅ Found ${positionAnalysis.completedPositions.length} completed position(s):\n`);
-
-      // Display table format (like Backpack UI)
-      console.log('📊 POSITIONS TABLE (Backpack UI Format)');
-      console.log('='.repeat(60));
-      console.log(formatPositionsAsTable(positionAnalysis.completedPositions));
-
-      // Display detailed JSON structure
-      console.log('\n' + '='.repeat(60));
-      console.log('📄 DETAILED JSON STRUCTURE');
-      console.log('='.repeat(60));
-      const detailedPositions = formatPositionsAsDetailedJSON(positionAnalysis.completedPositions, perpData.orders);
-      console.log(JSON.stringify(detailedPositions, null, 2));
-
-      // Display individual position details
-      console.log('\n' + '='.repeat(60));
-      console.log('📋 INDIVIDUAL POSITION DETAILS');
-      console.log('='.repeat(60));
-      positionAnalysis.completedPositions.forEach(position => {
-        console.log(formatPositionForCLI(position));
-        console.log('\n' + '-'.repeat(50) + '\n');
-      });
-
-      // Display summary
-      console.log('📈 OVERALL SUMMARY');
-      console.log('='.repeat(30));
-      console.log(`Total Positions: ${positionAnalysis.summary.totalPositions}`);
-      
-      const totalPnlColor = positionAnalysis.summary.totalPnl >= 0 ? '32' : '31';
-      const totalPnlSign = positionAnalysis.summary.totalPnl >= 0 ? '+' : '';
-      console.log(`Net PnL: \x1b[${totalPnlColor}m${totalPnlSign}$${positionAnalysis.summary.totalPnl.toFixed(2)}\x1b[0m`);
-      console.log(`Total Fees: $${positionAnalysis.summary.totalFees.toFixed(5)}`);
+async function runSyncCommand(cli: CommandLine): Promise<void> {
+  progress('🚀 Starting Backpack Exchange incremental sync...\n');
 
-      console.log('\n📊 BY SYMBOL:');
-      Object.entries(positionAnalysis.summary.symbolBreakdown).forEach(([symbol, data]) => {
-        const pnlColor = data.pnl >= 0 ? '32' : '31';
-        const pnlSign = data.pnl >= 0 ? '+' : '';
-        console.log(`${symbol}: ${data.positions} position(s), \x1b[${pnlColor}m${pnlSign}$${data.pnl.toFixed(2)}\x1b[0m PnL`);
-      });
+  const accounts = await selectedAccounts(cli);
+  if (!accounts) {
+    await syncStore(createAPI(await resolveAuth(cli)), new LocalStore());
+  } else {
+    // Each account syncs into its own store directory
+    const storeRoot = new LocalStore().directory;
+    for (const account of accounts) {
+      progress(`\n👤 Account "${account.name}"${account.subaccountId ? ` (subaccount ${account.subaccountId})` : ''}\n`);
+      const api = createAPI(await resolveAccountAuth(account));
+      await syncStore(api, new LocalStore(path.join(storeRoot, account.name)), account.subaccountId);
     }
+  }
+
+  progress('\n✅ Sync completed!');
+}
 
-    console.log('\n🎉 Analysis completed successfully!');
+/**
+ * Load, filter and reconstruct everything a report needs. Progress goes to
+ * stderr so stdout only carries the report itself.
+ */
+async function loadWorkspace(cli: CommandLine, command: ReportCommand): Promise<Workspace> {
+  const lotMatching = parseLotMatchingMethod(process.env.LOT_MATCHING);
+  // The equity curve only needs transfers when they are asked for
+  const datasets = cli.includeTransfers && command === 'summary'
+    ? [...COMMAND_DATASETS.summary, 'deposits' as const, 'withdrawals' as const]
+    : COMMAND_DATASETS[command];
+  // A tax year is fetched like a date range, so its options are checked before any download
+  const fetchFilters = command === 'tax' ? { ...cli.filters, from: TaxReportBuilder.yearBounds(taxOptions(cli)).start.getTime() } : cli.filters;
+  const reconstructsPositions = POSITION_COMMANDS.includes(command);
+  const queries = historyQueries(fetchFilters, reconstructsPositions);
+  const positionsFrom = reconstructsPositions ? fetchFilters.from : undefined;
+  const accounts = await selectedAccounts(cli);
+  // Accounting rows are selected by their own time, so positions are kept
+  // whole: the fetch reaches back to the opening of every position open at
+  // the start of the range, and a fill's realized PnL comes from its
+  // position even when that opened before or closes after the range
+  const analysisFilters = command === 'accounting' ? { ...cli.filters, from: undefined, to: undefined } : cli.filters;
+  // Accounting also exports spot trades; they are swaps, so only the range itself is fetched
+  const spotQuery = command === 'accounting' ? { ...queries.fills, to: cli.filters.to, marketType: 'SPOT' as const } : undefined;
+  const spotFills = (data: TradingData) => spotQuery ? data.fills.filter(fill => !isPerpSymbol(fill.symbol)) : [];
 
+  if (accounts) {
+    // Each account is reconstructed on its own, then combined
+    const storeRoot = new LocalStore().directory;
+    const analyses: AccountAnalysis[] = [];
+    const spot: BackpackFill[] = [];
+    for (const account of accounts) {
+      progress(`👤 Account "${account.name}"${account.subaccountId ? ` (subaccount ${account.subaccountId})` : ''}\n`);
+      const store = new LocalStore(path.join(storeRoot, account.name));
+      const data = await loadTradingData(cli.offline, store, () => resolveAccountAuth(account), account.subaccountId, datasets, queries, positionsFrom, spotQuery);
+
+      const symbolData = filterTradingDataBySymbol(data, cli.filters.symbol);
+      spot.push(...spotFills(symbolData).map(fill => ({ ...fill, account: account.name })));
+      const perpData = filterPerpetualTrades(symbolData);
+      const result = AccountAggregator.analyze(account.name, perpData, { lotMatching });
+      analyses.push({ ...result, analysis: filterAnalysis(result.analysis, analysisFilters) });
+    }
+
+    const combined = AccountAggregator.combine(analyses);
+    return { data: combined.data, spotFills: spot, analysis: combined.analysis, accounts: analyses };
+  }
+
+  const data = await loadTradingData(cli.offline, new LocalStore(), () => resolveAuth(cli), 0, datasets, queries, positionsFrom, spotQuery);
+  const symbolData = filterTradingDataBySymbol(data, cli.filters.symbol);
+  const perpData = filterPerpetualTrades(symbolData);
+  const analysis = PositionReconstructor.reconstructPositions(perpData.fills, {
+    settlements: perpData.settlements,
+    fundingPayments: perpData.fundingPayments,
+    fundingHistory: perpData.fundingHistory,
+    interestHistory: perpData.interestHistory,
+    lotMatching
+  });
+
+  return { data: perpData, spotFills: spotFills(symbolData), analysis: filterAnalysis(analysis, analysisFilters), accounts: [] };
+}
+
+function print(text: string): void {
+  process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+}
+
+function printJSON(value: unknown): void {
+  print(JSON.stringify(value, null, 2));
+}
+
+function formatAmount(amount: number, decimals: number = 2): string {
+  const color = amount >= 0 ? '32' : '31';
+  const sign = amount >= 0 ? '+' : '';
+  return `\x1b[${color}m${sign}$${amount.toFixed(decimals)}\x1b[0m`;
+}
+
+// Realized PnL after fees and funding, plus USDC transfers with --include-transfers
+function buildEquityCurve(workspace: Workspace, cli: CommandLine): EquityCurve {
+  const { deposits, withdrawals } = filterTradingDataByTime(workspace.data, cli.filters);
+  return EquityCurveBuilder.build(workspace.analysis, {
+    includeFees: true,
+    includeFunding: true,
+    includeTransfers: cli.includeTransfers,
+    deposits,
+    withdrawals
+  });
+}
+
+function runSummaryCommand(workspace: Workspace, format: OutputFormat, cli: CommandLine): void {
+  const { analysis, accounts } = workspace;
+  const statistics = PerformanceStatistics.report(analysis.completedPositions);
+  const equityCurve = buildEquityCurve(workspace, cli);
+
+  if (format === 'json') {
+    printJSON({
+      lot_matching: analysis.lotMatching,
+      summary: {
+        completed_positions: analysis.summary.totalPositions,
+        open_positions: analysis.summary.openPositions,
+        realized_pnl: analysis.summary.totalPnl,
+        total_fees: analysis.summary.totalFees,
+        net_funding: analysis.summary.totalFunding,
+        unattributed_funding: analysis.summary.unattributedFunding,
+        net_interest: analysis.summary.totalInterest,
+        unattributed_interest: analysis.summary.unattributedInterest,
+        unrealized_pnl: analysis.summary.unrealizedPnl
+      },
+      pnl_breakdown: formatPnlBreakdownAsJSON(analysis),
+      ...(accounts.length > 0 ? { by_account: formatAccountSummaryAsJSON(accounts, analysis) } : {}),
+      statistics: formatStatisticsAsJSON(statistics),
+      equity_curve: formatEquityCurveAsJSON(equityCurve)
+    });
+    return;
+  }
+  if (format === 'csv') {
+    print(formatSummaryAsCSV(analysis, accounts));
+    return;
+  }
+  if (format === 'html') {
+    print(formatPerformanceReportAsHTML({ analysis, statistics, equityCurve, accounts, filters: cli.filters }));
+    return;
+  }
+
+  const { summary } = analysis;
+  if (summary.totalPositions === 0 && summary.openPositions === 0) {
+    print('❌ No positions found.\nThis could mean:\n- No perpetual trades were found (or none match the filters)\n- Fills could not be grouped into positions');
+    return;
+  }
+
+  const lines = [
+    `📈 OVERALL SUMMARY${accounts.length > 0 ? ' (FIRM-WIDE)' : ''}`,
+    '='.repeat(30),
+    `Total Positions: ${summary.totalPositions}`,
+    `Realized PnL (Backpack UI): ${formatAmount(summary.totalPnl)}`,
+    `Total Fees: $${summary.totalFees.toFixed(5)}`,
+    `Net Funding: ${formatAmount(summary.totalFunding, 5)}`
+  ];
+  if (analysis.unattributedFunding.length > 0) {
+    lines.push(`Unattributed Funding: $${summary.unattributedFunding.toFixed(5)} (${analysis.unattributedFunding.length} payments outside reconstructed positions)`);
+  }
+  lines.push(`Net UnrealizedPnl Interest: ${formatAmount(summary.totalInterest, 5)}`);
+  if (analysis.unattributedInterest.length > 0) {
+    lines.push(`Unattributed Interest: $${summary.unattributedInterest.toFixed(5)} (${analysis.unattributedInterest.length} payments outside reconstructed positions)`);
+  }
+  lines.push(`Open Positions: ${summary.openPositions}`);
+  lines.push(`Unrealized PnL: ${formatAmount(summary.unrealizedPnl)}`);
+
+  lines.push('', '💵 NET PNL BREAKDOWN:', formatPnlBreakdownForCLI(summary.net));
+
+  lines.push('', '📊 BY SYMBOL:');
+  for (const [symbol, data] of Object.entries(summary.symbolBreakdown)) {
+    lines.push(`${symbol}: ${data.positions} position(s), ${formatAmount(data.pnl)} PnL, ${formatAmount(data.net.netPnl)} net`);
+  }
+
+  if (accounts.length > 0) {
+    lines.push('', '👥 BY ACCOUNT:', formatAccountSummaryForCLI(accounts, analysis));
+  }
+
+  lines.push('', '📐 PERFORMANCE STATISTICS', '='.repeat(30), 'Overall:', formatStatisticsForCLI(statistics.overall));
+  for (const [symbol, stats] of Object.entries(statistics.bySymbol)) {
+    lines.push('', `${symbol}:`, formatStatisticsForCLI(stats));
+  }
+
+  lines.push('', '📉 EQUITY CURVE & DRAWDOWN', '='.repeat(30), formatEquityCurveForCLI(equityCurve));
+  print(lines.join('\n'));
+}
+
+function runPositionsCommand(workspace: Workspace, format: OutputFormat, positionId?: string): void {
+  const { analysis, data } = workspace;
+
+  if (positionId !== undefined) {
+    // One completed position in detail; ids repeat across accounts
+    const matches = analysis.completedPositions.filter(position => position.id.toString() === positionId);
+    if (matches.length === 0) {
+      throw new CliUsageError(`No completed position #${positionId} matches the filters`);
+    }
+    matches.forEach(position => print(formatPositionForCLI(position).trim() + '\n'));
+    return;
+  }
+
+  if (format === 'json') {
+    printJSON(formatPositionsAsDetailedJSON(analysis.completedPositions, data.orders, analysis.openPositions, analysis.lotMatching));
+    return;
+  }
+  if (format === 'csv') {
+    print(formatPositionsAsCSV(analysis.completedPositions, analysis.openPositions));
+    return;
+  }
+
+  print([
+    `📊 POSITIONS (${analysis.completedPositions.length} completed, ${analysis.lotMatching} lots)`,
+    '='.repeat(60),
+    formatPositionsAsTable(analysis.completedPositions),
+    '',
+    `🟢 OPEN POSITIONS (${analysis.openPositions.length})`,
+    '='.repeat(60),
+    formatOpenPositionsAsTable(analysis.openPositions)
+  ].join('\n'));
+}
+
+function runFundingCommand(workspace: Workspace, format: OutputFormat, cli: CommandLine): void {
+  // Normalized per account, since both funding sources are deduplicated by symbol and time
+  const sources = workspace.accounts.length > 0
+    ? workspace.accounts.map(account => ({ account: account.account, data: account.data }))
+    : [{ account: undefined, data: workspace.data }];
+
+  const rows: FundingRow[] = sources
+    .flatMap(({ account, data }) => normalizeFunding(data.fundingPayments, data.fundingHistory)
+      .map(record => ({ ...record.event, ...(account ? { account } : {}) })))
+    .filter(row => inTimeRange(row.timestamp, cli.filters))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  if (format === 'json') {
+    printJSON(formatFundingAsJSON(rows));
+  } else if (format === 'csv') {
+    print(formatFundingAsCSV(rows));
+  } else {
+    print(['💸 FUNDING PAYMENTS', '='.repeat(60), formatFundingForCLI(rows)].join('\n'));
+  }
+}
+
+function runInterestCommand(workspace: Workspace, format: OutputFormat, cli: CommandLine): void {
+  const interestHistory = workspace.data.interestHistory.filter(interest => inTimeRange(interest.timestamp, cli.filters));
+
+  if (format === 'json') {
+    printJSON(formatInterestHistoryAsJSON(interestHistory));
+  } else if (format === 'csv') {
+    print(formatInterestHistoryAsCSV(interestHistory));
+  } else {
+    print(formatInterestHistoryForCLI(interestHistory));
+  }
+}
+
+function runBalancesCommand(workspace: Workspace, format: OutputFormat, cli: CommandLine): void {
+  // Balances are keyed by asset, so --symbol SOL_USDC_PERP selects SOL
+  const selectAssets = (balances: BackpackBalance): BackpackBalance => {
+    if (!cli.filters.symbol) return balances;
+    const asset = cli.filters.symbol.split('_')[0];
+    return Object.fromEntries(Object.entries(balances).filter(([symbol]) => matchesSymbol(symbol, asset)));
+  };
+
+  const sections: BalanceSection[] = workspace.accounts.length > 0
+    ? [
+      ...workspace.accounts.map(account => ({ account: account.account, balances: selectAssets(account.data.balances) })),
+      { account: 'Firm-wide', balances: selectAssets(workspace.data.balances) }
+    ]
+    : [{ balances: selectAssets(workspace.data.balances) }];
+
+  if (format === 'json') {
+    printJSON(formatBalancesAsJSON(sections));
+    return;
+  }
+  if (format === 'csv') {
+    print(formatBalancesAsCSV(sections));
+    return;
+  }
+
+  const settings = workspace.accounts.length > 0
+    ? workspace.accounts.map(account => formatAccountInfoForCLI(account.data.account, account.account))
+    : [formatAccountInfoForCLI(workspace.data.account)];
+  print([...settings, '', '💰 BALANCES', '='.repeat(60), formatBalancesForCLI(sections)].join('\n'));
+}
+
+async function runExportCommand(workspace: Workspace, format: OutputFormat, cli: CommandLine): Promise<void> {
+  const { analysis } = workspace;
+  const data = filterTradingDataByTime(workspace.data, cli.filters);
+
+  if (format === 'csv') {
+    if (!cli.outDir) {
+      print(formatPositionsAsCSV(analysis.completedPositions, analysis.openPositions));
+      return;
+    }
+
+    const files = await CSVExporter.write(cli.outDir, data, analysis, buildEquityCurve(workspace, cli));
+    files.forEach(({ file, rows }) => console.log(`📁 ${file}: ${rows} row(s)`));
+    return;
+  }
+
+  const exported = {
+    exported_at: new Date().toISOString(),
+    lot_matching: analysis.lotMatching,
+    filters: {
+      symbol: cli.filters.symbol ?? null,
+      from: cli.filters.from !== undefined ? new Date(cli.filters.from).toISOString() : null,
+      to: cli.filters.to !== undefined ? new Date(cli.filters.to).toISOString() : null,
+      side: cli.filters.side ?? null,
+      accounts: workspace.accounts.map(account => account.account)
+    },
+    positions: formatPositionsAsDetailedJSON(analysis.completedPositions, data.orders, analysis.openPositions, analysis.lotMatching),
+    data
+  };
+
+  if (!cli.outDir) {
+    printJSON(exported);
+    return;
+  }
+
+  const file = path.join(cli.outDir, 'export.json');
+  await fs.promises.mkdir(cli.outDir, { recursive: true });
+  await fs.promises.writeFile(file, JSON.stringify(exported, null, 2), 'utf8');
+  console.log(`📁 ${file}`);
+}
+
+async function runAccountingCommand(workspace: Workspace, format: AccountingFormat, cli: CommandLine): Promise<void> {
+  const data = filterTradingDataByTime({ ...workspace.data, fills: [...workspace.data.fills, ...workspace.spotFills] }, cli.filters);
+  const events = AccountingExporter.events(data, workspace.analysis);
+
+  if (!cli.outDir) {
+    print(formatAccountingAsCSV(format, events));
+    return;
+  }
+
+  const files = await AccountingExporter.write(cli.outDir, format, events);
+  files.forEach(({ file, rows }) => console.log(`📁 ${file}: ${rows} row(s)`));
+}
+
+/**
+ * The tax report covers whole tax years, so it always reconstructs the full
+ * history: positions opened before the year still count when closed in it.
+ */
+function taxOptions(cli: CommandLine): TaxReportOptions {
+  return {
+    year: cli.taxYear!,
+    yearStart: cli.yearStart || process.env.TAX_YEAR_START,
+    timeZone: cli.timeZone || process.env.TAX_TIMEZONE
+  };
+}
+
+async function runTaxCommand(workspace: Workspace, format: OutputFormat, cli: CommandLine): Promise<void> {
+  const report = TaxReportBuilder.build(workspace.analysis, taxOptions(cli), workspace.accounts);
+
+  if (cli.outDir) {
+    const files = await writeTaxReport(cli.outDir, report);
+    files.forEach(({ file, rows }) => console.log(file.endsWith('.csv') ? `📁 ${file}: ${rows} row(s)` : `📁 ${file}`));
+    return;
+  }
+
+  if (format === 'json') {
+    printJSON(formatTaxReportAsJSON(report));
+  } else if (format === 'csv') {
+    print(formatDisposalsAsCSV(report));
+  } else if (format === 'html') {
+    print(formatTaxReportAsHTML(report));
+  } else {
+    print(formatTaxReportAsText(report));
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    const cli = parseCommandLine(process.argv.slice(2));
+
+    switch (cli.command) {
+      case 'help':
+        print(USAGE);
+        return;
+      case 'keystore':
+        await runKeystoreCommand(cli.args);
+        return;
+      case 'doctor':
+        await runDoctorCommand(cli);
+        return;
+      case 'sync':
+        await runSyncCommand(cli);
+        return;
+    }
+
+    const command: ReportCommand = cli.command;
+    if (command === 'export' && cli.format === 'table') {
+      throw new CliUsageError('export writes json or csv');
+    }
+    if (command !== 'export' && command !== 'accounting' && command !== 'tax' && cli.outDir) {
+      throw new CliUsageError('--out only applies to export, accounting and tax');
+    }
+    if (command !== 'summary' && command !== 'export' && cli.includeTransfers) {
+      throw new CliUsageError('--include-transfers only applies to summary and export');
+    }
+    if (command === 'accounting') {
+      if (cli.format !== undefined && cli.format !== 'csv') {
+        throw new CliUsageError('accounting writes csv');
+      }
+      if (cli.filters.side) {
+        throw new CliUsageError('accounting covers whole accounts; --side is not supported');
+      }
+      const format = cli.args[0] ?? 'ledger';
+      if (!(ACCOUNTING_FORMATS as readonly string[]).includes(format)) {
+        throw new CliUsageError(`Unknown accounting format "${format}": use ${ACCOUNTING_FORMATS.join(', ')}`);
+      }
+    }
+    if (command !== 'summary' && command !== 'tax' && cli.format === 'html') {
+      throw new CliUsageError('html output is only available for summary and tax');
+    }
+    if (command === 'tax') {
+      if (cli.taxYear === undefined) {
+        throw new CliUsageError('tax needs --year');
+      }
+      if (cli.filters.from !== undefined || cli.filters.to !== undefined) {
+        throw new CliUsageError('tax selects dates with --year (and --year-start), not --from/--to');
+      }
+    }
+    const workspace = await loadWorkspace(cli, command);
+
+    switch (command) {
+      case 'summary':
+        runSummaryCommand(workspace, cli.format || 'table', cli);
+        break;
+      case 'positions':
+        runPositionsCommand(workspace, cli.format || 'table', cli.args[0]);
+        break;
+      case 'funding':
+        runFundingCommand(workspace, cli.format || 'table', cli);
+        break;
+      case 'interest':
+        runInterestCommand(workspace, cli.format || 'table', cli);
+        break;
+      case 'balances':
+        runBalancesCommand(workspace, cli.format || 'table', cli);
+        break;
+      case 'export':
+        await runExportCommand(workspace, cli.format || 'json', cli);
+        break;
+      case 'accounting':
+        await runAccountingCommand(workspace, (cli.args[0] ?? 'ledger') as AccountingFormat, cli);
+        break;
+      case 'tax':
+        await runTaxCommand(workspace, cli.format || 'table', cli);
+        break;
+    }
   } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`❌ ${error.message}`);
+      console.error('Run `npm run dev -- help` for usage.');
+      process.exit(1);
+    }
+    if (error instanceof KeystoreError || error instanceof AccountConfigError || error instanceof TaxReportError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+
     console.error('❌ Error fetching data:', error);
     
     if (error instanceof Error) {
       console.error('Error message:', error.message);
       
-      if (error.message.includes('401') || error.message.includes('403')) {
+      if (error instanceof BackpackAuthError) {
         console.error('\nAuthentication failed. Please check your API credentials.');
-      } else if (error.message.includes('429')) {
-        console.error('\nRate limit exceeded. Please try again later.');
+      } else if (error instanceof BackpackRateLimitError) {
+        console.error('\nRate limit exceeded after retries. Please try again later.');
       }
     }
     
@@ -399,4 +1031,4 @@ async function main(): Promise<void> {
 
 if (require.main === module) {
   main();
-}
\ No newline at end of file
+}
@@ -0,0 +1,49 @@
+import { BackpackInterestHistory } from './types';
+import { Decimal } from './decimal';
+
+export interface InterestEvent {
+  id: string;
+  symbol: string; // Market the interest relates to, e.g. BTC_USDC_PERP
+  asset: string; // Asset the interest was paid in, e.g. USDC
+  timestamp: Date;
+  amount: number; // Positive = received, negative = paid
+  rate: number;
+  positionId: string;
+}
+
+/**
+ * Interest event together with its exact amount, used while attributing
+ * interest so totals stay exact.
+ */
+export interface InterestRecord {
+  event: InterestEvent;
+  amount: Decimal;
+}
+
+/**
+ * UnrealizedPnl interest is charged on open positions, so it belongs to
+ * trading performance. Lend/Borrow interest is account-level and excluded.
+ */
+export function normalizeUnrealizedPnlInterest(interestHistory: BackpackInterestHistory[] = []): InterestRecord[] {
+  return interestHistory
+    .filter(interest => interest.paymentType === 'UnrealizedPnl')
+    .map(interest => {
+      const timestamp = new Date(interest.timestamp);
+      const amount = Decimal.from(interest.quantity);
+      const symbol = interest.marketSymbol || interest.symbol;
+
+      return {
+        event: {
+          id: `${interest.positionId || symbol}-${interest.timestamp}`,
+          symbol,
+          asset: interest.symbol,
+          timestamp,
+          amount: amount.toNumber(),
+          rate: parseFloat(interest.interestRate),
+          positionId: interest.positionId
+        },
+        amount
+      };
+    })
+    .sort((a, b) => a.event.timestamp.getTime() - b.event.timestamp.getTime());
+}
@@ -0,0 +1,218 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { BackpackCredentials } from './types';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const KEYSTORE_VERSION = 1;
+const KEY_LENGTH = 32; // AES-256
+const IV_LENGTH = 12; // Recommended nonce size for GCM
+
+interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+  salt: string; // base64
+}
+
+interface EncryptedProfile {
+  apiKey: string; // The public key, kept readable so profiles can be listed without the passphrase
+  iv: string;
+  ciphertext: string;
+  tag: string;
+  createdAt: string;
+}
+
+interface KeystoreFile {
+  version: number;
+  kdf: 'scrypt';
+  kdfParams: ScryptParams;
+  cipher: 'aes-256-gcm';
+  profiles: { [name: string]: EncryptedProfile };
+}
+
+export interface ProfileSummary {
+  name: string;
+  apiKey: string;
+  createdAt: Date;
+}
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+  }
+}
+
+/**
+ * Reject a private key that is not a base64 32-byte seed or 64-byte secret
+ * key, so a mistyped key fails on import rather than on the first request.
+ */
+export function validatePrivateKey(privateKey: string): void {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(privateKey)) {
+    throw new KeystoreError('Invalid private key: expected base64');
+  }
+
+  const length = Buffer.from(privateKey, 'base64').length;
+  if (length !== 32 && length !== 64) {
+    throw new KeystoreError(`Invalid private key: expected a 32-byte seed or 64-byte secret key, got ${length} bytes`);
+  }
+}
+
+export function defaultKeystorePath(): string {
+  return process.env.BACKPACK_KEYSTORE || path.join(os.homedir(), '.backpack-reads', 'keystore.json');
+}
+
+/**
+ * Passphrase-encrypted file of named credential profiles. One scrypt-derived
+ * key protects the whole file; each private key is sealed with AES-256-GCM
+ * under its own IV, with the profile name and API key as associated data.
+ */
+export class Keystore {
+  static readonly DEFAULT_SCRYPT = { N: 2 ** 15, r: 8, p: 1 };
+
+  constructor(readonly file: string = defaultKeystorePath()) {}
+
+  async exists(): Promise<boolean> {
+    try {
+      await fs.promises.access(this.file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(): Promise<ProfileSummary[]> {
+    const keystore = await this.read();
+    if (!keystore) return [];
+
+    return Object.entries(keystore.profiles)
+      .map(([name, profile]) => ({ name, apiKey: profile.apiKey, createdAt: new Date(profile.createdAt) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Add or replace a profile. The first import sets the keystore passphrase;
+   * later imports must use the same one.
+   */
+  async import(name: string, credentials: BackpackCredentials, passphrase: string): Promise<void> {
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new KeystoreError(`Invalid profile name "${name}": use letters, digits, ".", "-" or "_"`);
+    }
+    validatePrivateKey(credentials.privateKey);
+    if (passphrase.length < 8) {
+      throw new KeystoreError('Passphrase must be at least 8 characters');
+    }
+
+    const keystore = await this.read() || this.create();
+    const key = await this.deriveKey(keystore, passphrase);
+
+    // Prove the passphrase matches before adding a profile under it
+    const existing = Object.entries(keystore.profiles)[0];
+    if (existing) {
+      this.decrypt(key, existing[0], existing[1]);
+    }
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(associatedData(name, credentials.apiKey));
+    const ciphertext = Buffer.concat([cipher.update(credentials.privateKey, 'utf8'), cipher.final()]);
+
+    keystore.profiles[name] = {
+      apiKey: credentials.apiKey,
+      iv: iv.toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      createdAt: new Date().toISOString()
+    };
+
+    await this.write(keystore);
+  }
+
+  async remove(name: string): Promise<void> {
+    const keystore = await this.read();
+    if (!keystore || !keystore.profiles[name]) {
+      throw new KeystoreError(`Profile "${name}" not found in ${this.file}`);
+    }
+
+    delete keystore.profiles[name];
+    await this.write(keystore);
+  }
+
+  async unlock(name: string, passphrase: string): Promise<BackpackCredentials> {
+    const keystore = await this.read();
+    const profile = keystore?.profiles[name];
+    if (!keystore || !profile) {
+      throw new KeystoreError(`Profile "${name}" not found in ${this.file}`);
+    }
+
+    const key = await this.deriveKey(keystore, passphrase);
+    return { apiKey: profile.apiKey, privateKey: this.decrypt(key, name, profile) };
+  }
+
+  private decrypt(key: Buffer, name: string, profile: EncryptedProfile): string {
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(profile.iv, 'base64'));
+      decipher.setAAD(associatedData(name, profile.apiKey));
+      decipher.setAuthTag(Buffer.from(profile.tag, 'base64'));
+      return Buffer.concat([
+        decipher.update(Buffer.from(profile.ciphertext, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+    } catch {
+      throw new KeystoreError('Wrong passphrase or corrupted keystore');
+    }
+  }
+
+  private async deriveKey(keystore: KeystoreFile, passphrase: string): Promise<Buffer> {
+    const { N, r, p, salt } = keystore.kdfParams;
+    return scrypt(passphrase, Buffer.from(salt, 'base64'), KEY_LENGTH, { N, r, p, maxmem: 256 * N * r });
+  }
+
+  private create(): KeystoreFile {
+    return {
+      version: KEYSTORE_VERSION,
+      kdf: 'scrypt',
+      kdfParams: { ...Keystore.DEFAULT_SCRYPT, salt: crypto.randomBytes(16).toString('base64') },
+      cipher: 'aes-256-gcm',
+      profiles: {}
+    };
+  }
+
+  private async read(): Promise<KeystoreFile | null> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const keystore = JSON.parse(content) as KeystoreFile;
+    if (keystore.version !== KEYSTORE_VERSION || keystore.kdf !== 'scrypt' || keystore.cipher !== 'aes-256-gcm') {
+      throw new KeystoreError(`Unsupported keystore format in ${this.file}`);
+    }
+    return keystore;
+  }
+
+  private async write(keystore: KeystoreFile): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true, mode: 0o700 });
+
+    // Write then rename so an interrupted write never leaves a truncated keystore
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(keystore, null, 2), { encoding: 'utf8', mode: 0o600 });
+    await fs.promises.rename(temporary, this.file);
+  }
+}
+
+function associatedData(name: string, apiKey: string): Buffer {
+  return Buffer.from(`${name}:${apiKey}`, 'utf8');
+}
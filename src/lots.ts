@@ -0,0 +1,207 @@
+import { BackpackFill } from './types';
+import { Decimal } from './decimal';
+
+export type LotMatchingMethod = 'FIFO' | 'LIFO' | 'AverageCost';
+
+export const LOT_MATCHING_METHODS: LotMatchingMethod[] = ['FIFO', 'LIFO', 'AverageCost'];
+
+export interface OpenLot {
+  fill: BackpackFill;
+  quantity: number; // Remaining unmatched quantity
+  price: number;
+}
+
+export interface MatchedLot {
+  openFill: BackpackFill;
+  closeFill: BackpackFill;
+  quantity: number;
+  openPrice: number; // Pool average for AverageCost, lot price otherwise
+  closePrice: number;
+  realizedPnl: number;
+  exact: { quantity: Decimal; openPrice: Decimal; realizedPnl: Decimal }; // Before rounding, for totals that must match the fills
+}
+
+export interface LotMatchResult {
+  matchedLots: MatchedLot[];
+  openLots: OpenLot[];
+  realizedPnl: Decimal; // Exact sum of the matched lots
+  openQuantity: Decimal;
+  averageOpenPrice: Decimal;
+}
+
+interface LotState {
+  fill: BackpackFill;
+  quantity: Decimal;
+  price: Decimal;
+  cost: Decimal; // Exact cost of the remaining quantity; price is rounded under AverageCost
+}
+
+interface LotMatch {
+  lot: LotState;
+  closeFill: BackpackFill;
+  quantity: Decimal;
+  cost: Decimal; // Exact opening cost of the matched quantity
+  openPrice: Decimal;
+  closePrice: Decimal;
+}
+
+export class LotMatcher {
+  /**
+   * Match the closing fills of a single-direction position against its
+   * opening fills. Fills that flip the position must already be split.
+   */
+  static matchLots(
+    fills: BackpackFill[],
+    side: 'Long' | 'Short',
+    method: LotMatchingMethod = 'FIFO'
+  ): LotMatchResult {
+    const openingSide = side === 'Long' ? 'Bid' : 'Ask';
+    const direction = side === 'Long' ? 1 : -1;
+    let openLots: LotState[] = [];
+    const matchedLots: MatchedLot[] = [];
+    let realizedPnl = Decimal.ZERO;
+
+    for (const fill of fills) {
+      const price = Decimal.from(fill.price);
+      const quantity = Decimal.from(fill.quantity);
+
+      if (fill.side === openingSide) {
+        openLots.push({ fill, quantity, price, cost: price.mul(quantity) });
+        continue;
+      }
+
+      const matches = method === 'AverageCost' ?
+        this.matchAverageCost(openLots, fill, quantity) :
+        this.matchInOrder(openLots, fill, quantity, method);
+
+      for (const match of matches) {
+        const pnl = match.closePrice.mul(match.quantity).sub(match.cost).mul(direction);
+        realizedPnl = realizedPnl.add(pnl);
+
+        matchedLots.push({
+          openFill: match.lot.fill,
+          closeFill: match.closeFill,
+          quantity: match.quantity.toNumber(),
+          openPrice: match.openPrice.toNumber(),
+          closePrice: match.closePrice.toNumber(),
+          realizedPnl: pnl.toNumber(),
+          exact: { quantity: match.quantity, openPrice: match.openPrice, realizedPnl: pnl }
+        });
+      }
+
+      // Drop fully consumed lots
+      openLots = openLots.filter(lot => lot.quantity.sign() > 0);
+    }
+
+    const openQuantity = Decimal.sum(openLots.map(lot => lot.quantity));
+
+    return {
+      matchedLots,
+      openLots: openLots.map(lot => ({
+        fill: lot.fill,
+        quantity: lot.quantity.toNumber(),
+        price: lot.price.toNumber()
+      })),
+      realizedPnl,
+      openQuantity,
+      averageOpenPrice: this.averageLotPrice(openLots)
+    };
+  }
+
+  private static averageLotPrice(lots: LotState[]): Decimal {
+    const totalQuantity = Decimal.sum(lots.map(lot => lot.quantity));
+    if (totalQuantity.isZero()) return Decimal.ZERO;
+
+    return Decimal.sum(lots.map(lot => lot.cost)).div(totalQuantity);
+  }
+
+  private static matchInOrder(
+    openLots: LotState[],
+    closeFill: BackpackFill,
+    closeQuantity: Decimal,
+    method: 'FIFO' | 'LIFO'
+  ): LotMatch[] {
+    const matches: LotMatch[] = [];
+    const closePrice = Decimal.from(closeFill.price);
+    let remaining = closeQuantity;
+
+    // FIFO consumes the oldest lot first, LIFO the newest
+    const order = method === 'FIFO' ? openLots : [...openLots].reverse();
+
+    for (const lot of order) {
+      if (remaining.sign() <= 0) break;
+      if (lot.quantity.sign() <= 0) continue;
+
+      const quantity = Decimal.min(lot.quantity, remaining);
+      const cost = lot.price.mul(quantity);
+      lot.quantity = lot.quantity.sub(quantity);
+      lot.cost = lot.cost.sub(cost);
+      remaining = remaining.sub(quantity);
+
+      matches.push({ lot, closeFill, quantity, cost, openPrice: lot.price, closePrice });
+    }
+
+    return matches;
+  }
+
+  private static matchAverageCost(
+    openLots: LotState[],
+    closeFill: BackpackFill,
+    closeQuantity: Decimal
+  ): LotMatch[] {
+    const closePrice = Decimal.from(closeFill.price);
+    const activeLots = openLots.filter(lot => lot.quantity.sign() > 0);
+    const poolQuantity = Decimal.sum(activeLots.map(lot => lot.quantity));
+    if (poolQuantity.isZero()) return [];
+
+    // The pool's total cost is carried exactly and only the closed share is
+    // divided out, so a full round trip realizes sell value minus buy value
+    // to the last digit. The price shown per lot is the rounded average.
+    const poolCost = Decimal.sum(activeLots.map(lot => lot.cost));
+    const averagePrice = poolCost.div(poolQuantity);
+    const toClose = Decimal.min(closeQuantity, poolQuantity);
+    const closedCost = toClose.eq(poolQuantity) ? poolCost : poolCost.mul(toClose).div(poolQuantity);
+
+    // Every open lot is reduced pro rata. The last lot takes the rounding
+    // remainder so quantities and costs stay exact.
+    const matches: LotMatch[] = [];
+    let remaining = toClose;
+    let remainingCost = closedCost;
+
+    activeLots.forEach((lot, i) => {
+      const isLast = i === activeLots.length - 1;
+      const share = isLast ?
+        remaining :
+        Decimal.min(lot.quantity.mul(toClose).div(poolQuantity), remaining);
+      if (share.sign() <= 0) return;
+
+      const cost = isLast || share.eq(remaining) ? remainingCost : closedCost.mul(share).div(toClose);
+      lot.quantity = lot.quantity.sub(share);
+      remaining = remaining.sub(share);
+      remainingCost = remainingCost.sub(cost);
+      matches.push({ lot, closeFill, quantity: share, cost, openPrice: averagePrice, closePrice });
+    });
+
+    // The remaining lots now all carry the average cost
+    this.spreadCost(activeLots, poolCost.sub(closedCost));
+
+    return matches;
+  }
+
+  /**
+   * Share a pool's cost between its lots by quantity, the last lot taking
+   * the rounding remainder.
+   */
+  private static spreadCost(lots: LotState[], totalCost: Decimal): void {
+    const remainingLots = lots.filter(lot => lot.quantity.sign() > 0);
+    let quantityLeft = Decimal.sum(remainingLots.map(lot => lot.quantity));
+    let costLeft = totalCost;
+
+    for (const lot of remainingLots) {
+      lot.cost = lot.quantity.eq(quantityLeft) ? costLeft : costLeft.mul(lot.quantity).div(quantityLeft);
+      lot.price = lot.cost.div(lot.quantity);
+      quantityLeft = quantityLeft.sub(lot.quantity);
+      costLeft = costLeft.sub(lot.cost);
+    }
+  }
+}
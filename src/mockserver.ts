@@ -0,0 +1,240 @@
+import * as http from 'http';
+import { BackpackAuth } from './auth';
+import { ENDPOINTS, Endpoint, EndpointName, HttpMethod } from './endpoints';
+import { TradingData } from './types';
+import { createFixtureData, openPositionsFor, MOCK_CREDENTIALS } from './fixtures';
+import { LocalStore } from './store';
+
+export interface MockServerOptions {
+  data?: TradingData; // Defaults to the generated fixtures
+  apiKeys?: string[]; // Accepted API keys, defaults to the mock key; empty accepts any key
+  verifySignatures?: boolean; // Defaults to true
+  clockOffsetMs?: number; // Server clock minus real time, to simulate a drifting client clock
+  maxRangeMs?: number; // Reject longer from/to spans on endpoints with a maxRangeMs; unset accepts any
+}
+
+// Datasets served as paged lists of records
+type ListDataset = Exclude<keyof TradingData, 'balances' | 'account'>;
+
+interface HistoryRoute {
+  // Every record with the time it is filtered and sorted by
+  records: (data: TradingData) => Array<{ record: TradingData[ListDataset][number]; time: number }>;
+}
+
+function historyRoute<D extends ListDataset>(dataset: D, timestamp: (record: TradingData[D][number]) => number): HistoryRoute {
+  return {
+    records: data => data[dataset].map(record => ({ record, time: timestamp(record) }))
+  };
+}
+
+// Served endpoints by registry name; other registered endpoints return 404
+const HISTORY_ROUTES: { [name in EndpointName]?: HistoryRoute } = {
+  fills: historyRoute('fills', fill => toMillis(fill.timestamp)),
+  orders: historyRoute('orders', order => toMillis(order.createdAt)),
+  fundingPayments: historyRoute('fundingPayments', payment => toMillis(payment.timestamp)),
+  settlements: historyRoute('settlements', settlement => toMillis(settlement.timestamp)),
+  fundingHistory: historyRoute('fundingHistory', funding => toMillis(funding.intervalEndTimestamp)),
+  interestHistory: historyRoute('interestHistory', interest => toMillis(interest.timestamp)),
+  positions: historyRoute('positions', () => 0),
+  deposits: historyRoute('deposits', deposit => toMillis(deposit.timestamp)),
+  withdrawals: historyRoute('withdrawals', withdrawal => toMillis(withdrawal.timestamp))
+};
+
+const SNAPSHOT_ROUTES: { [name in EndpointName]?: keyof TradingData } = {
+  balances: 'balances',
+  account: 'account'
+};
+
+const MAX_LIMIT = 1000;
+const DEFAULT_LIMIT = 100;
+const MAX_WINDOW = 60000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function marketTypeOf(symbol: string): string {
+  return symbol.endsWith('_PERP') ? 'PERP' : 'SPOT';
+}
+
+function toMillis(value: number | string): number {
+  const millis = new Date(value).getTime();
+  return isNaN(millis) ? 0 : millis;
+}
+
+/**
+ * Local stand-in for the Backpack API. Serves history endpoints with
+ * offset/limit pagination over fixture data and rejects requests whose
+ * ED25519 signature or timestamp would fail against the real API.
+ */
+export function createMockServer(options: MockServerOptions = {}): http.Server {
+  const data = options.data || createFixtureData();
+  const apiKeys = options.apiKeys || [MOCK_CREDENTIALS.apiKey];
+  const verifySignatures = options.verifySignatures ?? true;
+  const serverTime = () => Date.now() + (options.clockOffsetMs || 0);
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const params = Object.fromEntries(url.searchParams);
+    const method = (req.method || 'GET').toUpperCase();
+    const name = (Object.keys(ENDPOINTS) as EndpointName[]).find(
+      key => ENDPOINTS[key].method === method && ENDPOINTS[key].path === url.pathname
+    );
+
+    if (!name) {
+      return sendJSON(res, 404, { code: 'NOT_FOUND', message: `No endpoint for ${method} ${url.pathname}` });
+    }
+
+    let body: unknown;
+    try {
+      body = await readJSONBody(req);
+    } catch {
+      return sendJSON(res, 400, { code: 'INVALID_CLIENT_REQUEST', message: 'Request body is not valid JSON' });
+    }
+
+    // Public endpoint, served without signature checks
+    if (name === 'time') {
+      return sendJSON(res, 200, serverTime());
+    }
+
+    if (verifySignatures) {
+      const authError = verifyHeaders(req, method, url.pathname, params, body, apiKeys, serverTime());
+      if (authError) {
+        return sendJSON(res, authError.status, { code: authError.code, message: authError.message });
+      }
+    }
+
+    const snapshot = SNAPSHOT_ROUTES[name];
+    if (snapshot) {
+      return sendJSON(res, 200, data[snapshot]);
+    }
+    if (name === 'openPositions') {
+      return sendJSON(res, 200, openPositionsFor(data.fills));
+    }
+
+    const route = HISTORY_ROUTES[name];
+    if (!route) {
+      return sendJSON(res, 404, { code: 'NOT_FOUND', message: `No mock route for ${url.pathname}` });
+    }
+
+    const limit = params.limit !== undefined ? parseInt(params.limit, 10) : DEFAULT_LIMIT;
+    const offset = params.offset !== undefined ? parseInt(params.offset, 10) : 0;
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT || isNaN(offset) || offset < 0) {
+      return sendJSON(res, 400, { code: 'INVALID_CLIENT_REQUEST', message: `limit must be 1-${MAX_LIMIT} and offset must be non-negative` });
+    }
+
+    const from = params.from !== undefined ? Number(params.from) : -Infinity;
+    const to = params.to !== undefined ? Number(params.to) : Infinity;
+    const { maxRangeMs } = options;
+    const endpoint: Endpoint = ENDPOINTS[name];
+    if (maxRangeMs && endpoint.maxRangeMs && params.from !== undefined && Math.min(to, serverTime()) - from > maxRangeMs) {
+      return sendJSON(res, 400, { code: 'INVALID_CLIENT_REQUEST', message: `from and to must be at most ${maxRangeMs}ms apart` });
+    }
+
+    const records = route.records(data).filter(({ record, time }) => {
+      return time >= from && time <= to &&
+        (!params.symbol || record.symbol === params.symbol) &&
+        (!params.marketType || marketTypeOf(record.symbol) === params.marketType);
+    });
+
+    // Backpack returns newest first unless asked otherwise
+    records.sort((a, b) => a.time - b.time);
+    if (params.sortDirection !== 'Asc') {
+      records.reverse();
+    }
+
+    sendJSON(res, 200, records.slice(offset, offset + limit).map(({ record }) => record));
+  });
+}
+
+function verifyHeaders(
+  req: http.IncomingMessage,
+  method: string,
+  path: string,
+  params: Record<string, string>,
+  body: unknown,
+  apiKeys: string[],
+  now: number
+): { status: number; code: string; message: string } | null {
+  const apiKey = req.headers['x-api-key'];
+  const signature = req.headers['x-signature'];
+  const timestamp = Number(req.headers['x-timestamp']);
+  const window = Number(req.headers['x-window'] || 5000);
+
+  if (typeof apiKey !== 'string' || typeof signature !== 'string' || isNaN(timestamp)) {
+    return { status: 401, code: 'UNAUTHORIZED', message: 'Missing X-API-Key, X-Signature or X-Timestamp header' };
+  }
+  if (apiKeys.length > 0 && !apiKeys.includes(apiKey)) {
+    return { status: 401, code: 'UNAUTHORIZED', message: 'Unknown API key' };
+  }
+  if (isNaN(window) || window > MAX_WINDOW) {
+    return { status: 400, code: 'INVALID_CLIENT_REQUEST', message: `Window must be at most ${MAX_WINDOW}ms` };
+  }
+  if (Math.abs(now - timestamp) > window) {
+    return { status: 400, code: 'INVALID_CLIENT_REQUEST', message: 'Request has expired' };
+  }
+
+  // The API key is the base64 ED25519 public key
+  const verification = BackpackAuth.verifyRequest(req.headers, { method: method as HttpMethod, path, params, body });
+  if (!verification.valid) {
+    return { status: 401, code: 'UNAUTHORIZED', message: `Invalid signature: ${verification.reason}` };
+  }
+
+  return null;
+}
+
+async function readJSONBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text.trim() === '' ? undefined : JSON.parse(text);
+}
+
+function sendJSON(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function startMockServer(): Promise<void> {
+  const args = process.argv.slice(2);
+  const portIndex = args.indexOf('--port');
+  const storeIndex = args.indexOf('--store');
+  const offsetIndex = args.indexOf('--clock-offset');
+  const rangeIndex = args.indexOf('--max-range-days');
+  const port = portIndex >= 0 ? parseInt(args[portIndex + 1], 10) : parseInt(process.env.MOCK_PORT || '4010', 10);
+
+  // Serve a synced local store instead of the generated fixtures
+  let data: TradingData | undefined;
+  if (storeIndex >= 0) {
+    const store = new LocalStore(args[storeIndex + 1]);
+    data = await store.loadTradingData();
+    console.log(`📂 Serving ${data.fills.length} fills from ${store.directory}`);
+  }
+
+  const clockOffsetMs = offsetIndex >= 0 ? Number(args[offsetIndex + 1]) : 0;
+  if (clockOffsetMs) {
+    console.log(`⏱️  Server clock is ${clockOffsetMs}ms ahead of real time`);
+  }
+
+  const maxRangeMs = rangeIndex >= 0 ? Number(args[rangeIndex + 1]) * DAY_MS : undefined;
+  if (maxRangeMs) {
+    console.log(`📏 History ranges longer than ${args[rangeIndex + 1]} days are rejected`);
+  }
+
+  const server = createMockServer({ data, apiKeys: data ? [] : undefined, clockOffsetMs, maxRangeMs });
+  server.listen(port, () => {
+    console.log(`🧪 Mock Backpack API listening on http://localhost:${port}\n`);
+    console.log('Run the analyzer against it with:');
+    console.log(`  BACKPACK_BASE_URL=http://localhost:${port} \\`);
+    console.log(`  BACKPACK_API_KEY=${MOCK_CREDENTIALS.apiKey} \\`);
+    console.log(`  BACKPACK_PRIVATE_KEY=${MOCK_CREDENTIALS.privateKey} \\`);
+    console.log('  npm run dev');
+  });
+}
+
+if (require.main === module) {
+  startMockServer().catch(error => {
+    console.error('❌ Failed to start mock server:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,132 @@
+import { TimeRange } from './types';
+
+export interface PaginationOptions {
+  pageSize?: number; // Records per request, defaults to 1000
+  delayMs?: number; // Pause between requests, defaults to 100ms
+  maxRecords?: number; // Stop after this many records
+  signal?: AbortSignal; // Stops pagination between and during requests
+  onPage?: (page: PageInfo) => void; // Progress callback, called after each page
+}
+
+export interface PageRequest {
+  limit: number;
+  offset: number; // Within the current window
+  window: TimeRange; // Empty unless the range was split into windows
+  signal?: AbortSignal;
+}
+
+export interface PageInfo {
+  offset: number; // Within the current window
+  count: number; // Records in this page
+  total: number; // Records yielded so far, including this page
+}
+
+export type PageFetcher<T> = (request: PageRequest) => Promise<T[]>;
+
+export class PaginationAbortedError extends Error {
+  constructor() {
+    super('Pagination aborted');
+    this.name = 'PaginationAbortedError';
+  }
+}
+
+/**
+ * Offset-based paginator for Backpack history endpoints. Iterating yields
+ * records one at a time while only one page is held in memory; pages()
+ * yields whole pages and toArray() collects everything. With several time
+ * windows, each window is paged through from offset 0 in turn.
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  static readonly DEFAULT_PAGE_SIZE = 1000;
+  static readonly DEFAULT_DELAY_MS = 100;
+
+  constructor(
+    private readonly fetchPage: PageFetcher<T>,
+    private readonly options: PaginationOptions = {},
+    private readonly windows: TimeRange[] = [{}]
+  ) {}
+
+  async *pages(): AsyncGenerator<T[]> {
+    const pageSize = this.options.pageSize ?? Paginator.DEFAULT_PAGE_SIZE;
+    const delayMs = this.options.delayMs ?? Paginator.DEFAULT_DELAY_MS;
+    const maxRecords = this.options.maxRecords ?? Infinity;
+    const { signal, onPage } = this.options;
+    let total = 0;
+    let requested = false;
+
+    for (const window of this.windows) {
+      let offset = 0;
+
+      while (total < maxRecords) {
+        if (signal?.aborted) throw new PaginationAbortedError();
+
+        if (requested) {
+          await sleep(delayMs, signal);
+        }
+        requested = true;
+
+        // Don't request more than maxRecords allows
+        const limit = Math.min(pageSize, maxRecords - total);
+        const page = await this.fetchPage({ limit, offset, window, signal });
+
+        if (page.length === 0) {
+          break;
+        }
+
+        const records = page.slice(0, limit);
+        total += records.length;
+        onPage?.({ offset, count: records.length, total });
+        yield records;
+
+        if (page.length < limit) {
+          break;
+        }
+
+        offset += limit;
+      }
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    for await (const page of this.pages()) {
+      yield* page;
+    }
+  }
+
+  async toArray(): Promise<T[]> {
+    const records: T[] = [];
+    for await (const page of this.pages()) {
+      records.push(...page);
+    }
+    return records;
+  }
+}
+
+/**
+ * Split an inclusive [from, to] range into consecutive windows spanning at
+ * most maxRangeMs each, oldest first, with no overlap and no gaps.
+ */
+export function splitTimeRange(from: number, to: number, maxRangeMs: number): TimeRange[] {
+  const windows: TimeRange[] = [];
+  for (let start = from; start <= to; start += maxRangeMs) {
+    windows.push({ from: start, to: Math.min(start + maxRangeMs - 1, to) });
+  }
+  return windows;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new PaginationAbortedError());
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PaginationAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
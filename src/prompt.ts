@@ -0,0 +1,47 @@
+import * as readline from 'readline';
+import { Writable } from 'stream';
+import { KeystoreError } from './keystore';
+
+/**
+ * Ask a question on the terminal. With `hidden`, typed characters are not
+ * echoed (for passphrases and private keys).
+ */
+export function prompt(question: string, hidden: boolean = false): Promise<string> {
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stderr.write(chunk, encoding);
+      callback();
+    }
+  });
+
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: Boolean(process.stdin.isTTY) });
+
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      if (hidden) process.stderr.write('\n');
+      resolve(answer.trim());
+    });
+    muted = hidden;
+  });
+}
+
+/**
+ * Passphrase from BACKPACK_KEYSTORE_PASSPHRASE (for scripts and CI), or a
+ * hidden prompt when running in a terminal.
+ */
+export async function readPassphrase(question: string = 'Keystore passphrase: ', confirm: boolean = false): Promise<string> {
+  const fromEnv = process.env.BACKPACK_KEYSTORE_PASSPHRASE;
+  if (fromEnv) return fromEnv;
+
+  if (!process.stdin.isTTY) {
+    throw new KeystoreError('No terminal to prompt for the keystore passphrase; set BACKPACK_KEYSTORE_PASSPHRASE');
+  }
+
+  const passphrase = await prompt(question, true);
+  if (confirm && await prompt('Confirm passphrase: ', true) !== passphrase) {
+    throw new KeystoreError('Passphrases do not match');
+  }
+  return passphrase;
+}
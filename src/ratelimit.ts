@@ -0,0 +1,76 @@
+export interface RetryOptions {
+  maxRetries?: number; // Defaults to 3, 0 disables retries
+  baseDelayMs?: number; // First backoff step, defaults to 500ms
+  maxDelayMs?: number; // Upper bound for one wait, defaults to 30s
+}
+
+export interface RateLimitOptions {
+  requestsPerSecond?: number; // Sustained rate, defaults to 5
+  burst?: number; // Bucket capacity, defaults to 10
+}
+
+/**
+ * Client-side token bucket. Every request takes one token; tokens refill
+ * continuously up to the bucket capacity. Waiters are served in order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly requestsPerSecond: number = 5,
+    readonly capacity: number = 10
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  static fromOptions(options: RateLimitOptions = {}): TokenBucket {
+    return new TokenBucket(options.requestsPerSecond, options.burst);
+  }
+
+  acquire(): Promise<void> {
+    const next = this.queue.then(() => this.take());
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+
+    if (this.tokens < 1) {
+      await delay(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+      this.refill();
+    }
+
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Exponential backoff with full jitter. A server-provided Retry-After wins
+ * over the computed delay.
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = {}, retryAfterMs: number | null = null): number {
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,285 @@
+import { BackpackAccount, BackpackBalance, BackpackInterestHistory } from './types';
+import { PositionAnalysis } from './analysis';
+import { AccountAnalysis } from './accounts';
+import { FundingEvent } from './funding';
+import { Decimal } from './decimal';
+import { toCSV, CSVValue } from './csv';
+
+export interface FundingRow extends FundingEvent {
+  account?: string;
+}
+
+export interface BalanceSection {
+  account?: string; // Omitted for a single-account run
+  balances: BackpackBalance;
+}
+
+function formatSigned(amount: number, decimals: number, prefix: string = ''): string {
+  const color = amount >= 0 ? '32' : '31';
+  const sign = amount >= 0 ? '+' : '';
+  return `\x1b[${color}m${sign}${prefix}${amount.toFixed(decimals)}\x1b[0m`;
+}
+
+export function formatAccountInfoForCLI(account: BackpackAccount, name?: string): string {
+  const lines = ['='.repeat(60), `👤 ACCOUNT INFORMATION${name ? ` (${name})` : ''}`, '='.repeat(60)];
+
+  if (!account || Object.keys(account).length === 0) {
+    lines.push('No account information available');
+    return lines.join('\n');
+  }
+
+  lines.push('Account Settings:');
+  if (account.autoBorrowSettlements !== undefined) {
+    lines.push(`├─ Auto Borrow Settlements: ${account.autoBorrowSettlements ? 'Enabled' : 'Disabled'}`);
+  }
+  if (account.autoLend !== undefined) {
+    lines.push(`├─ Auto Lend: ${account.autoLend ? 'Enabled' : 'Disabled'}`);
+  }
+  if (account.leverageLimit !== undefined) {
+    lines.push(`├─ Leverage Limit: ${account.leverageLimit}`);
+  }
+  if (account.limitOrders !== undefined) {
+    lines.push(`├─ Limit Orders: ${account.limitOrders}`);
+  }
+  if (account.liquidating !== undefined) {
+    lines.push(`└─ Liquidating: ${account.liquidating ? 'Yes' : 'No'}`);
+  }
+
+  // Any additional fields
+  const knownFields = ['autoBorrowSettlements', 'autoLend', 'leverageLimit', 'limitOrders', 'liquidating'];
+  const additionalFields = Object.keys(account).filter(key => !knownFields.includes(key));
+
+  if (additionalFields.length > 0) {
+    lines.push('', 'Additional Account Data:');
+    additionalFields.forEach(field => lines.push(`├─ ${field}: ${JSON.stringify(account[field])}`));
+  }
+
+  return lines.join('\n');
+}
+
+export function formatBalancesForCLI(sections: BalanceSection[]): string {
+  const header = 'Symbol     | Available          | Locked             | Staked             | Total';
+  const lines: string[] = [];
+
+  for (const section of sections) {
+    if (section.account) lines.push(`${section.account}:`);
+
+    const symbols = Object.keys(section.balances).sort();
+    if (symbols.length === 0) {
+      lines.push('No balances', '');
+      continue;
+    }
+
+    lines.push(header, '-'.repeat(header.length));
+    for (const symbol of symbols) {
+      const { available, locked, staked } = section.balances[symbol];
+      lines.push([
+        symbol.padEnd(10),
+        available.padEnd(18),
+        locked.padEnd(18),
+        staked.padEnd(18),
+        balanceTotal(section.balances[symbol]).toString()
+      ].join(' | '));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+function balanceTotal(balance: BackpackBalance[string]): Decimal {
+  return Decimal.sum([balance.available || '0', balance.locked || '0', balance.staked || '0']);
+}
+
+export function formatBalancesAsJSON(sections: BalanceSection[]): object {
+  const mapBalances = (balances: BackpackBalance) => {
+    const result: { [symbol: string]: { available: string; locked: string; staked: string; total: string } } = {};
+    for (const [symbol, balance] of Object.entries(balances)) {
+      result[symbol] = { ...balance, total: balanceTotal(balance).toString() };
+    }
+    return result;
+  };
+
+  if (sections.length === 1 && !sections[0].account) {
+    return mapBalances(sections[0].balances);
+  }
+
+  const accounts: { [account: string]: object } = {};
+  sections.forEach(section => { accounts[section.account || ''] = mapBalances(section.balances); });
+  return { accounts };
+}
+
+export function formatBalancesAsCSV(sections: BalanceSection[]): string {
+  const rows: CSVValue[][] = [];
+  for (const section of sections) {
+    for (const symbol of Object.keys(section.balances).sort()) {
+      const balance = section.balances[symbol];
+      rows.push([section.account, symbol, balance.available, balance.locked, balance.staked, balanceTotal(balance).toString()]);
+    }
+  }
+  return toCSV(['account', 'symbol', 'available', 'locked', 'staked', 'total'], rows);
+}
+
+export function formatFundingForCLI(rows: FundingRow[]): string {
+  if (rows.length === 0) return 'No funding payments found';
+
+  const showAccount = rows.some(row => row.account);
+  const lines = rows.map(row => [
+    row.timestamp.toISOString(),
+    ...(showAccount ? [(row.account || '').padEnd(12)] : []),
+    row.symbol.padEnd(15),
+    `rate ${row.rate}`.padEnd(18),
+    formatSigned(row.amount, 6, '$')
+  ].join('  '));
+
+  lines.push('', '📊 FUNDING BY SYMBOL:');
+  for (const [symbol, totals] of Object.entries(fundingTotals(rows))) {
+    lines.push(`${symbol}: paid $${totals.paid.toFixed(6)}, received $${totals.received.toFixed(6)}, net ${formatSigned(totals.net, 6, '$')} (${totals.payments} payments)`);
+  }
+
+  const net = Decimal.sum(rows.map(row => row.amount)).toNumber();
+  lines.push(`Total: ${formatSigned(net, 6, '$')} over ${rows.length} payments`);
+  return lines.join('\n');
+}
+
+function fundingTotals(rows: FundingRow[]): { [symbol: string]: { payments: number; paid: number; received: number; net: number } } {
+  const totals: { [symbol: string]: { payments: number; paid: Decimal; received: Decimal } } = {};
+  for (const row of rows) {
+    const symbolTotals = totals[row.symbol] || (totals[row.symbol] = { payments: 0, paid: Decimal.ZERO, received: Decimal.ZERO });
+    symbolTotals.payments++;
+    if (row.amount < 0) {
+      symbolTotals.paid = symbolTotals.paid.sub(row.amount);
+    } else {
+      symbolTotals.received = symbolTotals.received.add(row.amount);
+    }
+  }
+
+  const result: { [symbol: string]: { payments: number; paid: number; received: number; net: number } } = {};
+  for (const [symbol, symbolTotals] of Object.entries(totals)) {
+    result[symbol] = {
+      payments: symbolTotals.payments,
+      paid: symbolTotals.paid.toNumber(),
+      received: symbolTotals.received.toNumber(),
+      net: symbolTotals.received.sub(symbolTotals.paid).toNumber()
+    };
+  }
+  return result;
+}
+
+export function formatFundingAsJSON(rows: FundingRow[]): object {
+  return {
+    payments: rows.map(row => ({
+      timestamp: row.timestamp.toISOString(),
+      ...(row.account ? { account: row.account } : {}),
+      symbol: row.symbol,
+      rate: row.rate,
+      amount: row.amount,
+      source: row.source
+    })),
+    by_symbol: fundingTotals(rows)
+  };
+}
+
+export function formatFundingAsCSV(rows: FundingRow[]): string {
+  return toCSV(
+    ['timestamp', 'account', 'symbol', 'rate', 'amount', 'source'],
+    rows.map(row => [row.timestamp.toISOString(), row.account, row.symbol, row.rate, row.amount, row.source])
+  );
+}
+
+export function formatInterestHistoryForCLI(interestHistory: BackpackInterestHistory[]): string {
+  const lines = ['='.repeat(60), '💰 INTEREST HISTORY', '='.repeat(60)];
+
+  if (interestHistory.length === 0) {
+    lines.push('No interest history found');
+    return lines.join('\n');
+  }
+
+  // Filter by payment types as available from API
+  const unrealizedPnlInterest = interestHistory.filter(interest => interest.paymentType === 'UnrealizedPnl');
+  const borrowLendInterest = interestHistory.filter(interest =>
+    interest.paymentType === 'Lend' || interest.paymentType === 'Borrow'
+  );
+
+  lines.push(`Total Interest Records: ${interestHistory.length}`, '');
+
+  const formatRecords = (title: string, records: BackpackInterestHistory[]) => {
+    if (records.length === 0) return;
+
+    lines.push(title, '-'.repeat(50));
+    records.forEach((interest, i) => {
+      lines.push(`${i + 1}. ${interest.symbol}${interest.account ? ` (${interest.account})` : ''}`);
+      lines.push(`   Amount: ${formatInterestAmount(interest.quantity)}`);
+      lines.push(`   Interest Rate: ${interest.interestRate}`);
+      lines.push(`   Date: ${new Date(interest.timestamp).toLocaleString()}`);
+      lines.push(`   Payment Type: ${interest.paymentType}`);
+      lines.push('');
+    });
+  };
+
+  formatRecords('💹 UNREALIZED PNL INTEREST:', unrealizedPnlInterest);
+  formatRecords('🏦 BORROW/LEND INTEREST:', borrowLendInterest);
+
+  const totalUnrealizedAmount = Decimal.sum(unrealizedPnlInterest.map(interest => interest.quantity)).toNumber();
+  const totalBorrowLendAmount = Decimal.sum(borrowLendInterest.map(interest => interest.quantity)).toNumber();
+
+  lines.push('📊 INTEREST SUMMARY:', '-'.repeat(30));
+  lines.push(`UnrealizedPnl Total: ${formatSigned(totalUnrealizedAmount, 8)}`);
+  lines.push(`BorrowLend Total: ${formatSigned(totalBorrowLendAmount, 8)}`);
+  lines.push(`Grand Total: ${formatSigned(totalUnrealizedAmount + totalBorrowLendAmount, 8)}`);
+  return lines.join('\n');
+}
+
+function formatInterestAmount(quantity: string): string {
+  const positive = parseFloat(quantity) >= 0;
+  return `\x1b[${positive ? '32' : '31'}m${positive ? '+' : ''}${quantity}\x1b[0m`;
+}
+
+export function formatInterestHistoryAsJSON(interestHistory: BackpackInterestHistory[]): object[] {
+  return interestHistory.map(interest => ({
+    timestamp: new Date(interest.timestamp).toISOString(),
+    ...(interest.account ? { account: interest.account } : {}),
+    symbol: interest.symbol,
+    market_symbol: interest.marketSymbol,
+    payment_type: interest.paymentType,
+    quantity: interest.quantity,
+    interest_rate: interest.interestRate,
+    position_id: interest.positionId
+  }));
+}
+
+export function formatInterestHistoryAsCSV(interestHistory: BackpackInterestHistory[]): string {
+  return toCSV(
+    ['timestamp', 'account', 'symbol', 'market_symbol', 'payment_type', 'quantity', 'interest_rate', 'position_id'],
+    interestHistory.map(interest => [
+      new Date(interest.timestamp).toISOString(),
+      interest.account,
+      interest.symbol,
+      interest.marketSymbol,
+      interest.paymentType,
+      interest.quantity,
+      interest.interestRate,
+      interest.positionId
+    ])
+  );
+}
+
+/**
+ * PnL breakdown rows per symbol plus an ALL row, for each account and
+ * firm-wide when several accounts are analysed.
+ */
+export function formatSummaryAsCSV(analysis: PositionAnalysis, accounts: AccountAnalysis[] = []): string {
+  const rows: CSVValue[][] = [];
+  const addRows = (account: string, section: PositionAnalysis) => {
+    const { summary } = section;
+    for (const [symbol, data] of Object.entries(summary.symbolBreakdown)) {
+      rows.push([account, symbol, data.positions, data.net.grossPnl, data.net.tradingFees, data.net.funding, data.net.interest, data.net.netPnl]);
+    }
+    rows.push([account, 'ALL', summary.totalPositions, summary.net.grossPnl, summary.net.tradingFees, summary.net.funding, summary.net.interest, summary.net.netPnl]);
+  };
+
+  accounts.forEach(account => addRows(account.account, account.analysis));
+  addRows(accounts.length > 0 ? 'ALL' : '', analysis);
+
+  return toCSV(['account', 'symbol', 'positions', 'gross_pnl', 'trading_fees', 'funding', 'interest', 'net_pnl'], rows);
+}
@@ -0,0 +1,228 @@
+import { CompletedPosition, PositionReconstructor } from './analysis';
+import { Decimal } from './decimal';
+
+export type PnlBasis = 'gross' | 'net';
+
+export interface SideStatistics {
+  trades: number;
+  wins: number;
+  winRate: number; // Percent
+  totalPnl: number;
+}
+
+export interface TradingStatistics {
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  breakeven: number;
+  winRate: number; // Percent of all trades
+  totalPnl: number;
+  averageWin: number;
+  averageLoss: number; // Negative
+  profitFactor: number | null; // Gross profit / gross loss, null when there are no losses
+  expectancy: number; // Average PnL per trade
+  largestWin: number;
+  largestLoss: number; // Negative
+  longestWinStreak: number;
+  longestLossStreak: number;
+  averageHoldingTimeMs: number;
+  averageHoldingTime: string;
+  long: SideStatistics;
+  short: SideStatistics;
+}
+
+export interface StatisticsReport {
+  pnlBasis: PnlBasis;
+  overall: TradingStatistics;
+  bySymbol: { [symbol: string]: TradingStatistics };
+}
+
+export class PerformanceStatistics {
+  /**
+   * Statistics over all positions and per symbol. `gross` uses the Backpack
+   * realized PnL, `net` uses PnL after fees, funding and interest.
+   */
+  static report(positions: CompletedPosition[], pnlBasis: PnlBasis = 'gross'): StatisticsReport {
+    const bySymbol: { [symbol: string]: TradingStatistics } = {};
+    const symbols = [...new Set(positions.map(p => p.symbol))].sort();
+
+    for (const symbol of symbols) {
+      bySymbol[symbol] = this.calculate(positions.filter(p => p.symbol === symbol), pnlBasis);
+    }
+
+    return {
+      pnlBasis,
+      overall: this.calculate(positions, pnlBasis),
+      bySymbol
+    };
+  }
+
+  static calculate(positions: CompletedPosition[], pnlBasis: PnlBasis = 'gross'): TradingStatistics {
+    // Streaks follow the order in which positions were closed
+    const ordered = [...positions].sort((a, b) => a.exitTime.getTime() - b.exitTime.getTime());
+    const pnls = ordered.map(p => Decimal.from(this.pnlOf(p, pnlBasis)));
+
+    const wins = pnls.filter(pnl => pnl.sign() > 0);
+    const losses = pnls.filter(pnl => pnl.sign() < 0);
+    const grossProfit = Decimal.sum(wins);
+    const grossLoss = Decimal.sum(losses); // Negative
+    const totalPnl = Decimal.sum(pnls);
+
+    let longestWinStreak = 0;
+    let longestLossStreak = 0;
+    let winStreak = 0;
+    let lossStreak = 0;
+    for (const pnl of pnls) {
+      // A breakeven trade ends both streaks
+      winStreak = pnl.sign() > 0 ? winStreak + 1 : 0;
+      lossStreak = pnl.sign() < 0 ? lossStreak + 1 : 0;
+      longestWinStreak = Math.max(longestWinStreak, winStreak);
+      longestLossStreak = Math.max(longestLossStreak, lossStreak);
+    }
+
+    const totalHoldingMs = ordered.reduce((sum, p) => sum + (p.exitTime.getTime() - p.entryTime.getTime()), 0);
+    const averageHoldingTimeMs = ordered.length > 0 ? totalHoldingMs / ordered.length : 0;
+
+    return {
+      totalTrades: ordered.length,
+      wins: wins.length,
+      losses: losses.length,
+      breakeven: ordered.length - wins.length - losses.length,
+      winRate: this.percent(wins.length, ordered.length),
+      totalPnl: totalPnl.toNumber(),
+      averageWin: wins.length > 0 ? grossProfit.div(wins.length).toNumber() : 0,
+      averageLoss: losses.length > 0 ? grossLoss.div(losses.length).toNumber() : 0,
+      profitFactor: grossLoss.isZero() ? null : grossProfit.div(grossLoss.neg()).toNumber(),
+      expectancy: ordered.length > 0 ? totalPnl.div(ordered.length).toNumber() : 0,
+      largestWin: wins.length > 0 ? wins.reduce((a, b) => Decimal.max(a, b)).toNumber() : 0,
+      largestLoss: losses.length > 0 ? losses.reduce((a, b) => Decimal.min(a, b)).toNumber() : 0,
+      longestWinStreak,
+      longestLossStreak,
+      averageHoldingTimeMs,
+      averageHoldingTime: PositionReconstructor.formatDuration(averageHoldingTimeMs),
+      long: this.sideStatistics(ordered.filter(p => p.side === 'Long'), pnlBasis),
+      short: this.sideStatistics(ordered.filter(p => p.side === 'Short'), pnlBasis)
+    };
+  }
+
+  private static sideStatistics(positions: CompletedPosition[], pnlBasis: PnlBasis): SideStatistics {
+    const pnls = positions.map(p => Decimal.from(this.pnlOf(p, pnlBasis)));
+    const wins = pnls.filter(pnl => pnl.sign() > 0).length;
+
+    return {
+      trades: positions.length,
+      wins,
+      winRate: this.percent(wins, positions.length),
+      totalPnl: Decimal.sum(pnls).toNumber()
+    };
+  }
+
+  private static pnlOf(position: CompletedPosition, pnlBasis: PnlBasis): number {
+    return pnlBasis === 'net' ? position.netPnl : position.realizedPnl;
+  }
+
+  private static percent(count: number, total: number): number {
+    return total > 0 ? (count / total) * 100 : 0;
+  }
+}
+
+export function formatStatisticsForCLI(stats: TradingStatistics): string {
+  const formatAmount = (amount: number): string => {
+    const color = amount >= 0 ? '32' : '31';
+    const sign = amount >= 0 ? '+' : '';
+    return `\x1b[${color}m${sign}$${amount.toFixed(2)}\x1b[0m`;
+  };
+
+  return [
+    `├─ Trades: ${stats.totalTrades} (${stats.wins} wins, ${stats.losses} losses, ${stats.breakeven} breakeven)`,
+    `├─ Win Rate: ${stats.winRate.toFixed(2)}%`,
+    `├─ Average Win: ${formatAmount(stats.averageWin)}`,
+    `├─ Average Loss: ${formatAmount(stats.averageLoss)}`,
+    `├─ Profit Factor: ${stats.profitFactor !== null ? stats.profitFactor.toFixed(2) : 'N/A (no losses)'}`,
+    `├─ Expectancy: ${formatAmount(stats.expectancy)} per trade`,
+    `├─ Largest Win: ${formatAmount(stats.largestWin)}`,
+    `├─ Largest Loss: ${formatAmount(stats.largestLoss)}`,
+    `├─ Longest Win Streak: ${stats.longestWinStreak}`,
+    `├─ Longest Loss Streak: ${stats.longestLossStreak}`,
+    `├─ Average Holding Time: ${stats.averageHoldingTime}`,
+    `├─ Long: ${stats.long.trades} trades, ${stats.long.winRate.toFixed(2)}% win rate, ${formatAmount(stats.long.totalPnl)}`,
+    `└─ Short: ${stats.short.trades} trades, ${stats.short.winRate.toFixed(2)}% win rate, ${formatAmount(stats.short.totalPnl)}`
+  ].join('\n');
+}
+
+interface DetailedSideStatistics {
+  trades: number;
+  wins: number;
+  win_rate: number;
+  total_pnl: number;
+}
+
+interface DetailedStatistics {
+  total_trades: number;
+  wins: number;
+  losses: number;
+  breakeven: number;
+  win_rate: number;
+  total_pnl: number;
+  average_win: number;
+  average_loss: number;
+  profit_factor: number | null;
+  expectancy: number;
+  largest_win: number;
+  largest_loss: number;
+  longest_win_streak: number;
+  longest_loss_streak: number;
+  average_holding_time_ms: number;
+  average_holding_time: string;
+  long: DetailedSideStatistics;
+  short: DetailedSideStatistics;
+}
+
+function mapSideStatistics(stats: SideStatistics): DetailedSideStatistics {
+  return {
+    trades: stats.trades,
+    wins: stats.wins,
+    win_rate: stats.winRate,
+    total_pnl: stats.totalPnl
+  };
+}
+
+function mapStatistics(stats: TradingStatistics): DetailedStatistics {
+  return {
+    total_trades: stats.totalTrades,
+    wins: stats.wins,
+    losses: stats.losses,
+    breakeven: stats.breakeven,
+    win_rate: stats.winRate,
+    total_pnl: stats.totalPnl,
+    average_win: stats.averageWin,
+    average_loss: stats.averageLoss,
+    profit_factor: stats.profitFactor,
+    expectancy: stats.expectancy,
+    largest_win: stats.largestWin,
+    largest_loss: stats.largestLoss,
+    longest_win_streak: stats.longestWinStreak,
+    longest_loss_streak: stats.longestLossStreak,
+    average_holding_time_ms: stats.averageHoldingTimeMs,
+    average_holding_time: stats.averageHoldingTime,
+    long: mapSideStatistics(stats.long),
+    short: mapSideStatistics(stats.short)
+  };
+}
+
+export function formatStatisticsAsJSON(report: StatisticsReport): {
+  pnl_basis: PnlBasis;
+  overall: DetailedStatistics;
+  by_symbol: { [symbol: string]: DetailedStatistics };
+} {
+  const by_symbol: { [symbol: string]: DetailedStatistics } = {};
+  for (const [symbol, stats] of Object.entries(report.bySymbol)) {
+    by_symbol[symbol] = mapStatistics(stats);
+  }
+
+  return {
+    pnl_basis: report.pnlBasis,
+    overall: mapStatistics(report.overall),
+    by_symbol
+  };
+}
@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BackpackAccount,
+  BackpackBalance,
+  BackpackPosition,
+  TradingData
+} from './types';
+
+// Datasets with a timestamp that can be synced incrementally
+export type HistoryDataset =
+  | 'fills'
+  | 'orders'
+  | 'fundingPayments'
+  | 'settlements'
+  | 'fundingHistory'
+  | 'deposits'
+  | 'withdrawals'
+  | 'interestHistory';
+
+// Datasets that are replaced as a whole on every sync
+export type SnapshotDataset = 'balances' | 'account' | 'positions';
+
+// The record type stored in a history dataset, e.g. BackpackFill for fills
+export type HistoryRecord<D extends HistoryDataset> = TradingData[D][number];
+
+interface DatasetDefinition<T> {
+  key: (record: T) => string;
+  timestamp: (record: T) => number;
+  open?: (record: T) => boolean; // Can still change after it is stored
+}
+
+const FINAL_ORDER_STATUSES = ['Cancelled', 'Filled', 'Expired'];
+
+const HISTORY_DATASETS: { [D in HistoryDataset]: DatasetDefinition<HistoryRecord<D>> } = {
+  fills: {
+    key: fill => String(fill.id ?? `${fill.tradeId}-${fill.orderId}`),
+    timestamp: fill => toMillis(fill.timestamp)
+  },
+  orders: {
+    key: order => String(order.id),
+    timestamp: order => toMillis(order.createdAt),
+    open: order => !FINAL_ORDER_STATUSES.includes(order.status)
+  },
+  fundingPayments: {
+    key: payment => String(payment.id ?? `${payment.symbol}-${payment.timestamp}`),
+    timestamp: payment => toMillis(payment.timestamp)
+  },
+  settlements: {
+    key: settlement => String(settlement.id ?? `${settlement.symbol}-${settlement.timestamp}`),
+    timestamp: settlement => toMillis(settlement.timestamp)
+  },
+  fundingHistory: {
+    key: funding => `${funding.subaccountId}-${funding.symbol}-${funding.intervalEndTimestamp}`,
+    timestamp: funding => toMillis(funding.intervalEndTimestamp)
+  },
+  deposits: {
+    key: deposit => String(deposit.id ?? deposit.transactionId ?? `${deposit.symbol}-${deposit.timestamp}-${deposit.quantity}`),
+    timestamp: deposit => toMillis(deposit.timestamp)
+  },
+  withdrawals: {
+    key: withdrawal => String(withdrawal.id ?? withdrawal.transactionHash ?? `${withdrawal.symbol}-${withdrawal.timestamp}-${withdrawal.quantity}`),
+    timestamp: withdrawal => toMillis(withdrawal.timestamp)
+  },
+  interestHistory: {
+    key: interest => `${interest.paymentType}-${interest.symbol}-${interest.marketSymbol}-${interest.positionId}-${interest.timestamp}`,
+    timestamp: interest => toMillis(interest.timestamp)
+  }
+};
+
+export const HISTORY_DATASET_NAMES = Object.keys(HISTORY_DATASETS) as HistoryDataset[];
+
+function toMillis(value: number | string): number {
+  const millis = new Date(value).getTime();
+  return isNaN(millis) ? 0 : millis;
+}
+
+/**
+ * On-disk store with one append-only JSONL file per history dataset and one
+ * JSON file per snapshot dataset. Records are keyed by id; a record that is
+ * appended again with changes (e.g. an order that was filled later) replaces
+ * the earlier version when the dataset is loaded.
+ */
+export class LocalStore {
+  readonly directory: string;
+
+  constructor(directory: string = process.env.BACKPACK_STORE_DIR || path.join('output', 'store')) {
+    this.directory = directory;
+  }
+
+  async load<D extends HistoryDataset>(dataset: D): Promise<HistoryRecord<D>[]> {
+    const records = await this.loadRecords(dataset);
+    return [...records.values()];
+  }
+
+  /**
+   * Append records that are new or changed. Returns the number written.
+   */
+  async append<D extends HistoryDataset>(dataset: D, records: HistoryRecord<D>[]): Promise<number> {
+    if (records.length === 0) return 0;
+
+    const { key } = HISTORY_DATASETS[dataset];
+    const existing = await this.loadRecords(dataset);
+    const lines: string[] = [];
+
+    for (const record of records) {
+      const line = JSON.stringify(record);
+      const recordKey = key(record);
+      const stored = existing.get(recordKey);
+
+      if (stored !== undefined && JSON.stringify(stored) === line) continue;
+
+      existing.set(recordKey, record);
+      lines.push(line);
+    }
+
+    if (lines.length > 0) {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.appendFile(this.datasetPath(dataset), lines.join('\n') + '\n', 'utf8');
+    }
+
+    return lines.length;
+  }
+
+  /**
+   * Timestamp a sync resumes from: the latest stored record, or the oldest
+   * one that can still change (an order that is still open) so its final
+   * version is fetched again. null when nothing is stored.
+   */
+  async resumeTimestamp<D extends HistoryDataset>(dataset: D): Promise<number | null> {
+    const { timestamp, open } = HISTORY_DATASETS[dataset];
+    const records = await this.loadRecords(dataset);
+    let latest: number | null = null;
+    let oldestOpen: number | null = null;
+
+    for (const record of records.values()) {
+      const time = timestamp(record);
+      if (latest === null || time > latest) {
+        latest = time;
+      }
+      if (open?.(record) && (oldestOpen === null || time < oldestOpen)) {
+        oldestOpen = time;
+      }
+    }
+
+    return oldestOpen ?? latest;
+  }
+
+  async saveSnapshot<T>(dataset: SnapshotDataset, value: T): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.snapshotPath(dataset), JSON.stringify(value, null, 2), 'utf8');
+  }
+
+  async loadSnapshot<T>(dataset: SnapshotDataset, fallback: T): Promise<T> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.snapshotPath(dataset), 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+      throw error;
+    }
+  }
+
+  async hasData(): Promise<boolean> {
+    try {
+      const files = await fs.promises.readdir(this.directory);
+      return files.some(file => file.endsWith('.jsonl'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Everything in the store as TradingData, without network access.
+   */
+  async loadTradingData(): Promise<TradingData> {
+    return {
+      fills: await this.load('fills'),
+      orders: await this.load('orders'),
+      fundingPayments: await this.load('fundingPayments'),
+      settlements: await this.load('settlements'),
+      fundingHistory: await this.load('fundingHistory'),
+      balances: await this.loadSnapshot<BackpackBalance>('balances', {}),
+      deposits: await this.load('deposits'),
+      withdrawals: await this.load('withdrawals'),
+      positions: await this.loadSnapshot<BackpackPosition[]>('positions', []),
+      account: await this.loadSnapshot<BackpackAccount>('account', {}),
+      interestHistory: await this.load('interestHistory'),
+    };
+  }
+
+  private async loadRecords<D extends HistoryDataset>(dataset: D): Promise<Map<string, HistoryRecord<D>>> {
+    const { key } = HISTORY_DATASETS[dataset];
+    const records = new Map<string, HistoryRecord<D>>();
+    let content: string;
+
+    try {
+      content = await fs.promises.readFile(this.datasetPath(dataset), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return records;
+      throw error;
+    }
+
+    content.split('\n').forEach((line, index) => {
+      if (line.trim() === '') return;
+      try {
+        const record: HistoryRecord<D> = JSON.parse(line); // Written by append, so trusted to match the dataset
+        records.set(key(record), record); // Later versions win
+      } catch {
+        throw new Error(`Corrupt record in ${this.datasetPath(dataset)} at line ${index + 1}`);
+      }
+    });
+
+    return records;
+  }
+
+  private datasetPath(dataset: HistoryDataset): string {
+    return path.join(this.directory, `${dataset}.jsonl`);
+  }
+
+  private snapshotPath(dataset: SnapshotDataset): string {
+    return path.join(this.directory, `${dataset}.json`);
+  }
+}
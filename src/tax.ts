@@ -0,0 +1,639 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CompletedPosition, OpenPosition, PositionAnalysis } from './analysis';
+import { LotMatchingMethod, MatchedLot } from './lots';
+import { Decimal } from './decimal';
+import { toCSV, CSVValue } from './csv';
+import { ExportedFile } from './exporter';
+import { AccountAnalysis } from './accounts';
+import { escapeHTML } from './html';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEE_DECIMALS = 8; // Pro-rata fee shares, rounded
+
+export interface TaxReportOptions {
+  year: number; // Tax year, named after the calendar year it starts in
+  yearStart?: string; // MM-DD the tax year starts on, defaults to 01-01
+  timeZone?: string; // IANA time zone for the year boundary and all dates, defaults to UTC
+  longTermDays?: number; // Holding periods longer than this are long-term, defaults to 365
+}
+
+/**
+ * One matched lot as a disposal. Trading fees are folded in: the opening
+ * fee is added to the cost basis and the closing fee deducted from the
+ * proceeds, each in proportion to the lot's share of its fill. For shorts
+ * the sale is the opening fill, so its price sets the proceeds.
+ */
+export interface Disposal {
+  account?: string;
+  positionId: number;
+  symbol: string;
+  side: 'Long' | 'Short';
+  quantity: number;
+  acquired: Date; // Opening fill
+  disposed: Date; // Closing fill; decides the tax year
+  holdingDays: number;
+  term: 'short' | 'long';
+  proceeds: number;
+  costBasis: number;
+  fees: number; // Included in proceeds and cost basis
+  gain: number; // proceeds - costBasis
+  openTradeId: string;
+  closeTradeId: string;
+}
+
+export interface IncomeLine {
+  account?: string;
+  positionId?: number; // Unset for funding or interest outside reconstructed positions
+  timestamp: Date;
+  type: 'funding' | 'interest';
+  symbol: string;
+  amount: number; // Positive = income, negative = expense
+  eventId: string;
+}
+
+export interface SymbolTaxTotals {
+  disposals: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+}
+
+export interface TaxTotals {
+  disposals: number;
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  gains: number; // Sum of gains
+  losses: number; // Sum of losses, as a positive amount
+  netGain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  fundingIncome: number;
+  fundingExpense: number; // Positive amount
+  interestIncome: number;
+  interestExpense: number; // Positive amount
+  netIncome: number; // Funding and interest combined
+  bySymbol: { [symbol: string]: SymbolTaxTotals };
+}
+
+export interface TaxReport {
+  year: number;
+  label: string; // "2024", or "2024/25" when the year does not start on 01-01
+  timeZone: string;
+  start: Date; // Inclusive
+  end: Date; // Exclusive
+  lotMatching: LotMatchingMethod;
+  longTermDays: number;
+  disposals: Disposal[];
+  income: IncomeLine[];
+  totals: TaxTotals;
+}
+
+export class TaxReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaxReportError';
+  }
+}
+
+export class TaxReportBuilder {
+  /**
+   * Realized gains and funding/interest income for one tax year. Partial
+   * closes of positions that are still open count as disposals too. With
+   * several accounts, pass them so unattributed funding and interest keep
+   * their account.
+   */
+  static build(analysis: PositionAnalysis, options: TaxReportOptions, accounts: AccountAnalysis[] = []): TaxReport {
+    const timeZone = options.timeZone || 'UTC';
+    const longTermDays = options.longTermDays ?? 365;
+    const { start, end } = this.yearBounds(options);
+    const [startMonth, startDay] = this.parseYearStart(options.yearStart || '01-01');
+    const inYear = (time: number) => time >= start.getTime() && time < end.getTime();
+
+    const positions: Array<CompletedPosition | OpenPosition> = [...analysis.completedPositions, ...analysis.openPositions];
+
+    const disposals = positions
+      .flatMap(position => position.lots
+        .filter(lot => inYear(new Date(lot.closeFill.timestamp).getTime()))
+        .map(lot => this.toDisposal(position, lot, longTermDays)))
+      .sort((a, b) => a.disposed.getTime() - b.disposed.getTime());
+
+    const income: IncomeLine[] = [
+      ...positions.flatMap(position => [
+        ...position.funding.map(event => ({ account: position.account, positionId: position.id, type: 'funding' as const, event })),
+        ...position.interest.map(event => ({ account: position.account, positionId: position.id, type: 'interest' as const, event }))
+      ]),
+      ...(accounts.length > 0 ? accounts : [{ account: undefined, analysis }]).flatMap(({ account, analysis }) => [
+        ...analysis.unattributedFunding.map(event => ({ account, positionId: undefined, type: 'funding' as const, event })),
+        ...analysis.unattributedInterest.map(event => ({ account, positionId: undefined, type: 'interest' as const, event }))
+      ])
+    ]
+      .filter(({ event }) => inYear(event.timestamp.getTime()))
+      .map(({ account, positionId, type, event }) => ({
+        account,
+        positionId,
+        timestamp: event.timestamp,
+        type,
+        symbol: event.symbol,
+        amount: event.amount,
+        eventId: event.id
+      }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return {
+      year: options.year,
+      label: startMonth === 1 && startDay === 1 ? `${options.year}` : `${options.year}/${String((options.year + 1) % 100).padStart(2, '0')}`,
+      timeZone,
+      start,
+      end,
+      lotMatching: analysis.lotMatching,
+      longTermDays,
+      disposals,
+      income,
+      totals: this.totals(disposals, income)
+    };
+  }
+
+  /**
+   * First instant of the tax year and of the next one. Throws
+   * TaxReportError for an invalid year, year start or time zone.
+   */
+  static yearBounds(options: TaxReportOptions): { start: Date; end: Date } {
+    const timeZone = options.timeZone || 'UTC';
+    const [startMonth, startDay] = this.parseYearStart(options.yearStart || '01-01');
+    this.checkTimeZone(timeZone);
+    if (!Number.isInteger(options.year) || options.year < 2000 || options.year > 9999) {
+      throw new TaxReportError(`Invalid tax year ${options.year}`);
+    }
+
+    return {
+      start: new Date(zonedMidnight(options.year, startMonth, startDay, timeZone)),
+      end: new Date(zonedMidnight(options.year + 1, startMonth, startDay, timeZone))
+    };
+  }
+
+  private static toDisposal(position: CompletedPosition | OpenPosition, lot: MatchedLot, longTermDays: number): Disposal {
+    const quantity = Decimal.from(lot.quantity);
+    const openFee = Decimal.from(lot.openFill.fee).mul(quantity).div(lot.openFill.quantity, FEE_DECIMALS);
+    const closeFee = Decimal.from(lot.closeFill.fee).mul(quantity).div(lot.closeFill.quantity, FEE_DECIMALS);
+    const openValue = quantity.mul(lot.openPrice);
+    const closeValue = quantity.mul(lot.closePrice);
+
+    const [proceeds, costBasis] = position.side === 'Long' ?
+      [closeValue.sub(closeFee), openValue.add(openFee)] :
+      [openValue.sub(openFee), closeValue.add(closeFee)];
+
+    const acquired = new Date(lot.openFill.timestamp);
+    const disposed = new Date(lot.closeFill.timestamp);
+    const holdingDays = Math.floor((disposed.getTime() - acquired.getTime()) / DAY_MS);
+
+    return {
+      account: position.account,
+      positionId: position.id,
+      symbol: position.symbol,
+      side: position.side,
+      quantity: lot.quantity,
+      acquired,
+      disposed,
+      holdingDays,
+      term: holdingDays > longTermDays ? 'long' : 'short',
+      proceeds: proceeds.toNumber(),
+      costBasis: costBasis.toNumber(),
+      fees: openFee.add(closeFee).toNumber(),
+      gain: proceeds.sub(costBasis).toNumber(),
+      openTradeId: lot.openFill.tradeId,
+      closeTradeId: lot.closeFill.tradeId
+    };
+  }
+
+  private static totals(disposals: Disposal[], income: IncomeLine[]): TaxTotals {
+    const sum = (values: number[]) => Decimal.sum(values).toNumber();
+    const gains = disposals.map(d => d.gain);
+    const funding = income.filter(line => line.type === 'funding').map(line => line.amount);
+    const interest = income.filter(line => line.type === 'interest').map(line => line.amount);
+
+    const bySymbol: { [symbol: string]: SymbolTaxTotals } = {};
+    for (const symbol of [...new Set(disposals.map(d => d.symbol))].sort()) {
+      const symbolDisposals = disposals.filter(d => d.symbol === symbol);
+      bySymbol[symbol] = {
+        disposals: symbolDisposals.length,
+        proceeds: sum(symbolDisposals.map(d => d.proceeds)),
+        costBasis: sum(symbolDisposals.map(d => d.costBasis)),
+        gain: sum(symbolDisposals.map(d => d.gain))
+      };
+    }
+
+    return {
+      disposals: disposals.length,
+      proceeds: sum(disposals.map(d => d.proceeds)),
+      costBasis: sum(disposals.map(d => d.costBasis)),
+      fees: sum(disposals.map(d => d.fees)),
+      gains: sum(gains.filter(gain => gain > 0)),
+      losses: -sum(gains.filter(gain => gain < 0)),
+      netGain: sum(gains),
+      shortTermGain: sum(disposals.filter(d => d.term === 'short').map(d => d.gain)),
+      longTermGain: sum(disposals.filter(d => d.term === 'long').map(d => d.gain)),
+      fundingIncome: sum(funding.filter(amount => amount > 0)),
+      fundingExpense: -sum(funding.filter(amount => amount < 0)),
+      interestIncome: sum(interest.filter(amount => amount > 0)),
+      interestExpense: -sum(interest.filter(amount => amount < 0)),
+      netIncome: sum([...funding, ...interest]),
+      bySymbol
+    };
+  }
+
+  private static parseYearStart(value: string): [number, number] {
+    const match = /^(\d{2})-(\d{2})$/.exec(value);
+    const month = match ? Number(match[1]) : NaN;
+    const day = match ? Number(match[2]) : NaN;
+    // 29 February would not exist every year
+    if (!(month >= 1 && month <= 12 && day >= 1 && day <= new Date(Date.UTC(2001, month, 0)).getUTCDate())) {
+      throw new TaxReportError(`Invalid tax year start "${value}": use MM-DD, e.g. 04-06`);
+    }
+    return [month, day];
+  }
+
+  private static checkTimeZone(timeZone: string): void {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+      throw new TaxReportError(`Unknown time zone "${timeZone}": use an IANA name such as Europe/London`);
+    }
+  }
+}
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+function zoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(new Date(time));
+  const part = (type: string) => Number(parts.find(p => p.type === type)!.value);
+
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return local - Math.floor(time / 1000) * 1000;
+}
+
+// Start of a local calendar day as a UTC instant
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): number {
+  const local = Date.UTC(year, month - 1, day);
+  const guess = local - zoneOffset(local, timeZone);
+  // Second pass in case a DST change lies between the guess and the answer
+  const time = local - zoneOffset(guess, timeZone);
+  // Where clocks skip midnight the day starts at the change instead
+  return time + zoneOffset(time, timeZone) < local ? guess : time;
+}
+
+// ISO 8601 in the report's time zone, e.g. 2024-04-06T09:30:00+01:00
+function formatZoned(date: Date, timeZone: string): string {
+  const offset = zoneOffset(date.getTime(), timeZone);
+  const local = new Date(date.getTime() + offset).toISOString().slice(0, 19);
+  const minutes = Math.abs(offset) / 60000;
+  const sign = offset >= 0 ? '+' : '-';
+  return `${local}${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function formatZonedDate(date: Date, timeZone: string): string {
+  return formatZoned(date, timeZone).slice(0, 10);
+}
+
+// Last day of the tax year, for display
+function lastDay(report: TaxReport): string {
+  return formatZonedDate(new Date(report.end.getTime() - 1), report.timeZone);
+}
+
+export function formatDisposalsAsCSV(report: TaxReport): string {
+  return toCSV(
+    [
+      'account', 'position_id', 'symbol', 'side', 'quantity', 'acquired', 'disposed', 'holding_days', 'term',
+      'proceeds', 'cost_basis', 'fees', 'gain', 'open_trade_id', 'close_trade_id'
+    ],
+    report.disposals.map(d => [
+      d.account, d.positionId, d.symbol, d.side, d.quantity, formatZoned(d.acquired, report.timeZone),
+      formatZoned(d.disposed, report.timeZone), d.holdingDays, d.term, d.proceeds, d.costBasis, d.fees, d.gain,
+      d.openTradeId, d.closeTradeId
+    ])
+  );
+}
+
+export function formatTaxIncomeAsCSV(report: TaxReport): string {
+  return toCSV(
+    ['account', 'timestamp', 'type', 'category', 'symbol', 'position_id', 'amount', 'event_id'],
+    report.income.map(line => [
+      line.account, formatZoned(line.timestamp, report.timeZone), line.type, line.amount >= 0 ? 'income' : 'expense',
+      line.symbol, line.positionId, line.amount, line.eventId
+    ])
+  );
+}
+
+/**
+ * Totals as item/symbol/value rows, so they pivot easily. Per-symbol rows
+ * repeat the disposal items with the symbol set.
+ */
+export function formatTaxTotalsAsCSV(report: TaxReport): string {
+  return toCSV(['item', 'symbol', 'value'], totalsRows(report));
+}
+
+function totalsRows(report: TaxReport): CSVValue[][] {
+  const { totals } = report;
+  const rows: CSVValue[][] = [
+    ['tax_year', '', report.label],
+    ['period_start', '', formatZoned(report.start, report.timeZone)],
+    ['period_end', '', formatZoned(report.end, report.timeZone)],
+    ['lot_matching', '', report.lotMatching],
+    ['disposals', '', totals.disposals],
+    ['proceeds', '', totals.proceeds],
+    ['cost_basis', '', totals.costBasis],
+    ['fees', '', totals.fees],
+    ['gains', '', totals.gains],
+    ['losses', '', totals.losses],
+    ['net_gain', '', totals.netGain],
+    ['short_term_gain', '', totals.shortTermGain],
+    ['long_term_gain', '', totals.longTermGain],
+    ['funding_income', '', totals.fundingIncome],
+    ['funding_expense', '', totals.fundingExpense],
+    ['interest_income', '', totals.interestIncome],
+    ['interest_expense', '', totals.interestExpense],
+    ['net_income', '', totals.netIncome]
+  ];
+
+  for (const [symbol, symbolTotals] of Object.entries(totals.bySymbol)) {
+    rows.push(
+      ['disposals', symbol, symbolTotals.disposals],
+      ['proceeds', symbol, symbolTotals.proceeds],
+      ['cost_basis', symbol, symbolTotals.costBasis],
+      ['net_gain', symbol, symbolTotals.gain]
+    );
+  }
+  return rows;
+}
+
+export function formatTaxReportAsJSON(report: TaxReport): object {
+  const { totals } = report;
+  return {
+    tax_year: report.label,
+    time_zone: report.timeZone,
+    period_start: formatZoned(report.start, report.timeZone),
+    period_end: formatZoned(report.end, report.timeZone),
+    lot_matching: report.lotMatching,
+    long_term_days: report.longTermDays,
+    disposals: report.disposals.map(d => ({
+      ...(d.account ? { account: d.account } : {}),
+      position_id: d.positionId,
+      symbol: d.symbol,
+      side: d.side,
+      quantity: d.quantity,
+      acquired: formatZoned(d.acquired, report.timeZone),
+      disposed: formatZoned(d.disposed, report.timeZone),
+      holding_days: d.holdingDays,
+      term: d.term,
+      proceeds: d.proceeds,
+      cost_basis: d.costBasis,
+      fees: d.fees,
+      gain: d.gain,
+      open_trade_id: d.openTradeId,
+      close_trade_id: d.closeTradeId
+    })),
+    income: report.income.map(line => ({
+      ...(line.account ? { account: line.account } : {}),
+      timestamp: formatZoned(line.timestamp, report.timeZone),
+      type: line.type,
+      symbol: line.symbol,
+      position_id: line.positionId ?? null,
+      amount: line.amount,
+      event_id: line.eventId
+    })),
+    totals: {
+      disposals: totals.disposals,
+      proceeds: totals.proceeds,
+      cost_basis: totals.costBasis,
+      fees: totals.fees,
+      gains: totals.gains,
+      losses: totals.losses,
+      net_gain: totals.netGain,
+      short_term_gain: totals.shortTermGain,
+      long_term_gain: totals.longTermGain,
+      funding_income: totals.fundingIncome,
+      funding_expense: totals.fundingExpense,
+      interest_income: totals.interestIncome,
+      interest_expense: totals.interestExpense,
+      net_income: totals.netIncome,
+      by_symbol: Object.fromEntries(Object.entries(totals.bySymbol).map(([symbol, t]) => [symbol, {
+        disposals: t.disposals,
+        proceeds: t.proceeds,
+        cost_basis: t.costBasis,
+        net_gain: t.gain
+      }]))
+    }
+  };
+}
+
+// Plain amounts for print: no colours, minus sign for losses
+function money(amount: number): string {
+  return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+}
+
+function totalsLines(report: TaxReport): Array<[string, string]> {
+  const { totals } = report;
+  return [
+    ['Disposals', `${totals.disposals}`],
+    ['Proceeds', money(totals.proceeds)],
+    ['Cost basis', money(totals.costBasis)],
+    ['Trading fees (included above)', money(totals.fees)],
+    ['Gains', money(totals.gains)],
+    ['Losses', money(-totals.losses)],
+    ['Net capital gain/loss', money(totals.netGain)],
+    [`Short-term (held ${report.longTermDays} days or less)`, money(totals.shortTermGain)],
+    [`Long-term (held over ${report.longTermDays} days)`, money(totals.longTermGain)],
+    ['Funding income', money(totals.fundingIncome)],
+    ['Funding expense', money(-totals.fundingExpense)],
+    ['Interest income', money(totals.interestIncome)],
+    ['Interest expense', money(-totals.interestExpense)],
+    ['Net funding & interest', money(totals.netIncome)]
+  ];
+}
+
+/**
+ * Printable plain-text report: disposals, income and expense lines, then a
+ * totals page (separated by a form feed).
+ */
+export function formatTaxReportAsText(report: TaxReport): string {
+  const { timeZone } = report;
+  const showAccount = report.disposals.some(d => d.account) || report.income.some(line => line.account);
+  const account = (name?: string) => (showAccount ? [(name || '').padEnd(12)] : []);
+
+  const lines = [
+    `CAPITAL GAINS REPORT - TAX YEAR ${report.label}`,
+    `Period: ${formatZonedDate(report.start, timeZone)} to ${lastDay(report)} (${timeZone})`,
+    `Lot matching: ${report.lotMatching}. Trading fees are included in cost basis and proceeds.`,
+    '',
+    `DISPOSALS (${report.disposals.length})`,
+    '='.repeat(60)
+  ];
+
+  if (report.disposals.length === 0) {
+    lines.push('No disposals in this tax year');
+  } else {
+    const header = [
+      ...account('Account'), 'Pos'.padStart(5), 'Symbol'.padEnd(15), 'Side ', 'Quantity'.padStart(12), 'Acquired  ', 'Disposed  ',
+      'Days'.padStart(5), 'Proceeds'.padStart(14), 'Cost basis'.padStart(14), 'Gain/loss'.padStart(12)
+    ].join(' ');
+    lines.push(header, '-'.repeat(header.length));
+    for (const d of report.disposals) {
+      lines.push([
+        ...account(d.account), `${d.positionId}`.padStart(5), d.symbol.padEnd(15), d.side.padEnd(5), `${d.quantity}`.padStart(12),
+        formatZonedDate(d.acquired, timeZone), formatZonedDate(d.disposed, timeZone), `${d.holdingDays}`.padStart(5),
+        money(d.proceeds).padStart(14), money(d.costBasis).padStart(14), money(d.gain).padStart(12)
+      ].join(' '));
+    }
+  }
+
+  lines.push('', `FUNDING & INTEREST (${report.income.length})`, '='.repeat(60));
+  if (report.income.length === 0) {
+    lines.push('No funding or interest in this tax year');
+  } else {
+    const header = [...account('Account'), 'Date      ', 'Type    ', 'Category', 'Symbol'.padEnd(15), 'Pos'.padStart(5), 'Amount'.padStart(12)].join(' ');
+    lines.push(header, '-'.repeat(header.length));
+    for (const line of report.income) {
+      lines.push([
+        ...account(line.account), formatZonedDate(line.timestamp, timeZone), line.type.padEnd(8),
+        (line.amount >= 0 ? 'income' : 'expense').padEnd(8), line.symbol.padEnd(15),
+        `${line.positionId ?? ''}`.padStart(5), money(line.amount).padStart(12)
+      ].join(' '));
+    }
+  }
+
+  lines.push('\f', `TOTALS - TAX YEAR ${report.label}`, '='.repeat(60));
+  for (const [label, value] of totalsLines(report)) {
+    lines.push(`${label.padEnd(40)} ${value.padStart(16)}`);
+  }
+
+  const symbols = Object.entries(report.totals.bySymbol);
+  if (symbols.length > 0) {
+    lines.push('', 'BY SYMBOL:');
+    for (const [symbol, t] of symbols) {
+      lines.push(`${symbol.padEnd(15)} ${`${t.disposals}`.padStart(5)} disposals, proceeds ${money(t.proceeds)}, cost basis ${money(t.costBasis)}, net ${money(t.gain)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Printable, self-contained HTML report; the totals start on a new page.
+ */
+export function formatTaxReportAsHTML(report: TaxReport): string {
+  const { timeZone } = report;
+  const showAccount = report.disposals.some(d => d.account) || report.income.some(line => line.account);
+  const cell = (value: string, numeric = false) => `<td${numeric ? ' class="num"' : ''}>${escapeHTML(value)}</td>`;
+  const amountCell = (amount: number) => `<td class="num${amount < 0 ? ' loss' : ''}">${escapeHTML(money(amount))}</td>`;
+  const headerRow = (labels: string[]) => `<tr>${labels.map(label => `<th>${escapeHTML(label)}</th>`).join('')}</tr>`;
+
+  const disposalRows = report.disposals.map(d => `<tr>${[
+    ...(showAccount ? [cell(d.account || '')] : []),
+    cell(`${d.positionId}`, true),
+    cell(d.symbol),
+    cell(d.side),
+    cell(`${d.quantity}`, true),
+    cell(formatZonedDate(d.acquired, timeZone)),
+    cell(formatZonedDate(d.disposed, timeZone)),
+    cell(`${d.holdingDays}`, true),
+    amountCell(d.proceeds),
+    amountCell(d.costBasis),
+    amountCell(d.gain)
+  ].join('')}</tr>`);
+
+  const incomeRows = report.income.map(line => `<tr>${[
+    ...(showAccount ? [cell(line.account || '')] : []),
+    cell(formatZonedDate(line.timestamp, timeZone)),
+    cell(line.type),
+    cell(line.amount >= 0 ? 'income' : 'expense'),
+    cell(line.symbol),
+    cell(`${line.positionId ?? ''}`, true),
+    amountCell(line.amount)
+  ].join('')}</tr>`);
+
+  const symbolRows = Object.entries(report.totals.bySymbol).map(([symbol, t]) =>
+    `<tr>${cell(symbol)}${cell(`${t.disposals}`, true)}${amountCell(t.proceeds)}${amountCell(t.costBasis)}${amountCell(t.gain)}</tr>`);
+
+  const title = `Capital gains report - tax year ${report.label}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 12px; margin: 24px; color: #111; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  h2 { font-size: 15px; margin-top: 24px; }
+  p.meta { color: #555; margin: 2px 0; }
+  table { border-collapse: collapse; width: 100%; margin-top: 8px; }
+  th, td { border-bottom: 1px solid #ddd; padding: 3px 6px; text-align: left; }
+  th { background: #f3f3f3; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  td.loss { color: #b00020; }
+  table.totals { width: auto; }
+  .totals-page { page-break-before: always; break-before: page; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+<p class="meta">Period: ${escapeHTML(formatZonedDate(report.start, timeZone))} to ${escapeHTML(lastDay(report))} (${escapeHTML(timeZone)})</p>
+<p class="meta">Lot matching: ${escapeHTML(report.lotMatching)}. Trading fees are included in cost basis and proceeds.</p>
+
+<h2>Disposals (${report.disposals.length})</h2>
+${report.disposals.length === 0 ? '<p>No disposals in this tax year.</p>' : `<table>
+${headerRow([...(showAccount ? ['Account'] : []), 'Position', 'Symbol', 'Side', 'Quantity', 'Acquired', 'Disposed', 'Days held', 'Proceeds', 'Cost basis', 'Gain/loss'])}
+${disposalRows.join('\n')}
+</table>`}
+
+<h2>Funding &amp; interest (${report.income.length})</h2>
+${report.income.length === 0 ? '<p>No funding or interest in this tax year.</p>' : `<table>
+${headerRow([...(showAccount ? ['Account'] : []), 'Date', 'Type', 'Category', 'Symbol', 'Position', 'Amount'])}
+${incomeRows.join('\n')}
+</table>`}
+
+<div class="totals-page">
+<h2>Totals - tax year ${escapeHTML(report.label)}</h2>
+<table class="totals">
+${totalsLines(report).map(([label, value]) => `<tr><th>${escapeHTML(label)}</th><td class="num">${escapeHTML(value)}</td></tr>`).join('\n')}
+</table>
+${symbolRows.length === 0 ? '' : `<h2>By symbol</h2>
+<table class="totals">
+${headerRow(['Symbol', 'Disposals', 'Proceeds', 'Cost basis', 'Net gain/loss'])}
+${symbolRows.join('\n')}
+</table>`}
+</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write the CSV files and the printable reports for one tax year into a
+ * directory, creating it if needed.
+ */
+export async function writeTaxReport(directory: string, report: TaxReport): Promise<ExportedFile[]> {
+  const prefix = `tax-${report.label.replace('/', '-')}`;
+  const totals = totalsRows(report);
+  const files: Array<[string, string, number]> = [
+    [`${prefix}-disposals.csv`, formatDisposalsAsCSV(report), report.disposals.length],
+    [`${prefix}-income.csv`, formatTaxIncomeAsCSV(report), report.income.length],
+    [`${prefix}-totals.csv`, toCSV(['item', 'symbol', 'value'], totals), totals.length],
+    [`${prefix}.txt`, formatTaxReportAsText(report), 0],
+    [`${prefix}.html`, formatTaxReportAsHTML(report), 0]
+  ];
+
+  await fs.promises.mkdir(directory, { recursive: true });
+  const written: ExportedFile[] = [];
+  for (const [name, content, rows] of files) {
+    const file = path.join(directory, name);
+    await fs.promises.writeFile(file, content, 'utf8');
+    written.push({ file, rows });
+  }
+  return written;
+}
@@ -4,10 +4,11 @@ export interface BackpackCredentials {
 }
 
 export interface BackpackRequestConfig {
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   path: string;
   params?: Record<string, any>;
   body?: any;
+  signal?: AbortSignal;
 }
 
 export interface BackpackFill {
@@ -112,11 +113,30 @@ export interface PaginationParams {
   to?: number;
 }
 
+export type TimeRange = Pick<PaginationParams, 'from' | 'to'>;
+
+export type MarketType = 'SPOT' | 'PERP' | 'IPERP' | 'DATED' | 'PREDICTION' | 'RFQ';
+
+// Filters for the getAll* history methods; each endpoint is sent the ones it supports
+export interface HistoryQuery extends TimeRange {
+  symbol?: string; // Exact market, e.g. SOL_USDC_PERP
+  marketType?: MarketType;
+}
+
 export interface BackpackPosition {
   // Basic structure - will update based on actual response
   [key: string]: any;
 }
 
+// A currently open futures position
+export interface BackpackOpenPosition {
+  symbol: string;
+  netQuantity: string; // Positive when long, negative when short
+  entryPrice?: string;
+  markPrice?: string;
+  positionId?: string;
+}
+
 export interface BackpackAccount {
   autoBorrowSettlements?: boolean;
   autoLend?: boolean;
@@ -138,4 +158,18 @@ export interface BackpackInterestHistory {
   timestamp: string;
   // Add other fields as discovered from API
   [key: string]: any;
-}
\ No newline at end of file
+}
+
+export interface TradingData {
+  fills: BackpackFill[];
+  orders: BackpackOrder[];
+  fundingPayments: BackpackFundingPayment[];
+  settlements: BackpackSettlement[];
+  fundingHistory: BackpackFundingHistory[];
+  balances: BackpackBalance;
+  deposits: BackpackDeposit[];
+  withdrawals: BackpackWithdrawal[];
+  positions: BackpackPosition[];
+  account: BackpackAccount;
+  interestHistory: BackpackInterestHistory[];
+}
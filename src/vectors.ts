@@ -0,0 +1,176 @@
+import { BackpackAuth } from './auth';
+import { BackpackRequestConfig } from './types';
+
+/**
+ * Golden signing vectors for BackpackAuth. The key pair is test vector 1
+ * from RFC 8032, so the public key can be checked independently. ED25519 is
+ * deterministic, which makes the expected signatures fixed.
+ */
+export const VECTOR_KEYS = {
+  seed: 'nWGxne/9WmC6hEr0kuwsxERJxWl7MmkZcDusAxyuf2A=', // 32-byte seed
+  secretKey: 'nWGxne/9WmC6hEr0kuwsxERJxWl7MmkZcDusAxyuf2DXWpgBgrEKt9VL/tPJZAc6DuFy89qmIyWvAhpo9wdRGg==', // 64-byte seed + public key
+  publicKey: '11qYAYKxCrfVS/7TyWQHOg7hcvPapiMlrwIaaPcHURo='
+};
+
+export interface SigningVector {
+  name: string;
+  config: BackpackRequestConfig;
+  timestamp: number;
+  window: number;
+  payload: string; // Expected signing payload
+  signature: string; // Expected base64 signature
+}
+
+export const SIGNING_VECTORS: SigningVector[] = [
+  {
+    name: 'GET without params',
+    config: { method: 'GET', path: '/api/v1/account' },
+    timestamp: 1700000000000,
+    window: 5000,
+    payload: 'instruction=accountQuery&timestamp=1700000000000&window=5000',
+    signature: 'r59w57XzyousYXrmNqPR+Lawe8FsPFTLfnDIpBYalY17/pSmYPrv1HKYqi8seyho25mR6SsaLkevF5CGOF7VCg=='
+  },
+  {
+    name: 'GET params sorted by key',
+    config: {
+      method: 'GET',
+      path: '/wapi/v1/history/fills',
+      params: { symbol: 'SOL_USDC_PERP', sortDirection: 'Asc', offset: 0, limit: 100, from: 1699000000000 }
+    },
+    timestamp: 1700000000000,
+    window: 5000,
+    payload: 'instruction=fillHistoryQueryAll&from=1699000000000&limit=100&offset=0&sortDirection=Asc&symbol=SOL_USDC_PERP&timestamp=1700000000000&window=5000',
+    signature: 'f5AeE9AjII5whclR6i1/+C6Nia0qyPwpgroC8eoATU/3LEq7A7/aqniJONmL63VfEL4NwlwYOjYNo2jv7ybWCw=='
+  },
+  {
+    name: 'GET params URL-encoded, undefined and null skipped',
+    config: {
+      method: 'GET',
+      path: '/wapi/v1/history/fills',
+      params: { symbol: 'BTC/USDC PERP&x=1', to: undefined, from: null }
+    },
+    timestamp: 1700000000000,
+    window: 5000,
+    payload: 'instruction=fillHistoryQueryAll&symbol=BTC%2FUSDC%20PERP%26x%3D1&timestamp=1700000000000&window=5000',
+    signature: 'ZjNKjgJvcBfub2EQrYBJo8oxtuVV/VGfyKQXipCHfHQdgrRMgvRvqeZIqwfEAIAbdGjNawEd7ZUgAJ5YOZN+BQ=='
+  },
+  {
+    name: 'GET with maximum window',
+    config: { method: 'GET', path: '/wapi/v1/capital/deposits', params: { limit: 1000, offset: 2000 } },
+    timestamp: 1712345678901,
+    window: 60000,
+    payload: 'instruction=depositQueryAll&limit=1000&offset=2000&timestamp=1712345678901&window=60000',
+    signature: 'ZKMkWHmk1TAfnas3W0DQPuta0J3H5hxtrYfyUhioFXVTlCF3iV/VLcO+jM56+8va3Nr/YNyPceUyDXDiBnuRDw=='
+  },
+  {
+    name: 'POST JSON body fields sorted into the instruction',
+    config: {
+      method: 'POST',
+      path: '/api/v1/order',
+      body: { symbol: 'SOL_USDC_PERP', side: 'Bid', orderType: 'Limit', quantity: '1.5', price: '100.25', timeInForce: 'GTC', postOnly: true, clientId: 42 }
+    },
+    timestamp: 1700000000000,
+    window: 5000,
+    payload: 'instruction=orderExecute&clientId=42&orderType=Limit&postOnly=true&price=100.25&quantity=1.5&side=Bid&symbol=SOL_USDC_PERP&timeInForce=GTC&timestamp=1700000000000&window=5000',
+    signature: 'JRRn/HUnScDxj0YHxKr0BmWOCNrdtV3sSDg9X21iva7Vgj8Vv1yQ3E7uPhlOuOP25pURdjyexJMTEmwFzL17AA=='
+  },
+  {
+    name: 'POST batch body signed as one segment per order',
+    config: {
+      method: 'POST',
+      path: '/api/v1/orders',
+      body: [
+        { symbol: 'SOL_USDC_PERP', side: 'Bid', orderType: 'Limit', quantity: '1', price: '99.5' },
+        { symbol: 'SOL_USDC_PERP', side: 'Ask', orderType: 'Limit', quantity: '1', price: '101.5', reduceOnly: false }
+      ]
+    },
+    timestamp: 1700000000000,
+    window: 5000,
+    payload: 'instruction=orderExecute&orderType=Limit&price=99.5&quantity=1&side=Bid&symbol=SOL_USDC_PERP&instruction=orderExecute&orderType=Limit&price=101.5&quantity=1&reduceOnly=false&side=Ask&symbol=SOL_USDC_PERP&timestamp=1700000000000&window=5000',
+    signature: 'Mq1zisqtIG5YZstgIop5VdmiP70N9uUEZGzJ4jIujEuZev+tE3oZ3Rn4GSM+3vgpTAWzR09pvVzREYUDlcQwDQ=='
+  },
+  {
+    name: 'DELETE JSON body',
+    config: { method: 'DELETE', path: '/api/v1/order', body: { symbol: 'BTC_USDC_PERP', orderId: '111947734347399168' } },
+    timestamp: 1700000000000,
+    window: 5000,
+    payload: 'instruction=orderCancel&orderId=111947734347399168&symbol=BTC_USDC_PERP&timestamp=1700000000000&window=5000',
+    signature: 'ce1/HLbcD3oFYAnJv4D67qf4u56doghz8f4H1KBJPgKONhtN3G6RvuQo5UlYUhcQeJQqkqjf+vcWoxxk3W9CBg=='
+  },
+  {
+    name: 'PATCH JSON body with booleans',
+    config: { method: 'PATCH', path: '/api/v1/account', body: { autoLend: false, leverageLimit: '5' } },
+    timestamp: 1700000000000,
+    window: 10000,
+    payload: 'instruction=accountUpdate&autoLend=false&leverageLimit=5&timestamp=1700000000000&window=10000',
+    signature: 'j1zWFmbcupra+RZaoIoo2txf8E0qlbmkjRqyeH00wpmWbmZqFT5TnFQk2oLu55E8DP4H5GfvZ4W0n0WBXN5/Dw=='
+  }
+];
+
+export interface VectorResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+}
+
+/**
+ * Run every vector through signingPayload, signRequest (with both the seed
+ * and the 64-byte secret key) and verifyRequest, including a tampered copy
+ * that must fail verification.
+ */
+export function checkSigningVectors(vectors: SigningVector[] = SIGNING_VECTORS): VectorResult[] {
+  const fromSeed = new BackpackAuth({ apiKey: VECTOR_KEYS.publicKey, privateKey: VECTOR_KEYS.seed });
+  const fromSecretKey = new BackpackAuth({ apiKey: VECTOR_KEYS.publicKey, privateKey: VECTOR_KEYS.secretKey });
+
+  return vectors.map(vector => {
+    const failures: string[] = [];
+    const { config, timestamp, window } = vector;
+
+    const payload = BackpackAuth.signingPayload(config, timestamp, window);
+    if (payload !== vector.payload) {
+      failures.push(`payload: expected "${vector.payload}", got "${payload}"`);
+    }
+
+    for (const [label, auth] of [['seed', fromSeed], ['secret key', fromSecretKey]] as const) {
+      const headers = auth.signRequest(config, timestamp, window);
+      if (headers['X-Signature'] !== vector.signature) {
+        failures.push(`signature (${label}): expected ${vector.signature}, got ${headers['X-Signature']}`);
+      }
+      if (headers['X-Timestamp'] !== String(timestamp) || headers['X-Window'] !== String(window)) {
+        failures.push(`headers (${label}): timestamp/window do not match`);
+      }
+    }
+
+    const headers = {
+      'X-API-Key': VECTOR_KEYS.publicKey,
+      'X-Signature': vector.signature,
+      'X-Timestamp': String(timestamp),
+      'X-Window': String(window)
+    };
+    const verification = BackpackAuth.verifyRequest(headers, config);
+    if (!verification.valid) {
+      failures.push(`verifyRequest rejected the vector: ${verification.reason}`);
+    }
+
+    const tampered = { ...config, params: { ...config.params, tampered: 'true' } };
+    if (BackpackAuth.verifyRequest(headers, tampered).valid) {
+      failures.push('verifyRequest accepted a tampered request');
+    }
+
+    return { name: vector.name, passed: failures.length === 0, failures };
+  });
+}
+
+if (require.main === module) {
+  const results = checkSigningVectors();
+
+  console.log('🔏 Backpack signing vectors\n');
+  for (const result of results) {
+    console.log(`${result.passed ? '\x1b[32m✓\x1b[0m' : '\x1b[31m✗\x1b[0m'} ${result.name}`);
+    result.failures.forEach(failure => console.log(`    ${failure}`));
+  }
+
+  const failed = results.filter(result => !result.passed).length;
+  console.log(`\n${results.length - failed}/${results.length} vectors passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PositionReconstructor } from '../src/analysis';
+import { fill } from './helpers';
+
+test('a fill that flips a position closes it and opens the other side with the remainder', () => {
+  const open = fill('Bid', '1', '100', { fee: '0.1' });
+  const flip = fill('Ask', '3', '110', { fee: '0.3' });
+  const close = fill('Bid', '2', '105', { fee: '0.2' });
+  const [long, short] = PositionReconstructor.reconstructPositions([open, flip, close]).completedPositions;
+
+  assert.deepEqual([long.side, long.size, long.realizedPnl, long.totalFees], ['Long', 1, 10, 0.2]);
+  assert.deepEqual([short.side, short.size, short.entryPrice, short.realizedPnl, short.totalFees], ['Short', 2, 110, 10, 0.4]);
+
+  // Both portions keep the original fill id, with the fee split by quantity
+  assert.deepEqual(long.fills.map(f => [f.id, f.quantity, f.fee]), [[open.id, '1', '0.1'], [flip.id, '1', '0.1']]);
+  assert.deepEqual(short.fills.map(f => [f.id, f.quantity, f.fee]), [[flip.id, '2', '0.2'], [close.id, '2', '0.2']]);
+});
+
+test('a short flipped to a long splits the same way', () => {
+  const fills = [fill('Ask', '0.3', '52'), fill('Bid', '0.7', '50'), fill('Ask', '0.4', '51')];
+  const [short, long] = PositionReconstructor.reconstructPositions(fills).completedPositions;
+
+  assert.deepEqual([short.side, short.size, long.side, long.size], ['Short', 0.3, 'Long', 0.4]);
+  assert.deepEqual([...short.fills, ...long.fills].filter(f => f.id === fills[1].id).map(f => f.quantity), ['0.3', '0.4']);
+});
+
+test('a fill that ends exactly flat closes the position without a flip', () => {
+  const analysis = PositionReconstructor.reconstructPositions([fill('Bid', '2', '10'), fill('Ask', '2', '9')]);
+
+  assert.equal(analysis.completedPositions.length, 1);
+  assert.equal(analysis.completedPositions[0].realizedPnl, -2);
+  assert.equal(analysis.completedPositions[0].fills.length, 2);
+});
@@ -0,0 +1,59 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import * as http from 'http';
+import { BackpackAPI } from '../src/api';
+import { BackpackApiError } from '../src/errors';
+import { createFixtureData, MOCK_CREDENTIALS } from '../src/fixtures';
+import { createMockServer } from '../src/mockserver';
+
+const DAY = 24 * 60 * 60 * 1000;
+const data = createFixtureData(20);
+const from = Date.parse('2024-01-01T00:00:00Z');
+const to = Date.parse('2024-04-01T00:00:00Z');
+let server: http.Server;
+let baseURL: string;
+
+function client(maxRangeMs?: number): BackpackAPI {
+  return new BackpackAPI(MOCK_CREDENTIALS, { baseURL, maxRangeMs, retry: { maxRetries: 0 }, rateLimit: { requestsPerSecond: 1000, burst: 1000 } });
+}
+
+before(async () => {
+  server = createMockServer({ data, maxRangeMs: 30 * DAY });
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseURL = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+test('a long range is fetched in windows by default without losing or repeating fills', async () => {
+  const fills = await client().getAllFills({ from, to }, { delayMs: 0 });
+
+  assert.equal(fills.length, data.fills.length);
+  assert.equal(new Set(fills.map(fill => fill.id)).size, fills.length);
+});
+
+test('the configured maximum overrides the default window', async () => {
+  await assert.rejects(client(60 * DAY).getAllFills({ from, to }, { delayMs: 0 }), BackpackApiError);
+
+  const fills = await client(10 * DAY).getAllFills({ from, to }, { delayMs: 0 });
+  assert.equal(fills.length, data.fills.length);
+});
+
+test('deposits and withdrawals are never split', async () => {
+  const paths: string[] = [];
+  const record = (req: http.IncomingMessage) => paths.push(new URL(req.url!, baseURL).pathname);
+  server.on('request', record);
+  try {
+    const api = client();
+    await api.getAllDeposits({ from, to }, { delayMs: 0 });
+    await api.getAllWithdrawals({ from, to }, { delayMs: 0 });
+    await api.getAllSettlements({ from, to }, { delayMs: 0 });
+  } finally {
+    server.off('request', record);
+  }
+
+  assert.equal(paths.filter(path => path === '/wapi/v1/capital/deposits').length, 1);
+  assert.equal(paths.filter(path => path === '/wapi/v1/capital/withdrawals').length, 1);
+  assert.equal(paths.filter(path => path === '/wapi/v1/history/settlement').length, 4); // 91 days in 30-day windows
+});
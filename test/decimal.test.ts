@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Decimal } from '../src/decimal';
+
+const d = (value: string | number) => Decimal.from(value);
+
+test('parses decimal strings, exponents and numbers exactly', () => {
+  assert.equal(d('0.1').add('0.2').toString(), '0.3');
+  assert.equal(d('-000123.4500').toString(), '-123.45');
+  assert.equal(d('1.5e3').toString(), '1500');
+  assert.equal(d('25E-4').toString(), '0.0025');
+  assert.equal(d('.5').toString(), '0.5');
+  assert.equal(d(0.1).toString(), '0.1');
+  assert.equal(d(1e21).toString(), '1000000000000000000000');
+});
+
+test('rejects values that are not decimals', () => {
+  for (const value of ['', 'abc', '1.2.3', '-', '.']) {
+    assert.throws(() => d(value), /Invalid decimal value/, value);
+  }
+  assert.throws(() => d(NaN), /Cannot convert/);
+  assert.throws(() => d(Infinity), /Cannot convert/);
+});
+
+test('adds, subtracts and multiplies without floating point error', () => {
+  assert.equal(d('1.1').mul('1.1').toString(), '1.21');
+  assert.equal(d('0.3').sub('0.1').toString(), '0.2');
+  assert.equal(Decimal.sum(['0.1', '0.1', '0.1', '-0.3']).toString(), '0');
+  assert.equal(d('123456789.123456789').mul('1000000000').toString(), '123456789123456789');
+});
+
+test('divides to the division scale, rounding half away from zero', () => {
+  assert.equal(d(1).div(3).toString(), '0.333333333333333333');
+  assert.equal(d(2).div(3).toString(), '0.666666666666666667');
+  assert.equal(d(-2).div(3).toString(), '-0.666666666666666667');
+  assert.equal(d(1).div(8, 2).toString(), '0.13');
+  assert.equal(d(-1).div(8, 2).toString(), '-0.13');
+  assert.equal(d(10).div('0.25').toString(), '40');
+  assert.throws(() => d(1).div(0), /Division by zero/);
+});
+
+test('rounds and formats half away from zero', () => {
+  assert.equal(d('2.345').round(2).toString(), '2.35');
+  assert.equal(d('-2.345').round(2).toString(), '-2.35');
+  assert.equal(d('2.344').round(2).toString(), '2.34');
+  assert.equal(d('1.5').round(0).toString(), '2');
+  assert.equal(d('1.2').toFixed(3), '1.200');
+  assert.equal(d('-0.005').toFixed(2), '-0.01');
+  assert.equal(d('12').toFixed(0), '12');
+});
+
+test('compares values of different scales', () => {
+  assert.ok(d('1.10').eq('1.1'));
+  assert.ok(d('-0.5').lt('0.1'));
+  assert.ok(d('2').gte('2.000'));
+  assert.equal(Decimal.max(d('1.9'), d('1.10')).toString(), '1.9');
+  assert.equal(Decimal.min(d('-1'), d('0')).toString(), '-1');
+  assert.equal(d('-3').abs().toString(), '3');
+  assert.equal(d('0').sign(), 0);
+  assert.equal(JSON.stringify({ amount: d('1.50') }), '{"amount":"1.5"}');
+});
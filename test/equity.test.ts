@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PositionReconstructor } from '../src/analysis';
+import { EQUITY_CURVE_COLUMNS, EquityCurveBuilder, formatEquityCurveAsCSV } from '../src/equity';
+import { BackpackDeposit, BackpackWithdrawal } from '../src/types';
+import { fill } from './helpers';
+
+const at = (hour: number) => Date.UTC(2024, 0, 1, hour);
+
+// A gain of 100 closed at 02:00 and a loss of 60 closed at 04:00
+const analysis = PositionReconstructor.reconstructPositions([
+  fill('Bid', '1', '1000', { timestamp: at(1) }), fill('Ask', '1', '1100', { timestamp: at(2) }),
+  fill('Bid', '1', '1000', { timestamp: at(3) }), fill('Ask', '1', '940', { timestamp: at(4) })
+]);
+
+const deposit = (quantity: string, hour: number, fields: Partial<BackpackDeposit> = {}): BackpackDeposit =>
+  ({ status: 'confirmed', symbol: 'USDC', quantity, timestamp: at(hour), ...fields });
+const withdrawal = (quantity: string, hour: number, fee: string): BackpackWithdrawal =>
+  ({ blockchain: 'Solana', quantity, fee, status: 'confirmed', address: 'address', symbol: 'USDC', timestamp: at(hour) });
+
+const transfers = {
+  deposits: [deposit('1000', 0), deposit('500', 3, { status: 'failed' }), deposit('10', 3, { symbol: 'SOL' })],
+  withdrawals: [withdrawal('499', 2.5, '1')]
+};
+
+test('transfers are left out unless asked for', () => {
+  const curve = EquityCurveBuilder.build(analysis, transfers);
+
+  assert.deepEqual(curve.points.map(point => point.type), ['position', 'position']);
+  assert.equal(curve.finalEquity, 40);
+  assert.equal(curve.drawdown.maxDrawdown, 60);
+  assert.equal(curve.drawdown.maxDrawdownPercent, 60);
+});
+
+test('a deposit is not profit and a withdrawal is not a drawdown', () => {
+  const curve = EquityCurveBuilder.build(analysis, { ...transfers, includeTransfers: true });
+
+  // The failed deposit and the SOL deposit are skipped; the withdrawal fee leaves the account too
+  assert.deepEqual(
+    curve.points.map(point => [point.type, point.change, point.equity, point.peak, point.drawdown]),
+    [['deposit', 1000, 1000, 1000, 0], ['position', 100, 1100, 1100, 0], ['withdrawal', -500, 600, 600, 0], ['position', -60, 540, 600, 60]]
+  );
+  assert.equal(curve.drawdown.maxDrawdown, 60);
+  assert.equal(curve.drawdown.maxDrawdownPercent, 10);
+  assert.equal(curve.drawdown.peakTime?.getTime(), at(2.5));
+});
+
+test('drawdown percent is empty while the peak is not positive', () => {
+  const losing = PositionReconstructor.reconstructPositions([
+    fill('Bid', '1', '100', { timestamp: at(1) }), fill('Ask', '1', '90', { timestamp: at(2) })
+  ]);
+  const curve = EquityCurveBuilder.build(losing);
+
+  assert.equal(curve.points[0].drawdown, 10);
+  assert.equal(curve.points[0].drawdownPercent, null);
+  assert.equal(curve.drawdown.maxDrawdownPercent, null);
+});
+
+test('the CSV has one row per point', () => {
+  const curve = EquityCurveBuilder.build(analysis, { ...transfers, includeTransfers: true });
+  const lines = formatEquityCurveAsCSV(curve).split('\n');
+
+  assert.equal(lines[0], EQUITY_CURVE_COLUMNS.join(','));
+  assert.equal(lines[1], '2024-01-01T00:00:00.000Z,deposit,Deposit USDC,1000,1000,1000,0,0');
+  assert.equal(lines[4], '2024-01-01T04:00:00.000Z,position,#2 Long SOL_USDC_PERP,-60,540,600,60,10');
+  assert.equal(lines.length, curve.points.length + 2); // Header, rows and the trailing newline
+});
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PositionReconstructor, formatPositionsAsCSV } from '../src/analysis';
+import { formatFillsAsCSV, formatPositionEventsAsCSV } from '../src/exporter';
+import { toCSV } from '../src/csv';
+import { fill } from './helpers';
+
+// A tiny quantity at an 18-digit price: neither survives a round trip through a number
+const fills = [
+  fill('Bid', '0.0000001', '123456789.123456789', { timestamp: Date.UTC(2024, 0, 1, 1) }),
+  fill('Ask', '0.0000001', '123456789.12345679', { timestamp: Date.UTC(2024, 0, 1, 2) })
+];
+
+test('numbers are written in plain notation', () => {
+  assert.equal(toCSV(['value'], [[1e-7], [-2.5e-8], [1e21]]), 'value\n0.0000001\n-0.000000025\n1000000000000000000000\n');
+});
+
+test('raw records keep the strings the API returned', () => {
+  const [, row] = formatFillsAsCSV(fills).split('\n');
+
+  assert.ok(row.includes(',Bid,0.0000001,123456789.123456789,0,USDC'));
+});
+
+test('positions are written from their exact figures', () => {
+  const { completedPositions } = PositionReconstructor.reconstructPositions(fills);
+  const [, row] = formatPositionsAsCSV(completedPositions).split('\n');
+
+  // size, notional, entry and exit price, then realized PnL after the times
+  assert.ok(row.includes(',closed,0.0000001,12.3456789123456789,123456789.123456789,123456789.12345679,,'));
+  assert.ok(row.includes('Z,0.0000000000000001,,0,0,0,0.0000000000000001,2'));
+
+  const lot = formatPositionEventsAsCSV(completedPositions).split('\n').find(line => line.includes(',lot,'));
+  assert.ok(lot?.includes(',0.0000001,123456789.12345679,123456789.123456789,2024-01-01T01:00:00.000Z,0.0000000000000001,'));
+});
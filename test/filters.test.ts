@@ -0,0 +1,156 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import * as http from 'http';
+import { BackpackAPI } from '../src/api';
+import { createFixtureData, openPositionsFor, MOCK_CREDENTIALS } from '../src/fixtures';
+import { RecordFilters, filterAnalysis, filterTradingDataByTime, historyQueries, inTimeRange, lookBackForOpenPositions } from '../src/filters';
+import { createMockServer } from '../src/mockserver';
+import { PositionAnalysis, PositionReconstructor } from '../src/analysis';
+import { HistoryDataset, HISTORY_DATASET_NAMES } from '../src/store';
+import { BackpackFill, TimeRange, TradingData } from '../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const filters: RecordFilters = {
+  symbol: 'BTC_USDC_PERP',
+  from: Date.parse('2024-01-02T20:00:00Z'),
+  to: Date.parse('2024-01-05T00:00:00Z')
+};
+
+// What the exchange returns for fills of the filtered market in a range
+function fillsIn(data: TradingData, range: TimeRange): BackpackFill[] {
+  return filterTradingDataByTime(data, range).fills.filter(fill => fill.symbol === filters.symbol);
+}
+
+// What the queries fetch: each dataset from its own start, with the fills
+// of positions open at `from` looked back for as index.ts does
+async function fetched(data: TradingData): Promise<{ data: TradingData; start: number }> {
+  const queries = historyQueries(filters, true);
+  const fillsSince = fillsIn(data, queries.fills!);
+  const openPositions = openPositionsFor(data.fills).filter(position => position.symbol === filters.symbol);
+  const lookback = await lookBackForOpenPositions(filters.from!, fillsSince, openPositions, async range => fillsIn(data, range));
+
+  const result = { ...data, fills: [...lookback.fills, ...fillsSince] };
+  for (const dataset of HISTORY_DATASET_NAMES) {
+    if (dataset === 'fills') continue;
+    const { from, to } = queries[dataset]!;
+    (result as Record<HistoryDataset, unknown>)[dataset] = filterTradingDataByTime(data, { from: Math.min(from!, lookback.start), to })[dataset];
+  }
+  return { data: result, start: lookback.start };
+}
+
+function reconstruct(data: TradingData): PositionAnalysis {
+  return filterAnalysis(PositionReconstructor.reconstructPositions(data.fills.filter(fill => fill.symbol === filters.symbol), {
+    settlements: data.settlements,
+    fundingPayments: data.fundingPayments,
+    fundingHistory: data.fundingHistory,
+    interestHistory: data.interestHistory
+  }), filters);
+}
+
+function positionKeys(analysis: PositionAnalysis): string[] {
+  return analysis.completedPositions.map(position =>
+    `${position.entryTime.toISOString()} ${position.side} ${position.size} ${position.realizedPnl}`
+  );
+}
+
+test('historyQueries sends the exact market and perp market type', () => {
+  const queries = historyQueries({ symbol: 'btc_usdc_perp' }, true);
+  assert.equal(queries.fills?.symbol, 'BTC_USDC_PERP');
+  assert.equal(queries.fills?.marketType, 'PERP');
+  assert.equal(historyQueries({ symbol: 'BTC' }, true).fills?.symbol, undefined);
+});
+
+test('historyQueries sends no end for the datasets positions are rebuilt from', () => {
+  const queries = historyQueries(filters, true);
+  for (const dataset of ['fills', 'orders', 'fundingPayments', 'settlements', 'fundingHistory', 'interestHistory'] as const) {
+    assert.equal(queries[dataset]?.from, filters.from, dataset);
+    assert.equal(queries[dataset]?.to, undefined, dataset);
+  }
+  assert.equal(queries.deposits?.from, filters.from);
+  assert.equal(queries.withdrawals?.to, filters.to);
+});
+
+test('historyQueries sends the date range everywhere when no positions are rebuilt', () => {
+  const queries = historyQueries(filters, false);
+  for (const dataset of HISTORY_DATASET_NAMES) {
+    assert.equal(queries[dataset]?.from, filters.from, dataset);
+    assert.equal(queries[dataset]?.to, filters.to, dataset);
+  }
+});
+
+test('positions in a date range match the ones rebuilt from the full history', async () => {
+  const data = createFixtureData(20);
+  const expected = positionKeys(reconstruct(data));
+
+  // The range has to split positions for this to test anything
+  assert.ok(expected.length > 0);
+  assert.notDeepEqual(positionKeys(reconstruct(filterTradingDataByTime(data, filters))), expected);
+
+  const { data: result, start } = await fetched(data);
+  assert.deepEqual(positionKeys(reconstruct(result)), expected);
+  // Only back to the opening of the position open at `from`
+  assert.ok(start < filters.from! && start > fillsIn(data, {})[0].timestamp);
+});
+
+test('a lookback walks back from flat, through a flip, to the fill that opened the position', async () => {
+  const fills: BackpackFill[] = [
+    { side: 'Bid', quantity: '1', timestamp: 1000 }, // Flat before: opens the long
+    { side: 'Ask', quantity: '3', timestamp: 2000 }, // Flips to short 2
+    { side: 'Bid', quantity: '1', timestamp: 3000 }, // From here on is after `from`
+    { side: 'Bid', quantity: '1', timestamp: 4000 }
+  ].map((fill, i) => ({
+    id: String(i), orderId: `order-${i}`, tradeId: `trade-${i}`, symbol: 'SOL_USDC_PERP', price: '100', fee: '0', feeSymbol: 'USDC',
+    ...fill
+  }) as BackpackFill);
+  const ranges: TimeRange[] = [];
+  const lookback = await lookBackForOpenPositions(3000, fills.slice(2), [], async range => {
+    ranges.push(range);
+    return fills.filter(fill => inTimeRange(fill.timestamp, range) && fill.timestamp < 3000);
+  });
+
+  assert.deepEqual(lookback.fills.map(fill => fill.id), ['0', '1']);
+  assert.equal(lookback.start, 1000);
+  assert.deepEqual(ranges, [{ from: 3000 - 7 * DAY, to: 2999 }]);
+
+  // A market that was flat at `from` needs nothing earlier
+  const flat = await lookBackForOpenPositions(3000, fills.slice(2), [{ symbol: 'SOL_USDC_PERP', netQuantity: '2' }], async () => {
+    throw new Error('fetched');
+  });
+  assert.deepEqual(flat, { start: 3000, fills: [] });
+});
+
+test('a date range sends from on every fill request and only looks back as far as open positions need', async () => {
+  const data = createFixtureData(20);
+  const server = createMockServer({ data });
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  const baseURL = `http://localhost:${(server.address() as AddressInfo).port}`;
+  const sent: Array<Record<string, string>> = [];
+  server.on('request', (req: http.IncomingMessage) => {
+    const url = new URL(req.url!, baseURL);
+    if (url.pathname === '/wapi/v1/history/fills') sent.push(Object.fromEntries(url.searchParams));
+  });
+
+  try {
+    const api = new BackpackAPI(MOCK_CREDENTIALS, { baseURL, retry: { maxRetries: 0 }, rateLimit: { requestsPerSecond: 1000, burst: 1000 } });
+    const query = historyQueries(filters, true).fills!;
+    const fillsSince = await api.getAllFills(query, { delayMs: 0 });
+    const openPositions = (await api.getOpenPositions()).filter(position => position.symbol === query.symbol);
+    const lookback = await lookBackForOpenPositions(filters.from!, fillsSince, openPositions, range =>
+      api.getAllFills({ ...query, ...range }, { delayMs: 0 }));
+
+    assert.ok(sent.length >= 2);
+    // The range itself is fetched in the default 30-day windows
+    const { to: windowEnd, ...first } = sent[0];
+    assert.deepEqual(first, { symbol: 'BTC_USDC_PERP', marketType: 'PERP', from: String(filters.from), sortDirection: 'Asc', limit: '1000', offset: '0' });
+    assert.equal(windowEnd, String(filters.from! + 30 * DAY - 1));
+    // The lookback window ends just before the range and still has a start
+    assert.equal(sent[sent.length - 1].to, String(filters.from! - 1));
+    assert.ok(sent.every(params => params.from !== undefined));
+
+    const downloaded = fillsSince.length + lookback.fills.length;
+    assert.ok(downloaded < data.fills.filter(fill => fill.symbol === query.symbol).length);
+  } finally {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+});
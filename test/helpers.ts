@@ -0,0 +1,16 @@
+import { BackpackFill } from '../src/types';
+
+let nextId = 0;
+
+/**
+ * A fill with a fresh id and trade, one minute after the previous one
+ * unless a timestamp is given.
+ */
+export function fill(side: 'Bid' | 'Ask', quantity: string, price: string, fields: Partial<BackpackFill> = {}): BackpackFill {
+  nextId++;
+  return {
+    id: String(nextId), orderId: `order-${nextId}`, tradeId: `trade-${nextId}`, symbol: 'SOL_USDC_PERP',
+    side, quantity, price, fee: '0', feeSymbol: 'USDC', timestamp: Date.UTC(2024, 0, 1) + nextId * 60000,
+    ...fields
+  };
+}
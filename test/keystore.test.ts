@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keystore, KeystoreError } from '../src/keystore';
+import { MOCK_CREDENTIALS } from '../src/fixtures';
+
+const PASSPHRASE = 'correct horse battery';
+
+async function withKeystore(run: (keystore: Keystore) => Promise<void>): Promise<void> {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'backpack-keystore-'));
+  try {
+    await run(new Keystore(path.join(directory, 'keystore.json')));
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('an imported profile unlocks to the same credentials', () => withKeystore(async keystore => {
+  await keystore.import('main', MOCK_CREDENTIALS, PASSPHRASE);
+
+  assert.deepEqual(await keystore.unlock('main', PASSPHRASE), MOCK_CREDENTIALS);
+  assert.deepEqual((await keystore.list()).map(profile => [profile.name, profile.apiKey]), [['main', MOCK_CREDENTIALS.apiKey]]);
+
+  // The private key is never written in the clear
+  const file = await fs.promises.readFile(keystore.file, 'utf8');
+  assert.ok(!file.includes(MOCK_CREDENTIALS.privateKey));
+}));
+
+test('a wrong passphrase is rejected', () => withKeystore(async keystore => {
+  await keystore.import('main', MOCK_CREDENTIALS, PASSPHRASE);
+
+  await assert.rejects(keystore.unlock('main', 'not the passphrase'), KeystoreError);
+  await assert.rejects(keystore.import('second', MOCK_CREDENTIALS, 'not the passphrase'), KeystoreError);
+}));
+
+test('a private key of the wrong length is rejected before it is stored', () => withKeystore(async keystore => {
+  const shortKey = Buffer.alloc(16, 7).toString('base64');
+
+  await assert.rejects(
+    keystore.import('main', { apiKey: MOCK_CREDENTIALS.apiKey, privateKey: shortKey }, PASSPHRASE),
+    (error: Error) => error instanceof KeystoreError && /32-byte seed or 64-byte secret key, got 16 bytes/.test(error.message)
+  );
+  await assert.rejects(
+    keystore.import('main', { apiKey: MOCK_CREDENTIALS.apiKey, privateKey: 'not base64!' }, PASSPHRASE),
+    KeystoreError
+  );
+  assert.equal(await keystore.exists(), false);
+}));
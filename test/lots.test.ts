@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LotMatcher, LotMatchingMethod, LOT_MATCHING_METHODS } from '../src/lots';
+import { Decimal } from '../src/decimal';
+import { BackpackFill } from '../src/types';
+import { fill } from './helpers';
+
+const pnl = (fills: ReturnType<typeof fill>[], side: 'Long' | 'Short', method: LotMatchingMethod) =>
+  LotMatcher.matchLots(fills, side, method).matchedLots.reduce((total, lot) => total + lot.realizedPnl, 0);
+
+function value(fills: BackpackFill[], side: 'Bid' | 'Ask'): Decimal {
+  return Decimal.sum(fills.filter(f => f.side === side).map(f => Decimal.from(f.price).mul(f.quantity)));
+}
+
+test('each method matches the scale-in, scale-out example as documented', () => {
+  const fills = [fill('Bid', '1', '100'), fill('Bid', '1', '120'), fill('Ask', '1', '130'), fill('Ask', '1', '110')];
+  const lots = (method: LotMatchingMethod) =>
+    LotMatcher.matchLots(fills, 'Long', method).matchedLots.map(lot => [lot.quantity, lot.openPrice, lot.closePrice, lot.realizedPnl]);
+
+  assert.deepEqual(lots('FIFO'), [[1, 100, 130, 30], [1, 120, 110, -10]]);
+  assert.deepEqual(lots('LIFO'), [[1, 120, 130, 10], [1, 100, 110, 10]]);
+  assert.deepEqual(lots('AverageCost'), [[0.5, 110, 130, 10], [0.5, 110, 130, 10], [0.5, 110, 110, 0], [0.5, 110, 110, 0]]);
+  for (const method of LOT_MATCHING_METHODS) {
+    assert.equal(pnl(fills, 'Long', method), 20, method);
+  }
+});
+
+test('a full round trip realizes sell value minus buy value exactly', () => {
+  // The pool average (3.3 + 2 * 1.01 + 0.7 * 2.97) / 3.7 does not terminate
+  const fills = [
+    fill('Bid', '1', '3.3'), fill('Bid', '2', '1.01'), fill('Ask', '1.1', '2.5'),
+    fill('Bid', '0.7', '2.97'), fill('Ask', '0.9', '3.07'), fill('Ask', '1.7', '1.9')
+  ];
+  const expected = value(fills, 'Ask').sub(value(fills, 'Bid'));
+
+  for (const method of LOT_MATCHING_METHODS) {
+    const result = LotMatcher.matchLots(fills, 'Long', method);
+    assert.ok(result.realizedPnl.eq(expected), `${method}: ${result.realizedPnl} != ${expected}`);
+    assert.ok(result.openQuantity.isZero(), method);
+  }
+});
+
+test('a short realizes opening value minus closing value', () => {
+  const fills = [fill('Ask', '2', '50'), fill('Ask', '1', '53'), fill('Bid', '3', '51')];
+
+  for (const method of LOT_MATCHING_METHODS) {
+    assert.equal(pnl(fills, 'Short', method), 0, method);
+  }
+  assert.equal(pnl([fills[0], fills[1], fill('Bid', '1', '51')], 'Short', 'LIFO'), 2);
+});
+
+test('a partial close leaves lots that depend on the method', () => {
+  const fills = [fill('Bid', '1', '100'), fill('Bid', '1', '120'), fill('Ask', '1', '130')];
+  const openLots = (method: LotMatchingMethod) =>
+    LotMatcher.matchLots(fills, 'Long', method).openLots.map(lot => [lot.fill.id, lot.quantity, lot.price]);
+
+  assert.deepEqual(openLots('FIFO'), [[fills[1].id, 1, 120]]);
+  assert.deepEqual(openLots('LIFO'), [[fills[0].id, 1, 100]]);
+  assert.deepEqual(openLots('AverageCost'), [[fills[0].id, 0.5, 110], [fills[1].id, 0.5, 110]]);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PageRequest, Paginator, splitTimeRange } from '../src/paginator';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+test('splitTimeRange covers the range with no gaps or overlap', () => {
+  const from = Date.parse('2024-01-01T00:00:00Z');
+  const to = Date.parse('2024-03-15T12:00:00Z');
+  const windows = splitTimeRange(from, to, 30 * DAY);
+
+  assert.equal(windows.length, 3);
+  assert.equal(windows[0].from, from);
+  assert.equal(windows[windows.length - 1].to, to);
+  for (let i = 0; i < windows.length; i++) {
+    assert.ok(windows[i].to! - windows[i].from! < 30 * DAY);
+    if (i > 0) assert.equal(windows[i].from, windows[i - 1].to! + 1);
+  }
+});
+
+test('splitTimeRange keeps a short range in one window', () => {
+  assert.deepEqual(splitTimeRange(0, DAY, 30 * DAY), [{ from: 0, to: DAY }]);
+  assert.deepEqual(splitTimeRange(0, 2 * DAY - 1, DAY), [{ from: 0, to: DAY - 1 }, { from: DAY, to: 2 * DAY - 1 }]);
+});
+
+test('each window is paged from offset 0 in turn', async () => {
+  const records = Array.from({ length: 25 }, (_, i) => ({ time: i }));
+  const requests: PageRequest[] = [];
+  const paginator = new Paginator(async request => {
+    requests.push(request);
+    const inWindow = records.filter(r => r.time >= request.window.from! && r.time <= request.window.to!);
+    return inWindow.slice(request.offset, request.offset + request.limit);
+  }, { pageSize: 5, delayMs: 0 }, splitTimeRange(0, 24, 10));
+
+  assert.deepEqual((await paginator.toArray()).map(r => r.time), records.map(r => r.time));
+  assert.deepEqual(requests.map(r => [r.window.from, r.offset]), [
+    [0, 0], [0, 5], [0, 10], [10, 0], [10, 5], [10, 10], [20, 0], [20, 5]
+  ]);
+});
+
+test('maxRecords stops across windows', async () => {
+  const paginator = new Paginator(async request =>
+    request.offset === 0 ? [request.window.from!, request.window.from! + 1].slice(0, request.limit) : [],
+  { pageSize: 2, delayMs: 0, maxRecords: 3 }, splitTimeRange(0, 29, 10));
+
+  assert.deepEqual(await paginator.toArray(), [0, 1, 10]);
+});
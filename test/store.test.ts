@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStore } from '../src/store';
+import { BackpackOrder } from '../src/types';
+
+function order(id: string, createdAt: number, status: BackpackOrder['status']): BackpackOrder {
+  return {
+    id, symbol: 'SOL_USDC_PERP', side: 'Bid', orderType: 'Limit', timeInForce: 'GTC', quantity: '1', createdAt,
+    updatedAt: createdAt, status
+  };
+}
+
+async function withStore(run: (store: LocalStore) => Promise<void>): Promise<void> {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'backpack-store-'));
+  try {
+    await run(new LocalStore(directory));
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('an empty dataset has nothing to resume from', () => withStore(async store => {
+  assert.equal(await store.resumeTimestamp('fills'), null);
+}));
+
+test('a sync resumes from the newest stored record', () => withStore(async store => {
+  await store.append('orders', [order('1', 1000, 'Filled'), order('2', 3000, 'Cancelled'), order('3', 2000, 'Filled')]);
+  assert.equal(await store.resumeTimestamp('orders'), 3000);
+}));
+
+test('orders resume from the oldest order that is still open', () => withStore(async store => {
+  await store.append('orders', [order('1', 1000, 'Filled'), order('2', 2000, 'New'), order('3', 3000, 'PartiallyFilled')]);
+  assert.equal(await store.resumeTimestamp('orders'), 2000);
+
+  // Once it is filled the newer version replaces it and the cursor moves on
+  await store.append('orders', [{ ...order('2', 2000, 'Filled'), updatedAt: 4000 }]);
+  assert.equal(await store.resumeTimestamp('orders'), 3000);
+  assert.equal((await store.load('orders')).find(o => o.id === '2')?.status, 'Filled');
+}));
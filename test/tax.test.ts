@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PositionReconstructor } from '../src/analysis';
+import { TaxReportBuilder, TaxReportError, TaxReportOptions } from '../src/tax';
+import { fill } from './helpers';
+
+const HOUR = 60 * 60 * 1000;
+
+// One long round trip per close time, each a day long with a gain of 1
+function report(closes: string[], options: TaxReportOptions) {
+  const fills = closes
+    .map(close => Date.parse(close))
+    .sort((a, b) => a - b)
+    .flatMap(time => [fill('Bid', '1', '100', { timestamp: time - 24 * HOUR }), fill('Ask', '1', '101', { timestamp: time })]);
+  return TaxReportBuilder.build(PositionReconstructor.reconstructPositions(fills), options);
+}
+
+const disposed = (closes: string[], options: TaxReportOptions) =>
+  report(closes, options).disposals.map(disposal => disposal.disposed.toISOString());
+
+test('a calendar year in UTC runs from midnight to midnight', () => {
+  const result = report([], { year: 2024 });
+
+  assert.equal(result.label, '2024');
+  assert.equal(result.start.toISOString(), '2024-01-01T00:00:00.000Z');
+  assert.equal(result.end.toISOString(), '2025-01-01T00:00:00.000Z');
+  assert.deepEqual(
+    disposed(['2023-12-31T23:59:59.999Z', '2024-01-01T00:00:00.000Z', '2024-12-31T23:59:59.999Z', '2025-01-01T00:00:00.000Z'], { year: 2024 }),
+    ['2024-01-01T00:00:00.000Z', '2024-12-31T23:59:59.999Z']
+  );
+});
+
+test('the year follows local midnight in the report time zone', () => {
+  const options = { year: 2024, timeZone: 'America/New_York' };
+  const result = report([], options);
+
+  assert.equal(result.start.toISOString(), '2024-01-01T05:00:00.000Z');
+  assert.equal(result.end.toISOString(), '2025-01-01T05:00:00.000Z');
+  // New Year's Eve evening in New York is already the next year in UTC
+  assert.deepEqual(disposed(['2024-01-01T04:30:00Z', '2025-01-01T04:30:00Z'], options), ['2025-01-01T04:30:00.000Z']);
+
+  const tokyo = report([], { year: 2024, timeZone: 'Asia/Tokyo' });
+  assert.equal(tokyo.start.toISOString(), '2023-12-31T15:00:00.000Z');
+});
+
+test('a year that starts in summer time uses the summer offset', () => {
+  const options = { year: 2024, yearStart: '04-06', timeZone: 'Europe/London' };
+  const result = report([], options);
+
+  assert.equal(result.label, '2024/25');
+  assert.equal(result.start.toISOString(), '2024-04-05T23:00:00.000Z');
+  assert.equal(result.end.toISOString(), '2025-04-05T23:00:00.000Z');
+  assert.deepEqual(disposed(['2024-04-05T22:59:59Z', '2024-04-05T23:00:00Z'], options), ['2024-04-05T23:00:00.000Z']);
+});
+
+test('a year that starts on a clock change starts at the first local instant of the day', () => {
+  // London springs forward at 01:00 GMT on 31 March 2024 and 30 March 2025, after midnight
+  const london = report([], { year: 2024, yearStart: '03-31', timeZone: 'Europe/London' });
+  assert.equal(london.start.toISOString(), '2024-03-31T00:00:00.000Z');
+
+  // Santiago skips from 24:00 to 01:00 on 8 September 2024, so that day starts at 04:00 UTC
+  const santiago = report([], { year: 2024, yearStart: '09-08', timeZone: 'America/Santiago' });
+  assert.equal(santiago.start.toISOString(), '2024-09-08T04:00:00.000Z');
+  assert.deepEqual(
+    disposed(['2024-09-08T03:30:00Z', '2024-09-08T04:00:00Z'], { year: 2024, yearStart: '09-08', timeZone: 'America/Santiago' }),
+    ['2024-09-08T04:00:00.000Z']
+  );
+
+  // And repeats 23:00-24:00 on 6 April 2024; 7 April starts once, at 04:00 UTC
+  const repeated = report([], { year: 2024, yearStart: '04-07', timeZone: 'America/Santiago' });
+  assert.equal(repeated.start.toISOString(), '2024-04-07T04:00:00.000Z');
+});
+
+test('holding period decides the term', () => {
+  const fills = [fill('Bid', '1', '100', { timestamp: Date.parse('2023-01-01T00:00:00Z') }), fill('Ask', '1', '110', { timestamp: Date.parse('2024-06-01T00:00:00Z') })];
+  const result = TaxReportBuilder.build(PositionReconstructor.reconstructPositions(fills), { year: 2024 });
+
+  assert.equal(result.disposals[0].term, 'long');
+  assert.equal(result.totals.longTermGain, 10);
+  assert.equal(TaxReportBuilder.build(PositionReconstructor.reconstructPositions(fills), { year: 2024, longTermDays: 1000 }).disposals[0].term, 'short');
+});
+
+test('invalid options are rejected', () => {
+  assert.throws(() => report([], { year: 2024, timeZone: 'Mars/Olympus_Mons' }), TaxReportError);
+  assert.throws(() => report([], { year: 2024, yearStart: '02-29' }), TaxReportError);
+  assert.throws(() => report([], { year: 24 }), TaxReportError);
+});